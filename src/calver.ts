@@ -0,0 +1,576 @@
+import { KeppoComparison, KeppoError, KeppoErrorCode } from './index.js'
+
+const REGEXP_TOKEN: RegExp = /YYYY|YY|0Y|MM|0M|WW|0W|DD|0D|MAJOR|MINOR|MICRO/g
+const REGEXP_SEPARATOR: RegExp = /^[.\-_]*$/
+const REGEXP_ESCAPE: RegExp = /[.\-_]/g
+
+const MS_PER_DAY: number = 86_400_000
+
+/**
+ * A CalVer format token, see {@link https://calver.org}.
+ *
+ * - `YYYY`: full year, `2025`
+ * - `YY`: short year, `25`, `106`
+ * - `0Y`: zero-padded short year, `05`, `106`
+ * - `MM` / `0M`: month, `1` / `01`
+ * - `WW` / `0W`: ISO week of the year, `1` / `01`, the year tokens of a format with a week token
+ *   hold the ISO week-numbering year, e.g. `2024-12-30` is `2025.01`, so it can't be combined with
+ *   the month and day tokens, week `53` is valid only in the years that have one
+ * - `DD` / `0D`: day of the month, `1` / `01`
+ * - `MAJOR`, `MINOR`, `MICRO`: counters
+ */
+export type CalVerToken =
+  | 'YYYY'
+  | 'YY'
+  | '0Y'
+  | 'MM'
+  | '0M'
+  | 'WW'
+  | '0W'
+  | 'DD'
+  | '0D'
+  | 'MAJOR'
+  | 'MINOR'
+  | 'MICRO'
+
+/**
+ * The parts of a `CalVer` version, `null` for the parts its format doesn't have.
+ */
+export interface CalVerParts {
+  year: number | null
+  month: number | null
+  week: number | null
+  day: number | null
+  major: number | null
+  minor: number | null
+  micro: number | null
+}
+
+/**
+ * Options for `CalVer`.
+ */
+export interface CalVerOptions {
+  /**
+   * Returns the current date, used when no date is given (default: `() => new Date()`).
+   *
+   * Useful for deterministic tests.
+   */
+  clock?: () => Date
+}
+
+type CalVerPart = keyof CalVerParts
+
+interface CalVerTokenSpec {
+  part: CalVerPart
+  pattern: string
+  format: (value: number) => string
+  parse: (value: string) => number
+}
+
+const DATE_PARTS: CalVerPart[] = ['year', 'month', 'week', 'day']
+const COUNTER_PARTS: CalVerPart[] = ['micro', 'minor', 'major']
+const PART_ORDER: CalVerPart[] = [
+  'year',
+  'month',
+  'week',
+  'day',
+  'major',
+  'minor',
+  'micro'
+]
+
+const COUNTER: string = '0|[1-9]\\d*'
+
+const TOKENS: Record<CalVerToken, CalVerTokenSpec> = {
+  YYYY: tokenSpec('year', '[1-9]\\d{3}'),
+  YY: {
+    part: 'year',
+    pattern: COUNTER,
+    format: (value: number) => String(value - 2000),
+    parse: (value: string) => Number(value) + 2000
+  },
+  '0Y': {
+    part: 'year',
+    pattern: '\\d{2}|[1-9]\\d{2,}',
+    format: (value: number) => String(value - 2000).padStart(2, '0'),
+    parse: (value: string) => Number(value) + 2000
+  },
+  MM: tokenSpec('month', '[1-9]|1[0-2]'),
+  '0M': tokenSpec('month', '0[1-9]|1[0-2]', 2),
+  WW: tokenSpec('week', '[1-9]|[1-4]\\d|5[0-3]'),
+  '0W': tokenSpec('week', '0[1-9]|[1-4]\\d|5[0-3]', 2),
+  DD: tokenSpec('day', '[1-9]|[12]\\d|3[01]'),
+  '0D': tokenSpec('day', '0[1-9]|[12]\\d|3[01]', 2),
+  MAJOR: tokenSpec('major', COUNTER),
+  MINOR: tokenSpec('minor', COUNTER),
+  MICRO: tokenSpec('micro', COUNTER)
+}
+
+/**
+ * A Calendar Versioning (CalVer) version, configured by a format string like `'YYYY.0M.MICRO'`.
+ *
+ * See {@link https://calver.org} for details.
+ */
+export class CalVer {
+  #format: string
+  #tokens: (CalVerToken | string)[]
+  #regexp: RegExp
+  #parts: CalVerParts
+  #clock: () => Date
+
+  /**
+   * Creates a new `CalVer` instance.
+   *
+   * Without a version, the date parts are taken from the clock and the counters start at `0`.
+   *
+   * @param format - The format string (e.g. `'YYYY.0M.MICRO'`, `'YY.0M.DD'`), tokens are separated by `.`, `-` or `_`.
+   * @param version - Optional version string that follows the format (e.g. `'2025.09.3'`).
+   * @param options - Optional `CalVerOptions`.
+   * @throws {Error} If the format or the version is invalid.
+   */
+  constructor(format: string, version?: string, options: CalVerOptions = {}) {
+    if (typeof format !== 'string') {
+      throw new KeppoError(
+        KeppoErrorCode.InvalidType,
+        `Expected a string but got "${typeof format}".`
+      )
+    }
+
+    this.#format = format
+    this.#tokens = parseFormat(format)
+    this.#regexp = formatRegExp(this.#tokens)
+    this.#clock = options.clock ?? (() => new Date())
+    this.#parts = {
+      year: null,
+      month: null,
+      week: null,
+      day: null,
+      major: null,
+      minor: null,
+      micro: null
+    }
+
+    if (typeof version === 'undefined') {
+      this.#setDate(this.#clock())
+
+      for (const part of this.#counterParts()) {
+        this.#parts[part] = 0
+      }
+    } else {
+      this.setVersion(version)
+    }
+  }
+
+  /**
+   * Creates a new `CalVer` instance out of a version string.
+   *
+   * @param format - The format string (e.g. `'YYYY.0M.MICRO'`).
+   * @param version - A version string that follows the format (e.g. `'2025.09.3'`).
+   * @param options - Optional `CalVerOptions`.
+   * @throws {Error} If the format or the version is invalid.
+   * @returns A new `CalVer` instance.
+   */
+  static from(
+    format: string,
+    version: string,
+    options?: CalVerOptions
+  ): CalVer {
+    return new CalVer(format, version, options)
+  }
+
+  /**
+   * Checks whether a version string follows a CalVer format and is a valid date.
+   *
+   * @param format - The format string (e.g. `'YYYY.0M.MICRO'`).
+   * @param version - The version string to check.
+   * @throws {Error} If the format is invalid.
+   * @returns `true` if the version is valid; otherwise `false`.
+   */
+  static isValid(format: string, version: string): boolean {
+    const tokens: (CalVerToken | string)[] = parseFormat(format)
+
+    return (
+      typeof version === 'string' &&
+      parseParts(tokens, formatRegExp(tokens), version) !== null
+    )
+  }
+
+  /**
+   * Compares two `CalVer` versions, useful as a callback for `Array.prototype.sort()`.
+   *
+   * @param a - A `CalVer` instance.
+   * @param b - A `CalVer` instance with the same format.
+   * @throws {Error} If the formats differ.
+   * @returns A numeric comparison result (`-1`, `0`, or `1`) of `a` against `b`.
+   */
+  static compare(a: CalVer, b: CalVer): KeppoComparison {
+    return a.compareWith(b)
+  }
+
+  /**
+   * Gets the format string of the current `CalVer` version.
+   * @returns The format string.
+   */
+  getFormat(): string {
+    return this.#format
+  }
+
+  /**
+   * Gets the parts of the current `CalVer` version, years are always full years.
+   * @returns The parts, `null` for the parts the format doesn't have.
+   */
+  getParts(): CalVerParts {
+    return { ...this.#parts }
+  }
+
+  /**
+   * Sets the version, the current version is overwritten.
+   *
+   * @param version - A version string that follows the format (e.g. `'2025.09.3'`).
+   * @throws {Error} If the version doesn't follow the format or is not a valid date.
+   * @returns The current instance for chaining.
+   */
+  setVersion(version: string): CalVer {
+    if (typeof version !== 'string') {
+      throw new KeppoError(
+        KeppoErrorCode.InvalidType,
+        `Expected a string but got "${typeof version}".`
+      )
+    }
+
+    const parts: CalVerParts | null = parseParts(
+      this.#tokens,
+      this.#regexp,
+      version
+    )
+
+    if (parts === null) {
+      throw new KeppoError(
+        KeppoErrorCode.InvalidVersion,
+        `Expected a valid "${this.#format}" CalVer version but got "${version}".`
+      )
+    }
+
+    this.#parts = parts
+
+    return this
+  }
+
+  /**
+   * Bumps the current `CalVer` version.
+   *
+   * When the date falls into a new period of the format, the date parts roll forward and the counters reset to `0`,
+   * otherwise the lowest counter (`MICRO`, `MINOR` or `MAJOR`) is increased.
+   * A date before the current period counts as the current period, so a bump never goes backwards.
+   *
+   * @param date - The release date (default: the current date of the clock), its UTC parts are used.
+   * @throws {Error} If the period didn't change and the format has no counters.
+   * @returns The current instance for chaining.
+   */
+  bump(date?: Date): CalVer {
+    if (typeof date !== 'undefined' && !(date instanceof Date)) {
+      throw new KeppoError(
+        KeppoErrorCode.InvalidType,
+        `Expected a Date but got "${typeof date}".`
+      )
+    }
+
+    const next: CalVer = this.clone()
+
+    next.#setDate(date ?? this.#clock())
+
+    if (comparePeriod(next.#parts, this.#parts) > 0) {
+      for (const part of this.#counterParts()) {
+        next.#parts[part] = 0
+      }
+
+      this.#parts = next.#parts
+
+      return this
+    }
+
+    const counter: CalVerPart | undefined = this.#counterParts()[0]
+
+    if (typeof counter === 'undefined') {
+      throw new KeppoError(
+        KeppoErrorCode.InvalidFormat,
+        `Expected the "${this.#format}" format to have a counter to bump within the same period.`
+      )
+    }
+
+    this.#parts[counter] = (this.#parts[counter] ?? 0) + 1
+
+    for (const part of this.#counterParts()) {
+      if (PART_ORDER.indexOf(part) > PART_ORDER.indexOf(counter)) {
+        this.#parts[part] = 0
+      }
+    }
+
+    return this
+  }
+
+  /**
+   * Compares the current `CalVer` version against another version with the same format.
+   *
+   * @param version - Another `CalVer` instance or a version string that follows the format.
+   * @throws {Error} If the formats differ or the version is invalid.
+   * @returns A numeric comparison result (`-1`, `0`, or `1`).
+   */
+  compareWith(version: CalVer | string): KeppoComparison {
+    const other: CalVer =
+      typeof version === 'string'
+        ? new CalVer(this.#format, version, { clock: this.#clock })
+        : version
+
+    if (!(other instanceof CalVer)) {
+      throw new KeppoError(
+        KeppoErrorCode.InvalidType,
+        `Expected either a CalVer instance or a version string but got "${typeof version}".`
+      )
+    }
+
+    if (other.#format !== this.#format) {
+      throw new KeppoError(
+        KeppoErrorCode.InvalidFormat,
+        `Expected the "${this.#format}" format but got "${other.#format}".`
+      )
+    }
+
+    return Math.sign(compareParts(this.#parts, other.#parts, PART_ORDER))
+  }
+
+  /**
+   * Checks whether the current `CalVer` version is equal to another version with the same format.
+   *
+   * @param version - Another `CalVer` instance or a version string that follows the format.
+   * @throws {Error} If the formats differ or the version is invalid.
+   * @returns `true` if both versions are equal; otherwise `false`.
+   */
+  equals(version: CalVer | string): boolean {
+    return this.compareWith(version) === KeppoComparison.Current
+  }
+
+  /**
+   * Creates a copy of the current `CalVer` version, the format and the clock are shared.
+   * @returns A new `CalVer` instance.
+   */
+  clone(): CalVer {
+    const clone: CalVer = new CalVer(this.#format, this.toString(), {
+      clock: this.#clock
+    })
+
+    clone.#parts = { ...this.#parts }
+
+    return clone
+  }
+
+  /**
+   * Formats the current `CalVer` object as a String.
+   * @returns {string}
+   */
+  toString(): string {
+    return this.#tokens
+      .map((token: CalVerToken | string) => {
+        const spec: CalVerTokenSpec | undefined = tokenOf(token)
+
+        return spec === undefined
+          ? token
+          : spec.format(this.#parts[spec.part] ?? 0)
+      })
+      .join('')
+  }
+
+  #setDate(date: Date): void {
+    const [weekYear, week]: [number, number] = isoWeek(date)
+    const values: Partial<Record<CalVerPart, number>> = {
+      year: this.#hasPart('week') ? weekYear : date.getUTCFullYear(),
+      month: date.getUTCMonth() + 1,
+      week,
+      day: date.getUTCDate()
+    }
+
+    for (const part of DATE_PARTS) {
+      if (this.#hasPart(part)) {
+        this.#parts[part] = values[part] ?? null
+      }
+    }
+  }
+
+  #hasPart(part: CalVerPart): boolean {
+    return this.#tokens.some(
+      (token: CalVerToken | string) => tokenOf(token)?.part === part
+    )
+  }
+
+  #counterParts(): CalVerPart[] {
+    return COUNTER_PARTS.filter((part: CalVerPart) => this.#hasPart(part))
+  }
+}
+
+function tokenSpec(
+  part: CalVerPart,
+  pattern: string,
+  padding: number = 0
+): CalVerTokenSpec {
+  return {
+    part,
+    pattern,
+    format: (value: number) => String(value).padStart(padding, '0'),
+    parse: (value: string) => Number(value)
+  }
+}
+
+function tokenOf(token: string): CalVerTokenSpec | undefined {
+  return Object.hasOwn(TOKENS, token) ? TOKENS[token as CalVerToken] : undefined
+}
+
+function parseFormat(format: string): (CalVerToken | string)[] {
+  if (typeof format !== 'string') {
+    throw new KeppoError(
+      KeppoErrorCode.InvalidType,
+      `Expected a string but got "${typeof format}".`
+    )
+  }
+
+  const tokens: (CalVerToken | string)[] = []
+  const parts: Set<CalVerPart> = new Set()
+  let index: number = 0
+
+  for (const match of format.matchAll(REGEXP_TOKEN)) {
+    const part: CalVerPart = TOKENS[match[0] as CalVerToken].part
+
+    if (
+      parts.has(part) ||
+      !REGEXP_SEPARATOR.test(format.slice(index, match.index))
+    ) {
+      throw invalidFormat(format)
+    }
+
+    if (match.index > index) {
+      tokens.push(format.slice(index, match.index))
+    }
+
+    tokens.push(match[0])
+    parts.add(part)
+    index = match.index + match[0].length
+  }
+
+  // the ISO week-numbering year doesn't always match the year of the month and the day
+  const isMixed: boolean =
+    parts.has('week') && (parts.has('month') || parts.has('day'))
+
+  if (parts.size === 0 || index !== format.length || isMixed) {
+    throw invalidFormat(format)
+  }
+
+  return tokens
+}
+
+function invalidFormat(format: string): KeppoError {
+  return new KeppoError(
+    KeppoErrorCode.InvalidFormat,
+    `Expected a valid CalVer format, e.g. "YYYY.0M.MICRO", but got "${format}".`
+  )
+}
+
+function formatRegExp(tokens: (CalVerToken | string)[]): RegExp {
+  const source: string = tokens
+    .map((token: CalVerToken | string) => {
+      const spec: CalVerTokenSpec | undefined = tokenOf(token)
+
+      return spec === undefined
+        ? token.replace(REGEXP_ESCAPE, '\\$&')
+        : `(${spec.pattern})`
+    })
+    .join('')
+
+  return new RegExp(`^${source}$`)
+}
+
+function parseParts(
+  tokens: (CalVerToken | string)[],
+  regexp: RegExp,
+  version: string
+): CalVerParts | null {
+  const match: RegExpMatchArray | null = version.match(regexp)
+
+  if (match === null) {
+    return null
+  }
+
+  const parts: CalVerParts = {
+    year: null,
+    month: null,
+    week: null,
+    day: null,
+    major: null,
+    minor: null,
+    micro: null
+  }
+  let group: number = 1
+
+  for (const token of tokens) {
+    const spec: CalVerTokenSpec | undefined = tokenOf(token)
+
+    if (spec !== undefined) {
+      parts[spec.part] = spec.parse(match[group++])
+    }
+  }
+
+  return isValidDate(parts) ? parts : null
+}
+
+function isValidDate(parts: CalVerParts): boolean {
+  if (parts.week === 53 && parts.year !== null) {
+    return isoWeek(new Date(Date.UTC(parts.year, 11, 28)))[1] === 53
+  }
+
+  if (parts.month === null || parts.day === null) {
+    return true
+  }
+
+  const date: Date = new Date(
+    Date.UTC(parts.year ?? 2000, parts.month - 1, parts.day)
+  )
+
+  return date.getUTCDate() === parts.day
+}
+
+/**
+ * Gets the ISO week-numbering year and the ISO week of a date.
+ */
+function isoWeek(date: Date): [number, number] {
+  const day: Date = new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+  )
+
+  // Thursday of the same week decides the week's year
+  day.setUTCDate(day.getUTCDate() + 4 - (day.getUTCDay() || 7))
+
+  const yearStart: number = Date.UTC(day.getUTCFullYear(), 0, 1)
+
+  return [
+    day.getUTCFullYear(),
+    Math.ceil(((day.getTime() - yearStart) / MS_PER_DAY + 1) / 7)
+  ]
+}
+
+function compareParts(
+  a: CalVerParts,
+  b: CalVerParts,
+  order: CalVerPart[]
+): number {
+  for (const part of order) {
+    const delta: number = (a[part] ?? 0) - (b[part] ?? 0)
+
+    if (delta !== 0) {
+      return delta
+    }
+  }
+
+  return 0
+}
+
+function comparePeriod(a: CalVerParts, b: CalVerParts): number {
+  return compareParts(a, b, DATE_PARTS)
+}
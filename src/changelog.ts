@@ -0,0 +1,419 @@
+import { type KeppoCommit, parseCommit } from './commits.js'
+import {
+  Keppo,
+  KeppoError,
+  KeppoErrorCode,
+  type KeppoParseResult
+} from './index.js'
+
+const REGEXP_LINE: RegExp = /\r?\n/
+const REGEXP_KEPPO_HEADING: RegExp = /^##\s+(v?\d\S*)(?:\s+\(\*(.+?)\*\))?\s*$/
+const REGEXP_KEPPO_ENTRY: RegExp =
+  /^[-*]\s+\*\*(?:\S+\s+)?(BREAKING|feat|fix|dev)\*\*:\s*(.*)$/
+const REGEXP_KAC_HEADING: RegExp =
+  /^##\s+\[([^\]]+)\](?:\s+-\s+(\d{4}-\d{2}-\d{2}))?/
+const REGEXP_KAC_SECTION: RegExp = /^###\s+(\w+)/
+const REGEXP_KAC_ENTRY: RegExp = /^[-*]\s+(.*)$/
+const REGEXP_KAC_BREAKING: RegExp = /^\*\*BREAKING\*\*:\s*/
+const REGEXP_KEPPO_DATE: RegExp = /^(\d{1,2})-([A-Za-z]{3})-(\d{4})$/
+const REGEXP_ISO_DATE: RegExp = /^(\d{4})-(\d{2})-(\d{2})$/
+const REGEXP_ANY_HEADING: RegExp = /^##\s/
+
+const CATEGORIES: KeppoChangelogCategory[] = ['breaking', 'feat', 'fix', 'dev']
+const MONTHS: string[] = [
+  'Jan',
+  'Feb',
+  'Mar',
+  'Apr',
+  'May',
+  'Jun',
+  'Jul',
+  'Aug',
+  'Sep',
+  'Oct',
+  'Nov',
+  'Dec'
+]
+
+const KEPPO_LABELS: Record<KeppoChangelogCategory, string> = {
+  breaking: '❌ BREAKING',
+  feat: '✨ feat',
+  fix: '✅ fix',
+  dev: '💻 dev'
+}
+
+const KAC_SECTIONS: Record<KeppoChangelogCategory, string> = {
+  breaking: 'Changed',
+  feat: 'Added',
+  fix: 'Fixed',
+  dev: 'Changed'
+}
+
+const KAC_CATEGORIES: Record<string, KeppoChangelogCategory> = {
+  added: 'feat',
+  changed: 'dev',
+  deprecated: 'dev',
+  removed: 'breaking',
+  fixed: 'fix',
+  security: 'fix'
+}
+
+const KAC_ORDER: string[] = [
+  'Added',
+  'Changed',
+  'Deprecated',
+  'Removed',
+  'Fixed',
+  'Security'
+]
+
+/**
+ * The category of a changelog entry.
+ */
+export type KeppoChangelogCategory = 'breaking' | 'feat' | 'fix' | 'dev'
+
+/**
+ * The format of a changelog:
+ * - `keppo`: the format of Keppo's own `CHANGELOG.md`, `## vX.Y.Z (*DD-Mon-YYYY*)` headings and emoji-prefixed bullets
+ * - `keep-a-changelog`: the [Keep a Changelog](https://keepachangelog.com) format, `## [X.Y.Z] - YYYY-MM-DD` headings and `### Added` sections
+ */
+export type KeppoChangelogFormat = 'keppo' | 'keep-a-changelog'
+
+/**
+ * A single changelog entry.
+ */
+export interface KeppoChangelogEntry {
+  category: KeppoChangelogCategory
+  text: string
+}
+
+/**
+ * A release section of a changelog.
+ */
+export interface KeppoChangelogRelease {
+  version: Keppo
+  /**
+   * The release date, `null` if the release has none.
+   */
+  date: Date | null
+  entries: KeppoChangelogEntry[]
+}
+
+/**
+ * The release passed to `formatRelease()` and `prependRelease()`.
+ */
+export interface KeppoChangelogReleaseInput {
+  /**
+   * A `Keppo` instance or a valid SemVer string.
+   */
+  version: Keppo | string
+  /**
+   * The release date, `null` leaves it out (default: the current date).
+   */
+  date?: Date | null
+  entries: KeppoChangelogEntry[]
+}
+
+/**
+ * Converts Conventional Commits messages into changelog entries.
+ *
+ * Breaking changes become `breaking` entries, `feat` commits `feat` entries, `fix` and `perf` commits `fix` entries,
+ * all other types `dev` entries. Messages that don't follow Conventional Commits are skipped.
+ *
+ * @param commits - A list of commit messages.
+ * @returns The changelog entries, in the original order.
+ */
+export function changelogEntries(commits: string[]): KeppoChangelogEntry[] {
+  if (!Array.isArray(commits)) {
+    throw new KeppoError(
+      KeppoErrorCode.InvalidType,
+      `Expected an array but got "${typeof commits}".`
+    )
+  }
+
+  const entries: KeppoChangelogEntry[] = []
+
+  for (const message of commits) {
+    const commit: KeppoCommit | null = parseCommit(message)
+
+    if (commit !== null) {
+      entries.push({ category: commitCategory(commit), text: commit.subject })
+    }
+  }
+
+  return entries
+}
+
+/**
+ * Formats a release section, entries are grouped by category.
+ *
+ * @param release - The release to format.
+ * @param format - The changelog format (default: `'keppo'`).
+ * @throws {Error} If the version is invalid.
+ * @returns The release section, without a trailing blank line.
+ */
+export function formatRelease(
+  release: KeppoChangelogReleaseInput,
+  format: KeppoChangelogFormat = 'keppo'
+): string {
+  const version: Keppo =
+    typeof release.version === 'string'
+      ? Keppo.from(release.version)
+      : release.version
+  const date: Date | null =
+    release.date === undefined ? new Date() : release.date
+
+  return format === 'keep-a-changelog'
+    ? formatKeepAChangelog(version, date, release.entries)
+    : formatKeppo(version, date, release.entries)
+}
+
+/**
+ * Adds a new release section above the newest release of a changelog.
+ *
+ * The text above the first release, e.g. the title, and the `[Unreleased]` section of Keep a Changelog stay on top.
+ *
+ * @param changelog - The changelog text, may be empty.
+ * @param release - The release to add.
+ * @param format - The changelog format (default: `'keppo'`).
+ * @throws {Error} If the version is invalid.
+ * @returns The new changelog text.
+ */
+export function prependRelease(
+  changelog: string,
+  release: KeppoChangelogReleaseInput,
+  format: KeppoChangelogFormat = 'keppo'
+): string {
+  if (typeof changelog !== 'string') {
+    throw new KeppoError(
+      KeppoErrorCode.InvalidType,
+      `Expected a string but got "${typeof changelog}".`
+    )
+  }
+
+  const section: string = formatRelease(release, format)
+  const separator: string = format === 'keppo' ? '\n<br>\n\n' : '\n'
+  const lines: string[] = changelog.split(REGEXP_LINE)
+  const index: number = lines.findIndex((line: string) =>
+    isReleaseHeading(line, format)
+  )
+
+  if (index === -1) {
+    const head: string = changelog.trimEnd()
+
+    return head === '' ? `${section}\n` : `${head}\n\n${section}\n`
+  }
+
+  const head: string = lines.slice(0, index).join('\n')
+  const tail: string = lines.slice(index).join('\n')
+
+  return `${head}${head === '' ? '' : '\n'}${section}\n${separator}${tail}`
+}
+
+/**
+ * Parses a changelog into its releases, the format is detected per heading.
+ *
+ * Sections whose heading is not a valid version, e.g. `[Unreleased]`, are skipped.
+ *
+ * @param changelog - The changelog text.
+ * @returns The releases in the order of the changelog, usually the newest first.
+ */
+export function parseChangelog(changelog: string): KeppoChangelogRelease[] {
+  if (typeof changelog !== 'string') {
+    throw new KeppoError(
+      KeppoErrorCode.InvalidType,
+      `Expected a string but got "${typeof changelog}".`
+    )
+  }
+
+  const releases: KeppoChangelogRelease[] = []
+  let release: KeppoChangelogRelease | null = null
+  let section: KeppoChangelogCategory | null = null
+
+  for (const line of changelog.split(REGEXP_LINE)) {
+    if (REGEXP_ANY_HEADING.test(line)) {
+      release = parseHeading(line)
+      section = null
+
+      if (release !== null) {
+        releases.push(release)
+      }
+
+      continue
+    }
+
+    const match: RegExpMatchArray | null = line.match(REGEXP_KAC_SECTION)
+
+    if (match !== null) {
+      section = KAC_CATEGORIES[match[1].toLowerCase()] ?? null
+      continue
+    }
+
+    const entry: KeppoChangelogEntry | null =
+      release === null ? null : parseEntry(line, section)
+
+    if (entry !== null) {
+      release?.entries.push(entry)
+    }
+  }
+
+  return releases
+}
+
+function commitCategory(commit: KeppoCommit): KeppoChangelogCategory {
+  if (commit.breaking) {
+    return 'breaking'
+  }
+
+  if (commit.type === 'feat') {
+    return 'feat'
+  }
+
+  return commit.type === 'fix' || commit.type === 'perf' ? 'fix' : 'dev'
+}
+
+function groupEntries(
+  entries: KeppoChangelogEntry[]
+): Map<KeppoChangelogCategory, KeppoChangelogEntry[]> {
+  const groups: Map<KeppoChangelogCategory, KeppoChangelogEntry[]> = new Map()
+
+  for (const category of CATEGORIES) {
+    const group: KeppoChangelogEntry[] = entries.filter(
+      (entry: KeppoChangelogEntry) => entry.category === category
+    )
+
+    if (group.length > 0) {
+      groups.set(category, group)
+    }
+  }
+
+  return groups
+}
+
+function formatKeppo(
+  version: Keppo,
+  date: Date | null,
+  entries: KeppoChangelogEntry[]
+): string {
+  const heading: string = `## v${version.key()}${date === null ? '' : ` (*${formatKeppoDate(date)}*)`}`
+  const groups: string[] = [...groupEntries(entries)].map(([category, group]) =>
+    group
+      .map(
+        (entry: KeppoChangelogEntry) =>
+          `- **${KEPPO_LABELS[category]}**: ${entry.text}`
+      )
+      .join('\n')
+  )
+
+  return groups.length > 0
+    ? `${heading}\n\n${groups.join('\n\n<br>\n\n')}`
+    : heading
+}
+
+function formatKeepAChangelog(
+  version: Keppo,
+  date: Date | null,
+  entries: KeppoChangelogEntry[]
+): string {
+  const heading: string = `## [${version.key()}]${date === null ? '' : ` - ${date.toISOString().slice(0, 10)}`}`
+  const sections: Map<string, string[]> = new Map()
+
+  for (const [category, group] of groupEntries(entries)) {
+    const name: string = KAC_SECTIONS[category]
+    const lines: string[] = sections.get(name) ?? []
+
+    for (const entry of group) {
+      lines.push(
+        `- ${category === 'breaking' ? '**BREAKING**: ' : ''}${entry.text}`
+      )
+    }
+
+    sections.set(name, lines)
+  }
+
+  const blocks: string[] = KAC_ORDER.filter((name: string) =>
+    sections.has(name)
+  ).map((name: string) => `### ${name}\n\n${sections.get(name)?.join('\n')}`)
+
+  return [heading, ...blocks].join('\n\n')
+}
+
+function formatKeppoDate(date: Date): string {
+  return `${String(date.getUTCDate()).padStart(2, '0')}-${MONTHS[date.getUTCMonth()]}-${date.getUTCFullYear()}`
+}
+
+function isReleaseHeading(line: string, format: KeppoChangelogFormat): boolean {
+  if (format === 'keppo') {
+    return REGEXP_KEPPO_HEADING.test(line)
+  }
+
+  const match: RegExpMatchArray | null = line.match(REGEXP_KAC_HEADING)
+
+  return match !== null && toVersion(match[1]) !== null
+}
+
+function parseHeading(line: string): KeppoChangelogRelease | null {
+  const match: RegExpMatchArray | null =
+    line.match(REGEXP_KEPPO_HEADING) ?? line.match(REGEXP_KAC_HEADING)
+  const version: Keppo | null = match === null ? null : toVersion(match[1])
+
+  if (match === null || version === null) {
+    return null
+  }
+
+  return { version, date: parseDate(match[2]), entries: [] }
+}
+
+function parseEntry(
+  line: string,
+  section: KeppoChangelogCategory | null
+): KeppoChangelogEntry | null {
+  const keppo: RegExpMatchArray | null = line.match(REGEXP_KEPPO_ENTRY)
+
+  if (keppo !== null) {
+    return {
+      category:
+        keppo[1] === 'BREAKING'
+          ? 'breaking'
+          : (keppo[1] as KeppoChangelogCategory),
+      text: keppo[2]
+    }
+  }
+
+  const entry: RegExpMatchArray | null =
+    section === null ? null : line.match(REGEXP_KAC_ENTRY)
+
+  if (section === null || entry === null) {
+    return null
+  }
+
+  return REGEXP_KAC_BREAKING.test(entry[1])
+    ? { category: 'breaking', text: entry[1].replace(REGEXP_KAC_BREAKING, '') }
+    : { category: section, text: entry[1] }
+}
+
+function toVersion(version: string): Keppo | null {
+  const result: KeppoParseResult = Keppo.safeParse(version, false)
+
+  return result.ok ? result.version : null
+}
+
+function parseDate(date: string | undefined): Date | null {
+  const keppo: RegExpMatchArray | null = date?.match(REGEXP_KEPPO_DATE) ?? null
+
+  if (keppo !== null) {
+    const month: number = MONTHS.indexOf(
+      `${keppo[2].charAt(0).toUpperCase()}${keppo[2].slice(1).toLowerCase()}`
+    )
+
+    return month === -1
+      ? null
+      : new Date(Date.UTC(Number(keppo[3]), month, Number(keppo[1])))
+  }
+
+  const iso: RegExpMatchArray | null = date?.match(REGEXP_ISO_DATE) ?? null
+
+  return iso === null
+    ? null
+    : new Date(Date.UTC(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3])))
+}
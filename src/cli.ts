@@ -0,0 +1,272 @@
+#!/usr/bin/env node
+import process from 'node:process'
+import { parseArgs } from 'node:util'
+import {
+  Keppo,
+  KeppoComparison,
+  KeppoError,
+  KeppoErrorCode,
+  KeppoRange,
+  type KeppoReleaseType,
+  type KeppoSortOrder
+} from './index.js'
+
+const REGEXP_LIST: RegExp = /\s+/
+
+/**
+ * The exit codes of the `keppo` binary.
+ */
+enum ExitCode {
+  Success = 0,
+  Failure = 1,
+  Older = 2,
+  Error = 3
+}
+
+const USAGE: string = `Usage: keppo <command> [options]
+
+Commands:
+  bump <kind> <version>        bumps the version, kind is one of major, minor, patch,
+                               premajor, preminor, prepatch, prerelease or release
+  compare <a> <b>              compares two versions
+  valid <version>              checks whether the version is valid
+  sort [versions...]           sorts the versions, reads them from stdin if none are given
+  satisfies <version> <range>  checks whether the version satisfies the range
+
+Options:
+  --json                 prints the output as JSON
+  --strict               only accepts strict versions, without the "v" prefix
+  --preid <identifier>   pre-release identifier used by bump (e.g. "alpha", "rc")
+  --desc                 sorts in descending order
+  --include-prerelease   lets pre-releases satisfy any range
+  -h, --help             prints this help
+  --version              prints the version of the Keppo engine
+
+Exit codes:
+  0  success, the versions are equal (compare)
+  1  the version is invalid or doesn't satisfy the range, the first version is newer (compare)
+  2  the first version is older (compare)
+  3  invalid usage or input
+`
+
+interface CliOptions {
+  json: boolean
+  strict: boolean
+  preid?: string
+  desc: boolean
+  includePrerelease: boolean
+}
+
+class UsageError extends Error {}
+
+function print(value: string): void {
+  process.stdout.write(`${value}\n`)
+}
+
+function printJson(value: unknown): void {
+  print(JSON.stringify(value))
+}
+
+function parseVersion(version: string, strict: boolean): Keppo {
+  if (strict && !Keppo.isValid(version)) {
+    throw new KeppoError(
+      KeppoErrorCode.InvalidVersion,
+      `Expected a valid strict SemVer version but got "${version}".`
+    )
+  }
+
+  return Keppo.from(version, false)
+}
+
+function isValidVersion(version: string, strict: boolean): boolean {
+  return Keppo.isValid(version) || (!strict && Keppo.isValid(version, false))
+}
+
+function expectArgs(args: string[], count: number, command: string): void {
+  if (args.length !== count) {
+    throw new UsageError(
+      `"${command}" expects ${count} argument(s) but got ${args.length}.`
+    )
+  }
+}
+
+function bump(args: string[], options: CliOptions): ExitCode {
+  expectArgs(args, 2, 'bump')
+
+  const previous: Keppo = parseVersion(args[1], options.strict)
+  const version: Keppo = previous.bumped(
+    args[0] as KeppoReleaseType,
+    options.preid
+  )
+
+  if (options.json) {
+    printJson({ previous: previous.toString(), version: version.toString() })
+  } else {
+    print(version.toString())
+  }
+
+  return ExitCode.Success
+}
+
+function compare(args: string[], options: CliOptions): ExitCode {
+  expectArgs(args, 2, 'compare')
+
+  const comparison: KeppoComparison = parseVersion(
+    args[0],
+    options.strict
+  ).compareWith(parseVersion(args[1], options.strict))
+
+  if (options.json) {
+    printJson({ a: args[0], b: args[1], comparison })
+  } else {
+    print(String(comparison))
+  }
+
+  if (comparison === KeppoComparison.Newer) {
+    return ExitCode.Failure
+  }
+
+  return comparison === KeppoComparison.Older
+    ? ExitCode.Older
+    : ExitCode.Success
+}
+
+function valid(args: string[], options: CliOptions): ExitCode {
+  expectArgs(args, 1, 'valid')
+
+  const version: string = args[0]
+  const isValid: boolean = isValidVersion(version, options.strict)
+
+  if (options.json) {
+    printJson({ version, valid: isValid })
+  } else if (isValid) {
+    print(version)
+  }
+
+  return isValid ? ExitCode.Success : ExitCode.Failure
+}
+
+async function readStdin(): Promise<string> {
+  let input: string = ''
+
+  process.stdin.setEncoding('utf8')
+
+  for await (const chunk of process.stdin) {
+    input += chunk
+  }
+
+  return input
+}
+
+async function sort(args: string[], options: CliOptions): Promise<ExitCode> {
+  const list: string[] =
+    args.length > 0
+      ? args
+      : (await readStdin()).split(REGEXP_LIST).filter(Boolean)
+  const versions: Keppo[] = list
+    .filter((version: string) => isValidVersion(version, options.strict))
+    .map((version: string) => Keppo.from(version, false))
+  const order: KeppoSortOrder = options.desc ? 'desc' : 'asc'
+  const sorted: string[] = Keppo.sort(versions, order).map((version: Keppo) =>
+    version.toString()
+  )
+
+  if (options.json) {
+    printJson(sorted)
+  } else if (sorted.length > 0) {
+    print(sorted.join('\n'))
+  }
+
+  return ExitCode.Success
+}
+
+function satisfies(args: string[], options: CliOptions): ExitCode {
+  expectArgs(args, 2, 'satisfies')
+
+  const [version, range] = args
+  const result: boolean = new KeppoRange(range, {
+    includePrerelease: options.includePrerelease
+  }).test(parseVersion(version, options.strict))
+
+  if (options.json) {
+    printJson({ version, range, satisfies: result })
+  } else if (result) {
+    print(version)
+  }
+
+  return result ? ExitCode.Success : ExitCode.Failure
+}
+
+function execute(
+  command: string,
+  args: string[],
+  options: CliOptions
+): ExitCode | Promise<ExitCode> {
+  switch (command) {
+    case 'bump':
+      return bump(args, options)
+    case 'compare':
+      return compare(args, options)
+    case 'valid':
+      return valid(args, options)
+    case 'sort':
+      return sort(args, options)
+    case 'satisfies':
+      return satisfies(args, options)
+    default:
+      throw new UsageError(`Unknown command "${command}".`)
+  }
+}
+
+async function main(argv: string[]): Promise<ExitCode> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      json: { type: 'boolean', default: false },
+      strict: { type: 'boolean', default: false },
+      preid: { type: 'string' },
+      desc: { type: 'boolean', default: false },
+      'include-prerelease': { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+      version: { type: 'boolean', default: false }
+    }
+  })
+
+  if (values.version) {
+    print(Keppo.VERSION)
+    return ExitCode.Success
+  }
+
+  if (values.help || positionals.length === 0) {
+    process.stdout.write(USAGE)
+    return values.help ? ExitCode.Success : ExitCode.Error
+  }
+
+  const [command, ...args] = positionals
+
+  return await execute(command, args, {
+    json: values.json,
+    strict: values.strict,
+    preid: values.preid,
+    desc: values.desc,
+    includePrerelease: values['include-prerelease']
+  })
+}
+
+try {
+  process.exitCode = await main(process.argv.slice(2))
+} catch (error) {
+  if (
+    !(
+      error instanceof UsageError ||
+      error instanceof KeppoError ||
+      error instanceof TypeError
+    )
+  ) {
+    throw error
+  }
+
+  process.stderr.write(`keppo: ${error.message}\n`)
+  process.exitCode = ExitCode.Error
+}
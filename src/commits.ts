@@ -0,0 +1,192 @@
+import { Keppo, KeppoError, KeppoErrorCode } from './index.js'
+
+const REGEXP_HEADER: RegExp = /^(\w[\w-]*)(?:\(([^()]*)\))?(!)?:\s*(.+)$/
+const REGEXP_BREAKING: RegExp = /^BREAKING[ -]CHANGE:\s*(.*)$/m
+const REGEXP_LINE: RegExp = /\r?\n/
+
+const BUMP_ORDER: KeppoBump[] = ['patch', 'minor', 'major']
+
+/**
+ * The kind of bump recommended by `recommendBump()`.
+ */
+export type KeppoBump = 'major' | 'minor' | 'patch'
+
+/**
+ * A parsed Conventional Commits message.
+ */
+export interface KeppoCommit {
+  /**
+   * The commit type (e.g. `'feat'`, `'fix'`).
+   */
+  type: string
+  /**
+   * The commit scope, `null` if the commit has none.
+   */
+  scope: string | null
+  /**
+   * Whether the commit is a breaking change, marked by `!` or a `BREAKING CHANGE:` footer.
+   */
+  breaking: boolean
+  /**
+   * The description that follows the type and scope.
+   */
+  subject: string
+  /**
+   * The body and footers of the commit, without the header.
+   */
+  body: string
+}
+
+/**
+ * Options for `recommendBump()`.
+ */
+export interface KeppoCommitsOptions {
+  /**
+   * Maps commit types to bumps, merged over the defaults: `feat` → `minor`, `fix` and `perf` → `patch`,
+   * `null` makes a type never bump the version.
+   */
+  types?: Record<string, KeppoBump | null>
+  /**
+   * Whether breaking changes bump the minor version while the major version is `0` (default: `true`).
+   */
+  preMajor?: boolean
+}
+
+/**
+ * A commit that contributed to the recommended bump.
+ */
+export interface KeppoBumpReason {
+  /**
+   * The original commit message.
+   */
+  message: string
+  commit: KeppoCommit
+  bump: KeppoBump
+}
+
+/**
+ * The result of `recommendBump()`.
+ */
+export interface KeppoBumpRecommendation {
+  /**
+   * The recommended bump, `null` if no commit bumps the version.
+   */
+  kind: KeppoBump | null
+  /**
+   * The commits behind the recommendation, in the original order.
+   */
+  reasons: KeppoBumpReason[]
+  /**
+   * A new `Keppo` instance with the recommended bump applied.
+   */
+  version: Keppo
+}
+
+const DEFAULT_TYPES: Record<string, KeppoBump | null> = {
+  feat: 'minor',
+  fix: 'patch',
+  perf: 'patch'
+}
+
+/**
+ * Parses a Conventional Commits message, e.g. `'feat(parser)!: drop the v prefix'`.
+ *
+ * @param message - A full commit message, the header is the first line.
+ * @returns The parsed commit or `null` if the message doesn't follow Conventional Commits.
+ */
+export function parseCommit(message: string): KeppoCommit | null {
+  if (typeof message !== 'string') {
+    throw new KeppoError(
+      KeppoErrorCode.InvalidType,
+      `Expected a string but got "${typeof message}".`
+    )
+  }
+
+  const [header, ...lines] = message.trim().split(REGEXP_LINE)
+  const match: RegExpMatchArray | null = header.match(REGEXP_HEADER)
+
+  if (match === null) {
+    return null
+  }
+
+  const body: string = lines.join('\n').trim()
+
+  return {
+    type: match[1].toLowerCase(),
+    scope: match[2]?.trim() || null,
+    breaking: match[3] === '!' || REGEXP_BREAKING.test(body),
+    subject: match[4].trim(),
+    body
+  }
+}
+
+/**
+ * Recommends the next version bump out of Conventional Commits messages.
+ *
+ * Breaking changes bump the major version, the other commits bump the version by their type,
+ * see `KeppoCommitsOptions.types`. While the major version is `0`, breaking changes bump the minor version
+ * unless `preMajor` is disabled. Messages that don't follow Conventional Commits are ignored.
+ *
+ * @param commits - A list of commit messages.
+ * @param current - The current version, a `Keppo` instance or a valid SemVer string.
+ * @param options - Optional `KeppoCommitsOptions`.
+ * @throws {Error} If the current version is invalid.
+ * @returns The recommended bump, the reasons behind it and the bumped version.
+ */
+export function recommendBump(
+  commits: string[],
+  current: Keppo | string,
+  options: KeppoCommitsOptions = {}
+): KeppoBumpRecommendation {
+  if (!Array.isArray(commits)) {
+    throw new KeppoError(
+      KeppoErrorCode.InvalidType,
+      `Expected an array but got "${typeof commits}".`
+    )
+  }
+
+  const version: Keppo =
+    typeof current === 'string' ? Keppo.from(current) : current.clone()
+  const types: Record<string, KeppoBump | null> = {
+    ...DEFAULT_TYPES,
+    ...options.types
+  }
+  const isPreMajor: boolean =
+    options.preMajor !== false && version.getBigMajor() === 0n
+  const reasons: KeppoBumpReason[] = []
+  let kind: KeppoBump | null = null
+
+  for (const message of commits) {
+    const commit: KeppoCommit | null = parseCommit(message)
+    const bump: KeppoBump | null =
+      commit === null ? null : commitBump(commit, types, isPreMajor)
+
+    if (commit === null || bump === null) {
+      continue
+    }
+
+    reasons.push({ message, commit, bump })
+
+    if (kind === null || BUMP_ORDER.indexOf(bump) > BUMP_ORDER.indexOf(kind)) {
+      kind = bump
+    }
+  }
+
+  return {
+    kind,
+    reasons,
+    version: kind === null ? version : version.bumped(kind)
+  }
+}
+
+function commitBump(
+  commit: KeppoCommit,
+  types: Record<string, KeppoBump | null>,
+  isPreMajor: boolean
+): KeppoBump | null {
+  if (commit.breaking) {
+    return isPreMajor ? 'minor' : 'major'
+  }
+
+  return Object.hasOwn(types, commit.type) ? types[commit.type] : null
+}
@@ -0,0 +1,332 @@
+import { Keppo, KeppoComparison, KeppoError, KeppoErrorCode } from './index.js'
+
+const REGEXP_EPOCH: RegExp = /^\d+$/
+const REGEXP_UPSTREAM: RegExp = /^\d[A-Za-z0-9.+~:-]*$/
+const REGEXP_REVISION: RegExp = /^[A-Za-z0-9.+~]+$/
+const REGEXP_DIGIT: RegExp = /\d/
+const REGEXP_LETTER: RegExp = /[A-Za-z]/
+const REGEXP_SEMVER_LIKE: RegExp =
+  /^(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:~([0-9A-Za-z]+(?:\.[0-9A-Za-z]+)*))?$/
+const REGEXP_BUILD: RegExp = /^[0-9A-Za-z]+(?:\.[0-9A-Za-z]+)*$/
+
+/**
+ * The positions of a pair of version strings being compared.
+ */
+interface DebianCursor {
+  a: number
+  b: number
+}
+
+/**
+ * A Debian package version, `[epoch:]upstream_version[-debian_revision]`, compared like `dpkg --compare-versions`,
+ * see {@link https://www.debian.org/doc/debian-policy/ch-controlfields.html#version}.
+ */
+export class DebianVersion {
+  #epoch: number
+  #upstream: string
+  #revision: string
+
+  /**
+   * Creates a new `DebianVersion` instance.
+   *
+   * @param version - A Debian version (e.g. `'1:2.30-1ubuntu2'`, `'1.0~rc1'`).
+   * @throws {Error} If the version is invalid.
+   */
+  constructor(version: string) {
+    if (typeof version !== 'string') {
+      throw new KeppoError(
+        KeppoErrorCode.InvalidType,
+        `Expected a string but got "${typeof version}".`
+      )
+    }
+
+    const colon: number = version.indexOf(':')
+    const epoch: string = colon === -1 ? '0' : version.slice(0, colon)
+    let upstream: string = version.slice(colon + 1)
+    const dash: number = upstream.lastIndexOf('-')
+    const revision: string = dash === -1 ? '' : upstream.slice(dash + 1)
+
+    upstream = dash === -1 ? upstream : upstream.slice(0, dash)
+
+    const isValid: boolean =
+      REGEXP_EPOCH.test(epoch) &&
+      REGEXP_UPSTREAM.test(upstream) &&
+      (colon !== -1 || !upstream.includes(':')) &&
+      (dash === -1 || REGEXP_REVISION.test(revision))
+
+    if (!isValid) {
+      throw new KeppoError(
+        KeppoErrorCode.InvalidVersion,
+        `Expected a valid Debian version but got "${version}".`
+      )
+    }
+
+    this.#epoch = Number(epoch)
+
+    if (!Number.isSafeInteger(this.#epoch)) {
+      throw new KeppoError(
+        KeppoErrorCode.UnsafeInteger,
+        `Expected the epoch of "${version}" to be a safe integer.`
+      )
+    }
+
+    this.#upstream = upstream
+    this.#revision = revision
+  }
+
+  /**
+   * Creates a new `DebianVersion` instance.
+   *
+   * @param version - A Debian version (e.g. `'1:2.30-1ubuntu2'`).
+   * @throws {Error} If the version is invalid.
+   * @returns A new `DebianVersion` instance.
+   */
+  static from(version: string): DebianVersion {
+    return new DebianVersion(version)
+  }
+
+  /**
+   * Checks whether a given string is a valid Debian version.
+   *
+   * @param version - The version to check.
+   * @returns `true` if the version is valid; otherwise `false`.
+   */
+  static isValid(version: string): boolean {
+    try {
+      new DebianVersion(version)
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  /**
+   * Compares two Debian versions, useful as a callback for `Array.prototype.sort()`.
+   *
+   * @param a - A `DebianVersion` instance or a valid Debian version.
+   * @param b - A `DebianVersion` instance or a valid Debian version.
+   * @throws {Error} If either of the versions is invalid.
+   * @returns A numeric comparison result (`-1`, `0`, or `1`) of `a` against `b`.
+   */
+  static compare(
+    a: DebianVersion | string,
+    b: DebianVersion | string
+  ): KeppoComparison {
+    return toDebian(a).compareWith(b)
+  }
+
+  /**
+   * Converts a SemVer version into a Debian version.
+   *
+   * The label is appended with a `~` so it sorts before the release (e.g. `'1.2.0-rc.1'` → `'1.2.0~rc.1'`)
+   * and the build metadata becomes the Debian revision.
+   *
+   * @param version - A `Keppo` instance or a valid SemVer string.
+   * @throws {Error} If the SemVer version is invalid.
+   * @returns A new `DebianVersion` instance or `null` if the label or build metadata contain a `-`.
+   */
+  static fromKeppo(version: Keppo | string): DebianVersion | null {
+    const semver: Keppo =
+      typeof version === 'string' ? Keppo.from(version) : version
+    const label: string = semver.getLabel()
+    const build: string = semver.getBuild()
+
+    if (label.includes('-') || build.includes('-')) {
+      return null
+    }
+
+    return new DebianVersion(
+      `${semver.getBigMajor()}.${semver.getBigMinor()}.${semver.getBigPatch()}${label === '' ? '' : `~${label}`}${build === '' ? '' : `-${build}`}`
+    )
+  }
+
+  /**
+   * Gets the epoch, `0` when the version has none.
+   * @returns The epoch.
+   */
+  getEpoch(): number {
+    return this.#epoch
+  }
+
+  /**
+   * Gets the upstream version.
+   * @returns The upstream version.
+   */
+  getUpstream(): string {
+    return this.#upstream
+  }
+
+  /**
+   * Gets the Debian revision.
+   * @returns The Debian revision or an empty string if the version has none.
+   */
+  getRevision(): string {
+    return this.#revision
+  }
+
+  /**
+   * Compares the current version against another Debian version.
+   *
+   * Compares epochs numerically, then the upstream versions and revisions using the dpkg algorithm:
+   * alternating non-digit parts, compared character by character with letters before other symbols
+   * and `~` before everything, even the end of the string, and digit parts, compared numerically.
+   *
+   * @param version - Another `DebianVersion` instance or a valid Debian version.
+   * @throws {Error} If the version is invalid.
+   * @returns A numeric comparison result (`-1`, `0`, or `1`).
+   */
+  compareWith(version: DebianVersion | string): KeppoComparison {
+    const other: DebianVersion = toDebian(version)
+
+    return Math.sign(
+      this.#epoch - other.#epoch ||
+        compareParts(this.#upstream, other.#upstream) ||
+        compareParts(this.#revision, other.#revision)
+    )
+  }
+
+  /**
+   * Checks whether the current version is equal to another Debian version, e.g. `'0:1.0'` and `'1.0'` are equal.
+   *
+   * @param version - Another `DebianVersion` instance or a valid Debian version.
+   * @throws {Error} If the version is invalid.
+   * @returns `true` if both versions are equal; otherwise `false`.
+   */
+  equals(version: DebianVersion | string): boolean {
+    return this.compareWith(version) === KeppoComparison.Current
+  }
+
+  /**
+   * Converts the current version into a SemVer version.
+   *
+   * The upstream version may have up to 3 numeric components, missing ones are `0`, and a `~` suffix,
+   * which becomes the label, the revision becomes the build metadata.
+   *
+   * @returns A new `Keppo` instance or `null` if the version has an epoch or no SemVer counterpart.
+   */
+  toKeppo(): Keppo | null {
+    const match: RegExpMatchArray | null =
+      this.#upstream.match(REGEXP_SEMVER_LIKE)
+
+    if (
+      this.#epoch !== 0 ||
+      match === null ||
+      (this.#revision !== '' && !REGEXP_BUILD.test(this.#revision))
+    ) {
+      return null
+    }
+
+    const [, major, minor = '0', patch = '0', label = ''] = match
+
+    try {
+      const version: Keppo = Keppo.from(
+        `${BigInt(major)}.${BigInt(minor)}.${BigInt(patch)}${label === '' ? '' : `-${label}`}`
+      )
+
+      return this.#revision === '' ? version : version.setBuild(this.#revision)
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * Formats the current version, a `0` epoch is omitted.
+   * @returns {string}
+   */
+  toString(): string {
+    const epoch: string = this.#epoch === 0 ? '' : `${this.#epoch}:`
+    const revision: string = this.#revision === '' ? '' : `-${this.#revision}`
+
+    return `${epoch}${this.#upstream}${revision}`
+  }
+}
+
+function toDebian(version: DebianVersion | string): DebianVersion {
+  if (version instanceof DebianVersion) {
+    return version
+  }
+
+  return new DebianVersion(version)
+}
+
+function isDigit(char: string): boolean {
+  return char !== '' && REGEXP_DIGIT.test(char)
+}
+
+/**
+ * The dpkg sort weight of a non-digit character, the end of the string weighs `0`.
+ */
+function order(char: string): number {
+  if (char === '' || isDigit(char)) {
+    return 0
+  }
+
+  if (char === '~') {
+    return -1
+  }
+
+  const code: number = char.charCodeAt(0)
+
+  return REGEXP_LETTER.test(char) ? code : code + 256
+}
+
+function compareParts(a: string, b: string): number {
+  const cursor: DebianCursor = { a: 0, b: 0 }
+
+  while (cursor.a < a.length || cursor.b < b.length) {
+    const delta: number =
+      compareNonDigits(a, b, cursor) || compareDigits(a, b, cursor)
+
+    if (delta !== 0) {
+      return delta
+    }
+  }
+
+  return 0
+}
+
+function compareNonDigits(a: string, b: string, cursor: DebianCursor): number {
+  while (
+    (cursor.a < a.length && !isDigit(a[cursor.a])) ||
+    (cursor.b < b.length && !isDigit(b[cursor.b]))
+  ) {
+    const delta: number = order(a[cursor.a] ?? '') - order(b[cursor.b] ?? '')
+
+    if (delta !== 0) {
+      return delta
+    }
+
+    cursor.a++
+    cursor.b++
+  }
+
+  return 0
+}
+
+function compareDigits(a: string, b: string, cursor: DebianCursor): number {
+  let firstDelta: number = 0
+
+  while (a[cursor.a] === '0') {
+    cursor.a++
+  }
+
+  while (b[cursor.b] === '0') {
+    cursor.b++
+  }
+
+  while (isDigit(a[cursor.a] ?? '') && isDigit(b[cursor.b] ?? '')) {
+    firstDelta ||= a.charCodeAt(cursor.a) - b.charCodeAt(cursor.b)
+    cursor.a++
+    cursor.b++
+  }
+
+  if (isDigit(a[cursor.a] ?? '')) {
+    return 1
+  }
+
+  if (isDigit(b[cursor.b] ?? '')) {
+    return -1
+  }
+
+  return firstDelta
+}
@@ -0,0 +1,169 @@
+import { execFile } from 'node:child_process'
+import { promisify } from 'node:util'
+import { Keppo, type KeppoParseResult } from './index.js'
+
+const REGEXP_LINE: RegExp = /\r?\n/
+
+const run = promisify(execFile)
+
+/**
+ * Options shared by the git adapter functions.
+ */
+export interface KeppoGitOptions {
+  /**
+   * The working directory of the repository (default: `process.cwd()`).
+   */
+  cwd?: string
+  /**
+   * The prefix of version tags, e.g. `'pkg-name@'` for monorepos (default: `''`).
+   *
+   * The `v` prefix is not part of it, it is kept by the loose mode of `Keppo`,
+   * so both `v1.2.3` and `1.2.3` tags are version tags.
+   */
+  prefix?: string
+}
+
+/**
+ * Options for `listTags()`, `latestTag()` and `tagsSince()`.
+ */
+export interface KeppoTagOptions extends KeppoGitOptions {
+  /**
+   * Whether pre-release versions are included (default: `false`).
+   */
+  includePrerelease?: boolean
+}
+
+/**
+ * Options for `createTag()`.
+ */
+export interface KeppoCreateTagOptions extends KeppoGitOptions {
+  /**
+   * Whether to create an annotated tag instead of a lightweight one (default: `false`).
+   */
+  annotated?: boolean
+  /**
+   * The message of an annotated tag, implies `annotated` (default: the tag name).
+   */
+  message?: string
+}
+
+/**
+ * A version tag of the repository.
+ */
+export interface KeppoTag {
+  /**
+   * The full tag name, prefix included (e.g. `'pkg-name@v1.2.3'`).
+   */
+  name: string
+  version: Keppo
+}
+
+/**
+ * Lists the version tags of a local git repository, sorted by SemVer precedence in ascending order.
+ *
+ * Tags without the prefix or that are not valid versions are skipped.
+ *
+ * @param options - Optional `KeppoTagOptions`.
+ * @throws {Error} If git fails, e.g. the directory is not a repository.
+ * @returns The version tags.
+ */
+export async function listTags(
+  options: KeppoTagOptions = {}
+): Promise<KeppoTag[]> {
+  const prefix: string = options.prefix ?? ''
+  const output: string = await git(['tag', '--list'], options.cwd)
+  const tags: KeppoTag[] = []
+
+  for (const name of output.split(REGEXP_LINE)) {
+    const version: Keppo | null = name.startsWith(prefix)
+      ? parseTag(name.slice(prefix.length))
+      : null
+
+    if (
+      version !== null &&
+      (options.includePrerelease || version.getLabel() === '')
+    ) {
+      tags.push({ name, version })
+    }
+  }
+
+  return tags.sort((a: KeppoTag, b: KeppoTag) =>
+    a.version.compareWith(b.version)
+  )
+}
+
+/**
+ * Gets the latest version tag of a local git repository.
+ *
+ * @param options - Optional `KeppoTagOptions`.
+ * @throws {Error} If git fails, e.g. the directory is not a repository.
+ * @returns The tag with the highest version or `null` if there are no version tags.
+ */
+export async function latestTag(
+  options: KeppoTagOptions = {}
+): Promise<KeppoTag | null> {
+  const tags: KeppoTag[] = await listTags(options)
+
+  return tags.length > 0 ? tags[tags.length - 1] : null
+}
+
+/**
+ * Lists the version tags that are newer than the given version, sorted in ascending order.
+ *
+ * @param version - A `Keppo` instance or a valid SemVer string.
+ * @param options - Optional `KeppoTagOptions`.
+ * @throws {Error} If the version is invalid or git fails.
+ * @returns The newer version tags.
+ */
+export async function tagsSince(
+  version: Keppo | string,
+  options: KeppoTagOptions = {}
+): Promise<KeppoTag[]> {
+  const since: Keppo =
+    typeof version === 'string' ? Keppo.from(version) : version
+  const tags: KeppoTag[] = await listTags(options)
+
+  return tags.filter((tag: KeppoTag) => tag.version.compareWith(since) > 0)
+}
+
+/**
+ * Creates a version tag on the current commit of a local git repository.
+ *
+ * The tag name is the prefix followed by the version, which keeps the `v` prefix of the loose mode,
+ * e.g. `'pkg-name@'` and `Keppo.from('v1.2.3')` give `'pkg-name@v1.2.3'`.
+ *
+ * @param version - A `Keppo` instance or a valid SemVer string.
+ * @param options - Optional `KeppoCreateTagOptions`.
+ * @throws {Error} If the version is invalid or git fails, e.g. the tag already exists.
+ * @returns The created tag.
+ */
+export async function createTag(
+  version: Keppo | string,
+  options: KeppoCreateTagOptions = {}
+): Promise<KeppoTag> {
+  const tagged: Keppo =
+    typeof version === 'string' ? Keppo.from(version) : version.clone()
+  const name: string = `${options.prefix ?? ''}${tagged.toString()}`
+  const args: string[] =
+    options.annotated || typeof options.message === 'string'
+      ? ['tag', '--annotate', name, '--message', options.message ?? name]
+      : ['tag', name]
+
+  await git(args, options.cwd)
+
+  return { name, version: tagged }
+}
+
+async function git(args: string[], cwd?: string): Promise<string> {
+  const { stdout } = await run('git', args, { cwd, encoding: 'utf8' })
+
+  return stdout
+}
+
+function parseTag(version: string): Keppo | null {
+  const result: KeppoParseResult = Keppo.safeParse(version, {
+    strict: !version.startsWith('v')
+  })
+
+  return result.ok ? result.version : null
+}
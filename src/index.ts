@@ -1,11 +1,43 @@
+const SEMVER_SPEC: string =
+  '(?:0|[1-9]\\d*)\\.(?:0|[1-9]\\d*)\\.(?:0|[1-9]\\d*)(?:-(?:0|[1-9]\\d*|\\d*[A-Za-z-][0-9A-Za-z-]*)(?:\\.(?:0|[1-9]\\d*|\\d*[A-Za-z-][0-9A-Za-z-]*))*)?(?:\\+[0-9A-Za-z-]+(?:\\.[0-9A-Za-z-]+)*)?'
 const SEMVER: string =
-  '\\d+\\.\\d+\\.\\d+(?:-[0-9A-Za-z-]+(?:\\.[0-9A-Za-z-]+)*)?'
+  '\\d+\\.\\d+\\.\\d+(?:-[0-9A-Za-z-]+(?:\\.[0-9A-Za-z-]+)*)?(?:\\+[0-9A-Za-z-]+(?:\\.[0-9A-Za-z-]+)*)?'
 
 const REGEXP_SEMVER: RegExp = new RegExp(`^v?${SEMVER}$`)
-const REGEXP_SEMVER_STRICT: RegExp = new RegExp(`^${SEMVER}$`)
+const REGEXP_SEMVER_STRICT: RegExp = new RegExp(`^${SEMVER_SPEC}$`)
 const REGEXP_COMPONENT: RegExp = /^\d+$/
 const REGEXP_LABEL: RegExp = /^[0-9A-Za-z-]+(\.[0-9A-Za-z-]+)*$/
 const REGEXP_VERSION: RegExp = /^v/
+const REGEXP_LEADING_ZERO: RegExp = /^0\d+$/
+const REGEXP_BUILD: RegExp = /^\+?([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*)$/
+const REGEXP_CHANNEL: RegExp = /^[0-9A-Za-z-]+$/
+
+const PARTIAL: string =
+  '(?:v|=)?(\\d+|[xX*])(?:\\.(\\d+|[xX*])(?:\\.(\\d+|[xX*])(?:-([0-9A-Za-z-]+(?:\\.[0-9A-Za-z-]+)*))?(?:\\+[0-9A-Za-z-]+(?:\\.[0-9A-Za-z-]+)*)?)?)?'
+
+const REGEXP_COMPARATOR: RegExp = new RegExp(
+  `^(<=|>=|<|>|=|~>?|\\^)?${PARTIAL}$`
+)
+const REGEXP_HYPHEN: RegExp = /^(\S+)\s+-\s+(\S+)$/
+const REGEXP_OPERATOR_SPACE: RegExp = /(<=|>=|<|>|=|~>?|\^)\s+/g
+const REGEXP_WHITESPACE: RegExp = /\s+/
+const REGEXP_X: RegExp = /^[xX*]$/
+const REGEXP_FORMAT: RegExp = /\{\{|\}\}|\{([^{}]*)\}|[{}]/g
+const REGEXP_FORMAT_TOKEN: RegExp =
+  /^([-+._~]?)(prefix|major|minor|patch|prerelease|build)(?::(\d+))?$/
+const REGEXP_COERCE: RegExp =
+  /(?<!\d)(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?(?:\+([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?(?!\d)/g
+
+const MAX_SAFE_INTEGER: bigint = BigInt(Number.MAX_SAFE_INTEGER)
+const VERSION_COMPONENTS: KeppoComponent[] = ['major', 'minor', 'patch']
+
+const FORMAT_PRESETS: Record<KeppoFormatPreset, string> = {
+  full: '{prefix}{major}.{minor}.{patch}{-prerelease}{+build}',
+  short: '{major}.{minor}',
+  docker: '{major}.{minor}.{patch}{-prerelease}{_build}',
+  padded: '{major:4}.{minor:4}.{patch:4}',
+  fileversion: '{major},{minor},{patch},0'
+}
 
 /**
  * Represents the result of a version comparison between two `Keppo` instances or SemVer strings.
@@ -22,6 +54,375 @@ export enum KeppoComparison {
   Newer = 1
 }
 
+/**
+ * Represents the reason why parsing or mutating a version failed, carried by `KeppoError`.
+ *
+ * - `InvalidType`: The input is not of the expected type
+ * - `InvalidVersion`: The input does not follow the SemVer format
+ * - `InvalidComponent`: A version component is not a non-negative integer
+ * - `LeadingZero`: A numeric component or pre-release identifier has a leading zero
+ * - `NegativeComponent`: A version component is, or would become, negative
+ * - `UnsafeInteger`: A version component exceeds safe integer limits
+ * - `InvalidLabel`: The pre-release label is malformed
+ * - `InvalidBuild`: The build metadata is malformed
+ * - `InvalidRange`: The range does not follow the npm range format
+ * - `NotPrerelease`: The operation requires a pre-release version
+ * - `InvalidReleaseType`: The release type is unknown
+ * - `InvalidFormat`: The format string of a versioning scheme is malformed
+ */
+export enum KeppoErrorCode {
+  InvalidType = 'INVALID_TYPE',
+  InvalidVersion = 'INVALID_VERSION',
+  InvalidComponent = 'INVALID_COMPONENT',
+  LeadingZero = 'LEADING_ZERO',
+  NegativeComponent = 'NEGATIVE_COMPONENT',
+  UnsafeInteger = 'UNSAFE_INTEGER',
+  InvalidLabel = 'INVALID_LABEL',
+  InvalidBuild = 'INVALID_BUILD',
+  InvalidRange = 'INVALID_RANGE',
+  NotPrerelease = 'NOT_PRERELEASE',
+  InvalidReleaseType = 'INVALID_RELEASE_TYPE',
+  InvalidFormat = 'INVALID_FORMAT',
+  HistoryDisabled = 'HISTORY_DISABLED',
+  UnknownCheckpoint = 'UNKNOWN_CHECKPOINT',
+  PolicyViolation = 'POLICY_VIOLATION',
+  UnknownChannel = 'UNKNOWN_CHANNEL'
+}
+
+/**
+ * The part of a version that a `KeppoError` refers to.
+ */
+export type KeppoComponent = 'major' | 'minor' | 'patch' | 'label' | 'build'
+
+/**
+ * The error thrown by `Keppo` and `KeppoRange` when a value is invalid.
+ *
+ * Extends `RangeError`, so existing `instanceof RangeError` checks keep working.
+ */
+export class KeppoError extends RangeError {
+  /**
+   * The reason of the failure.
+   */
+  readonly code: KeppoErrorCode
+  /**
+   * The offending part of the version, if known.
+   */
+  readonly component: KeppoComponent | null
+  /**
+   * The zero-based character offset of the failure in the input string, if known.
+   */
+  readonly offset: number | null
+
+  /**
+   * Creates a new `KeppoError` instance.
+   *
+   * @param code - The reason of the failure.
+   * @param message - A human-readable error message.
+   * @param component - The offending part of the version (default: `null`).
+   * @param offset - The character offset of the failure in the input string (default: `null`).
+   */
+  constructor(
+    code: KeppoErrorCode,
+    message: string,
+    component: KeppoComponent | null = null,
+    offset: number | null = null
+  ) {
+    super(message)
+    this.name = 'KeppoError'
+    this.code = code
+    this.component = component
+    this.offset = offset
+  }
+}
+
+/**
+ * The error thrown when a `KeppoPolicy` rejects a change, see `Keppo#addPolicy()`.
+ */
+export class KeppoPolicyError extends KeppoError {
+  /**
+   * The name of the policy that rejected the change.
+   */
+  readonly policy: string
+  /**
+   * The rejected change, the version was left as it was before it.
+   */
+  readonly change: KeppoChange
+
+  /**
+   * Creates a new `KeppoPolicyError` instance.
+   *
+   * @param policy - The name of the policy that rejected the change.
+   * @param reason - Why the change was rejected.
+   * @param change - The rejected change.
+   */
+  constructor(policy: string, reason: string, change: KeppoChange) {
+    super(
+      KeppoErrorCode.PolicyViolation,
+      `Policy "${policy}" rejected "${change.after}": ${reason}`
+    )
+    this.name = 'KeppoPolicyError'
+    this.policy = policy
+    this.change = change
+  }
+}
+
+/**
+ * The result of `Keppo.safeParse()`, either a parsed version or the reason why parsing failed.
+ *
+ * A successful loose parse lists the tolerated deviations from the specification in `warnings`.
+ */
+export type KeppoParseResult =
+  | { ok: true; version: Keppo; warnings: KeppoError[] }
+  | { ok: false; error: KeppoError }
+
+/**
+ * A primitive range operator used by `KeppoComparator`.
+ */
+export type KeppoRangeOperator = '<' | '<=' | '>' | '>=' | '='
+
+/**
+ * A single primitive comparator, e.g. `>=1.2.3`, as produced by `KeppoRange`.
+ */
+export interface KeppoComparator {
+  operator: KeppoRangeOperator
+  version: Keppo
+}
+
+/**
+ * Options that control how a `KeppoRange` matches versions.
+ */
+export interface KeppoRangeOptions {
+  /**
+   * Whether pre-release versions may satisfy the range even when no comparator
+   * of the same `[major, minor, patch]` tuple has a pre-release label (default: `false`).
+   */
+  includePrerelease?: boolean
+  /**
+   * Compares pre-release versions by the order of their channels, see `KeppoChannels` (default: `null`).
+   */
+  channels?: KeppoChannels | null
+}
+
+/**
+ * The sort order used by `Keppo.sort()`.
+ *
+ * - `asc`: oldest version first
+ * - `desc`: newest version first
+ */
+export type KeppoSortOrder = 'asc' | 'desc'
+
+/**
+ * Options used when creating a `Keppo` instance with `Keppo.from()`.
+ */
+export interface KeppoOptions {
+  /**
+   * Enables strict parsing mode (default: `true`).
+   */
+  strict?: boolean
+  /**
+   * Stores the version components as arbitrary-precision `bigint`s,
+   * lifting the `Number.MAX_SAFE_INTEGER` limit (default: `false`).
+   */
+  bigint?: boolean
+}
+
+/**
+ * Options used when extracting a version with `Keppo.coerce()`.
+ */
+export interface KeppoCoerceOptions extends KeppoOptions {
+  /**
+   * Whether to use the last version-like substring instead of the first one (default: `false`).
+   */
+  last?: boolean
+  /**
+   * Whether to keep the pre-release label that follows the version (default: `false`).
+   */
+  includePrerelease?: boolean
+  /**
+   * Whether to keep the build metadata that follows the version (default: `false`).
+   */
+  includeBuild?: boolean
+}
+
+/**
+ * The kind of version bump used by `Keppo#bumped()`.
+ */
+export type KeppoReleaseType =
+  | 'major'
+  | 'minor'
+  | 'patch'
+  | 'premajor'
+  | 'preminor'
+  | 'prepatch'
+  | 'prerelease'
+  | 'release'
+
+/**
+ * The fields that can be changed with `Keppo#with()`, all of them optional.
+ */
+export interface KeppoChanges {
+  major?: number | bigint
+  minor?: number | bigint
+  patch?: number | bigint
+  label?: string
+  build?: string
+  strict?: boolean
+}
+
+/**
+ * A named template used by `Keppo#format()`:
+ *
+ * - `full` - `'v1.2.3-rc.1+build.5'`, same as `toString()`,
+ * - `short` - `'1.2'`,
+ * - `docker` - `'1.2.3-rc.1_build.5'`, a valid Docker tag, the `+` of the build metadata is replaced with `_`,
+ * - `padded` - `'0001.0002.0003'`, sortable as plain text,
+ * - `fileversion` - `'1,2,3,0'`, a Windows `FILEVERSION`.
+ */
+export type KeppoFormatPreset =
+  | 'full'
+  | 'short'
+  | 'docker'
+  | 'padded'
+  | 'fileversion'
+
+/**
+ * A stream `Keppo#output()` writes to, e.g. `process.stdout` or any `Writable`.
+ */
+export interface KeppoWritable {
+  write(chunk: string): unknown
+}
+
+/**
+ * The plain object form of a version, returned by `Keppo#toObject()` and accepted by `Keppo.fromObject()`.
+ *
+ * The components are `bigint`s in BigInt mode, `prerelease` and `build` are empty strings when not set.
+ */
+export interface KeppoObject {
+  major: number | bigint
+  minor: number | bigint
+  patch: number | bigint
+  prerelease: string
+  build: string
+  strict: boolean
+}
+
+/**
+ * An argument of a recorded call, `bigint` arguments are recorded as strings.
+ */
+export type KeppoHistoryArgument = string | number | boolean
+
+/**
+ * A call recorded by the history of a `Keppo` instance, see `Keppo#setHistory()`.
+ */
+export interface KeppoHistoryEntry {
+  /**
+   * The name of the called method (e.g. `'increaseMinor'`, `'undo'`).
+   */
+  operation: string
+  /**
+   * The arguments as passed, omitted optional arguments are left out.
+   */
+  args: KeppoHistoryArgument[]
+  /**
+   * The version before the call.
+   */
+  before: string
+  /**
+   * The version after the call.
+   */
+  after: string
+}
+
+/**
+ * A change of a `Keppo` instance, passed to policies before it is applied and to `'change'` listeners after it.
+ */
+export interface KeppoChange {
+  /**
+   * The name of the called method (e.g. `'increaseMinor'`, `'undo'`).
+   */
+  operation: string
+  /**
+   * The arguments as passed, omitted optional arguments are left out.
+   */
+  args: KeppoHistoryArgument[]
+  /**
+   * A copy of the version before the change.
+   */
+  before: Keppo
+  /**
+   * A copy of the version after the change.
+   */
+  after: Keppo
+}
+
+/**
+ * The events emitted by a `Keppo` instance.
+ */
+export type KeppoEvent = 'change'
+
+/**
+ * A listener of `'change'` events, see `Keppo#on()`.
+ */
+export type KeppoChangeListener = (change: KeppoChange) => void
+
+/**
+ * A house rule that every change of a `Keppo` instance must follow, see `Keppo#addPolicy()`.
+ */
+export interface KeppoPolicy {
+  /**
+   * The name of the policy, used in error messages (e.g. `'no-major-decrease'`).
+   */
+  name: string
+  /**
+   * Checks a change before it is applied.
+   *
+   * @param change - The change to check.
+   * @returns Why the change is rejected or `null` to allow it.
+   */
+  check(change: KeppoChange): string | null
+}
+
+/**
+ * A release channel, the first identifier of the labels of its pre-release versions (e.g. `'beta'` in `'1.4.0-beta.3'`).
+ */
+export interface KeppoChannel {
+  name: string
+  /**
+   * Whether labels of the channel carry a number, e.g. `'beta.3'`, otherwise the label is just the name (default: `true`).
+   */
+  numbered?: boolean
+  /**
+   * The first number of the channel, lower numbers are invalid (default: `0`).
+   */
+  start?: number
+}
+
+/**
+ * The kind of change that separates two versions, returned by `Keppo#diff()`.
+ */
+export type KeppoDiff =
+  | 'major'
+  | 'minor'
+  | 'patch'
+  | 'premajor'
+  | 'preminor'
+  | 'prepatch'
+  | 'prerelease'
+  | 'build'
+
+/**
+ * The detailed form of `Keppo#diff()`, the deltas are signed and go from the current version to the other one.
+ */
+export interface KeppoDiffDetails {
+  /**
+   * The kind of change, `null` when the versions are equal.
+   */
+  kind: KeppoDiff | null
+  major: number
+  minor: number
+  patch: number
+}
+
 /**
  * A fluent, chainable SemVer utility for parsing, mutating, and comparing version strings.
  *
@@ -35,16 +436,23 @@ export class Keppo {
    */
   static VERSION: string = '2.0.0'
 
-  #major: number
-  #minor: number
-  #patch: number
+  #major: bigint
+  #minor: bigint
+  #patch: bigint
   #strict: boolean
+  #bigint: boolean
   #label: string
+  #build: string
+  #history: HistoryState | null
+  #listeners: KeppoChangeListener[]
+  #policies: KeppoPolicy[]
+  #channels: KeppoChannels | null
 
   /**
    * Creates a new `Keppo` instance from individual version components.
    *
    * Accepts `major`, `minor`, and `patch` numbers, with optional `strict` mode and label.
+   * Passing any component as a `bigint` enables the BigInt mode, see {@link setBigInt()}.
    *
    * @param major - Major version number (default: `0`).
    * @param minor - Minor version number (default: `0`).
@@ -54,9 +462,9 @@ export class Keppo {
    * @throws {Error} If any component is invalid or violates SemVer rules.
    */
   constructor(
-    major: number,
-    minor: number,
-    patch: number,
+    major: number | bigint,
+    minor: number | bigint,
+    patch: number | bigint,
     strict?: boolean,
     label?: string
   )
@@ -70,24 +478,33 @@ export class Keppo {
    */
   constructor(version: string)
   constructor(
-    major: number | string = 0,
-    minor: number = 0,
-    patch: number = 0,
+    major: number | bigint | string = 0,
+    minor: number | bigint = 0,
+    patch: number | bigint = 0,
     strict: boolean = true,
     label: string = ''
   ) {
     this.#strict = strictMode(strict)
-    this.#patch = this.#minor = this.#major = 0
+    this.#patch = this.#minor = this.#major = 0n
+    this.#bigint = false
     this.#label = ''
+    this.#build = ''
+    this.#history = null
+    this.#listeners = []
+    this.#policies = []
+    this.#channels = null
 
     if (typeof major === 'string') {
       this.setVersion(major)
       return
     }
 
-    this.#major = component(major, 0)
-    this.#minor = component(minor, 0)
-    this.#patch = component(patch, 0)
+    this.#bigint = [major, minor, patch].some(
+      (value: number | bigint) => typeof value === 'bigint'
+    )
+    this.#major = component(major, this.#bigint, 'major')
+    this.#minor = component(minor, this.#bigint, 'minor')
+    this.#patch = component(patch, this.#bigint, 'patch')
     this.setLabel(label)
   }
 
@@ -96,13 +513,93 @@ export class Keppo {
    *
    * Equivalent to `new Keppo(...).setVersion(version)` but more fluent.
    *
+   * Pass `{ bigint: true }` to parse components beyond `Number.MAX_SAFE_INTEGER` losslessly.
+   *
    * @param version - A valid SemVer string (e.g. `'1.2.3'`, `'v2.0.0-alpha'`).
-   * @param strict - Optional flag to enable strict parsing mode.
+   * @param options - Optional flag to enable strict parsing mode or a `KeppoOptions` object.
    * @throws {RangeError} If the version string is invalid.
    * @returns A fully initialized `Keppo` instance.
    */
-  static from(version: string, strict?: boolean): Keppo {
-    return new Keppo(0, 0, 0, strict).setVersion(version)
+  static from(version: string, options?: boolean | KeppoOptions): Keppo {
+    const { strict, bigint }: KeppoOptions =
+      typeof options === 'object' && options !== null
+        ? options
+        : { strict: options }
+
+    return new Keppo(0, 0, 0, strict)
+      .setBigInt(bigint === true)
+      .setVersion(version)
+  }
+
+  /**
+   * Creates a new `Keppo` instance from its plain object form, see {@link toObject()}.
+   *
+   * BigInt mode is enabled when any of the components is a `bigint`.
+   *
+   * @param object - The object form (e.g. `{ major: 1, minor: 2, patch: 3, prerelease: 'rc.1', build: '', strict: true }`).
+   * @throws {Error} If the object or any of its values is invalid.
+   * @returns A new `Keppo` instance.
+   */
+  static fromObject(object: KeppoObject): Keppo {
+    if (typeof object !== 'object' || object === null) {
+      throw new KeppoError(
+        KeppoErrorCode.InvalidType,
+        `Expected an object but got "${typeof object}".`
+      )
+    }
+
+    const isBigInt: boolean = [object.major, object.minor, object.patch].some(
+      (component: number | bigint) => typeof component === 'bigint'
+    )
+
+    return new Keppo(0, 0, 0, object.strict ?? true).setBigInt(isBigInt).with({
+      major: object.major,
+      minor: object.minor,
+      patch: object.patch,
+      label: object.prerelease ?? '',
+      build: object.build ?? ''
+    })
+  }
+
+  /**
+   * A reviver for `JSON.parse()`, turns valid SemVer strings, e.g. the output of {@link toJSON()},
+   * and objects returned by {@link toObject()} back into `Keppo` instances, other values are left untouched.
+   *
+   * E.g. `JSON.parse(text, Keppo.reviver)`.
+   *
+   * @param _key - The key of the value, unused.
+   * @param value - The parsed value.
+   * @returns A new `Keppo` instance or the value itself.
+   */
+  static reviver(_key: string, value: unknown): unknown {
+    if (typeof value === 'string') {
+      const result: KeppoParseResult = Keppo.safeParse(value)
+
+      return result.ok ? result.version : value
+    }
+
+    if (isKeppoObject(value)) {
+      try {
+        return Keppo.fromObject(value)
+      } catch {
+        return value
+      }
+    }
+
+    return value
+  }
+
+  /**
+   * Gets the regular expression pattern {@link isValid()} checks versions against, anchored,
+   * usable as a JSON Schema `pattern` or an HTML `pattern` attribute.
+   *
+   * @param isStrict - Whether to return the strict pattern (default: `true`).
+   * @returns The pattern.
+   */
+  static pattern(isStrict: boolean = true): string {
+    return strictMode(isStrict)
+      ? REGEXP_SEMVER_STRICT.source
+      : REGEXP_SEMVER.source
   }
 
   /**
@@ -119,556 +616,4162 @@ export class Keppo {
   }
 
   /**
-   * Sets the strict mode for SemVer parsing.
-   *
-   * When enabled, version strings must follow strict SemVer format (e.g. no `v` prefix).
-   * When disabled, relaxed formats like `v1.0.0` are accepted.
+   * Parses a SemVer string without throwing.
    *
-   * @param isStrict - Whether to enable strict mode (default: `true`).
-   * @returns The current `Keppo` instance.
-   */
-  setStrict(isStrict: boolean = true): Keppo {
-    this.#strict = strictMode(isStrict)
-    return this
-  }
-
-  /**
-   * Increases the major version number by the specified amount.
+   * Useful for form validation, the error carries a `KeppoErrorCode`, the offending component
+   * and the character offset of the failure in the input.
    *
-   * Resets the minor and patch components to `0` after incrementing.
+   * Loose parsing (the `v` prefix or `strict` disabled) tolerates leading zeros,
+   * each tolerated deviation from the specification is reported in `warnings`.
    *
-   * @param major - The amount to increase by (default: `1`).
-   * @throws {Error} If the value is invalid or exceeds safe integer limits.
-   * @returns The current `Keppo` instance.
+   * @param input - A SemVer string (e.g. `'1.2.3'`, `'v2.0.0-alpha'`).
+   * @param options - Optional flag to enable strict parsing mode or a `KeppoOptions` object.
+   * @returns Either `{ ok: true, version }` or `{ ok: false, error }`.
    */
-  increaseMajor(major: number = 1): Keppo {
-    if (!isValidComponent(major)) {
-      throw new RangeError(
-        `Expected a valid major version number but got "${major}".`
-      )
+  static safeParse(
+    input: string,
+    options?: boolean | KeppoOptions
+  ): KeppoParseResult {
+    if (typeof input !== 'string') {
+      return {
+        ok: false,
+        error: new KeppoError(
+          KeppoErrorCode.InvalidType,
+          `Expected a string but got "${typeof input}".`
+        )
+      }
     }
 
-    this.#major += major
-    this.#minor = 0
-    this.#patch = 0
+    try {
+      const version: Keppo = Keppo.from(input, options)
+      const strict: boolean | undefined =
+        typeof options === 'object' && options !== null
+          ? options.strict
+          : options
 
-    return this
+      return {
+        ok: true,
+        version,
+        warnings: strictMode(strict) ? [] : specWarnings(input)
+      }
+    } catch (error) {
+      if (error instanceof KeppoError) {
+        return { ok: false, error }
+      }
+
+      throw error
+    }
   }
 
   /**
-   * Increases the minor version number by the specified amount.
+   * Extracts a version from a loosely formatted string.
    *
-   * Resets the patch component to `0` after incrementing.
+   * Finds the first (or, optionally, the last) version-like substring and fills missing minor and patch
+   * components with `0`, e.g. `'release-v2.4'` → `2.4.0`, `'Node.js 22.18.0 (LTS)'` → `22.18.0`, `'v3'` → `3.0.0`.
+   * The pre-release label and build metadata are dropped unless requested.
    *
-   * @param minor - The amount to increase by (default: `1`).
-   * @throws {Error} If the value is invalid or exceeds safe integer limits.
-   * @returns The current `Keppo` instance.
+   * @param input - Any string that may contain a version.
+   * @param options - Coercion options, the `strict` flag controls the `v` prefix of the result (default: `true`).
+   * @returns A new `Keppo` instance or `null` if no version could be found.
    */
-  increaseMinor(minor: number = 1): Keppo {
-    if (!isValidComponent(minor)) {
-      throw new RangeError(
-        `Expected a valid minor version number but got "${minor}".`
+  static coerce(input: string, options: KeppoCoerceOptions = {}): Keppo | null {
+    if (typeof input !== 'string') {
+      throw new KeppoError(
+        KeppoErrorCode.InvalidType,
+        `Expected a string but got "${typeof input}".`
       )
     }
 
-    this.#minor += minor
-    this.#patch = 0
+    const matches: RegExpExecArray[] = [...input.matchAll(REGEXP_COERCE)]
 
-    return this
-  }
+    if (options.last === true) {
+      matches.reverse()
+    }
 
-  /**
-   * Increases the patch version number by the specified amount.
-   *
-   * @param patch - The amount to increase by (default: `1`).
-   * @throws {Error} If the value is invalid or exceeds safe integer limits.
-   * @returns The current `Keppo` instance.
-   */
-  increasePatch(patch: number = 1): Keppo {
-    if (!isValidComponent(patch)) {
-      throw new RangeError(
-        `Expected a valid patch version number but got ${patch}.`
+    for (const match of matches) {
+      const label: string =
+        options.includePrerelease === true ? formatLabel(match[4] ?? '') : ''
+      const build: string =
+        options.includeBuild === true ? formatBuild(match[5] ?? '') : ''
+      const result: KeppoParseResult = Keppo.safeParse(
+        `${match[1]}.${match[2] ?? 0}.${match[3] ?? 0}${label}${build}`,
+        { strict: false, bigint: options.bigint }
       )
+
+      // skip candidates that are out of range, e.g. unsafe integers
+      if (result.ok) {
+        return result.version.setStrict(strictMode(options.strict))
+      }
     }
 
-    this.#patch += patch
-    return this
+    return null
   }
 
   /**
-   * Decreases the major version number by the specified amount.
+   * Compares two versions by SemVer precedence.
    *
-   * Resets the minor and patch components to `0` after decrementing.
+   * Can be passed straight to `Array.prototype.sort()`, e.g. `versions.sort(Keppo.compare)`.
    *
-   * @param major - The amount to decrease by (default: `1`).
-   * @throws {Error} If the value is invalid or results in a negative version.
-   * @returns The current `Keppo` instance.
+   * @param a - A `Keppo` instance or a valid SemVer string.
+   * @param b - A `Keppo` instance or a valid SemVer string.
+   * @throws {Error} If either of the versions is invalid.
+   * @returns A numeric comparison result (`-1`, `0`, or `1`) of `a` against `b`.
    */
-  decreaseMajor(major: number = 1): Keppo {
-    if (!isValidComponent(major)) {
-      throw new RangeError(
-        `Expected a valid major version number but got "${major}".`
-      )
-    }
-
-    this.#major = decreaseComponent(this.#major, major, 'major')
-    this.#minor = 0
-    this.#patch = 0
-    return this
+  static compare(a: Keppo | string, b: Keppo | string): KeppoComparison {
+    return toKeppo(a).compareWith(toKeppo(b))
   }
 
   /**
-   * Decreases the minor version number by the specified amount.
+   * Sorts a list of versions by SemVer precedence.
    *
-   * Resets the patch component to `0` after decrementing.
+   * Accepts a mix of `Keppo` instances and SemVer strings, strings are parsed into new `Keppo` instances.
+   * The original list is not modified.
    *
-   * @param minor - The amount to decrease by (default: `1`).
-   * @throws {Error} If the value is invalid or results in a negative minor version.
-   * @returns The current `Keppo` instance.
+   * @param list - A list of `Keppo` instances and/or SemVer strings.
+   * @param order - The sort order, `'asc'` or `'desc'` (default: `'asc'`).
+   * @param strict - Whether to throw on invalid entries instead of skipping them (default: `false`).
+   * @throws {Error} If `strict` is enabled and the list contains an invalid entry.
+   * @returns A new, sorted list of `Keppo` instances.
    */
-  decreaseMinor(minor: number = 1): Keppo {
-    if (!isValidComponent(minor)) {
-      throw new RangeError(
-        `Expected a valid minor version number but got "${minor}".`
-      )
-    }
+  static sort(
+    list: (Keppo | string)[],
+    order: KeppoSortOrder = 'asc',
+    strict: boolean = false
+  ): Keppo[] {
+    const direction: number = order === 'desc' ? -1 : 1
 
-    this.#minor = decreaseComponent(this.#minor, minor, 'minor')
-    this.#patch = 0
-    return this
+    return toKeppoList(list, strict).sort(
+      (a: Keppo, b: Keppo) => a.compareWith(b) * direction
+    )
   }
 
   /**
-   * Decreases the patch version number by the specified amount.
+   * Finds the newest version in a list of versions.
    *
-   * @param patch - The amount to decrease by (default: `1`).
-   * @throws {Error} If the value is invalid or results in a negative patch version.
-   * @returns The current `Keppo` instance.
+   * @param list - A list of `Keppo` instances and/or SemVer strings.
+   * @param strict - Whether to throw on invalid entries instead of skipping them (default: `false`).
+   * @throws {Error} If `strict` is enabled and the list contains an invalid entry.
+   * @returns The newest version or `null` if the list has no valid entries.
    */
-  decreasePatch(patch: number = 1): Keppo {
-    if (!isValidComponent(patch)) {
-      throw new RangeError(
-        `Expected a valid patch version number but got "${patch}".`
-      )
-    }
+  static max(list: (Keppo | string)[], strict: boolean = false): Keppo | null {
+    return pickVersion(toKeppoList(list, strict), KeppoComparison.Newer)
+  }
 
-    this.#patch = decreaseComponent(this.#patch, patch, 'patch')
-    return this
+  /**
+   * Finds the oldest version in a list of versions.
+   *
+   * @param list - A list of `Keppo` instances and/or SemVer strings.
+   * @param strict - Whether to throw on invalid entries instead of skipping them (default: `false`).
+   * @throws {Error} If `strict` is enabled and the list contains an invalid entry.
+   * @returns The oldest version or `null` if the list has no valid entries.
+   */
+  static min(list: (Keppo | string)[], strict: boolean = false): Keppo | null {
+    return pickVersion(toKeppoList(list, strict), KeppoComparison.Older)
   }
 
   /**
-   * Sets the major version number for the current `Keppo` instance.
+   * Removes duplicate versions from a list of versions, keeping the first occurrence.
    *
-   * @param major - The major version as a number (e.g. `2`).
-   * @throws {Error} If the value is invalid, non-numeric, or negative.
-   * @returns The current `Keppo` instance.
+   * Versions are duplicates when they are equal including build metadata, e.g. `'v1.0.0'` and `'1.0.0'`.
+   *
+   * @param list - A list of `Keppo` instances and/or SemVer strings.
+   * @param strict - Whether to throw on invalid entries instead of skipping them (default: `false`).
+   * @throws {Error} If `strict` is enabled and the list contains an invalid entry.
+   * @returns A new list of unique `Keppo` instances, in their original order.
    */
-  setMajor(major: number): Keppo {
-    if (!isValidComponent(major)) {
-      throw new RangeError(
-        `Expected a valid major version number but got "${major}".`
-      )
+  static unique(list: (Keppo | string)[], strict: boolean = false): Keppo[] {
+    const result: Keppo[] = []
+
+    for (const version of toKeppoList(list, strict)) {
+      if (
+        !result.some(
+          (entry: Keppo) =>
+            entry.compareWith(version, true) === KeppoComparison.Current
+        )
+      ) {
+        result.push(version)
+      }
     }
 
-    this.#major = +major
-    return this
+    return result
   }
 
   /**
-   * Sets the minor version number for the current `Keppo` instance.
+   * Finds the newest version in a list of versions that satisfies the given range.
    *
-   * @param minor - The minor version, as a number (e.g. `3`).
-   * @throws {Error} If the value is invalid, non-numeric, or negative.
-   * @returns The current `Keppo` instance.
+   * @param list - A list of `Keppo` instances and/or SemVer strings.
+   * @param range - A `KeppoRange` instance or a valid range string.
+   * @param strict - Whether to throw on invalid entries instead of skipping them (default: `false`).
+   * @throws {Error} If the range is invalid or if `strict` is enabled and the list contains an invalid entry.
+   * @returns The newest satisfying version or `null` if none satisfies the range.
    */
-  setMinor(minor: number): Keppo {
-    if (!isValidComponent(minor)) {
-      throw new RangeError(
-        `Expected a valid minor version number but got "${minor}".`
-      )
-    }
+  static maxSatisfying(
+    list: (Keppo | string)[],
+    range: KeppoRange | string,
+    strict: boolean = false
+  ): Keppo | null {
+    return pickVersion(
+      filterSatisfying(toKeppoList(list, strict), range),
+      KeppoComparison.Newer
+    )
+  }
 
-    this.#minor = +minor
-    return this
+  /**
+   * Finds the oldest version in a list of versions that satisfies the given range.
+   *
+   * @param list - A list of `Keppo` instances and/or SemVer strings.
+   * @param range - A `KeppoRange` instance or a valid range string.
+   * @param strict - Whether to throw on invalid entries instead of skipping them (default: `false`).
+   * @throws {Error} If the range is invalid or if `strict` is enabled and the list contains an invalid entry.
+   * @returns The oldest satisfying version or `null` if none satisfies the range.
+   */
+  static minSatisfying(
+    list: (Keppo | string)[],
+    range: KeppoRange | string,
+    strict: boolean = false
+  ): Keppo | null {
+    return pickVersion(
+      filterSatisfying(toKeppoList(list, strict), range),
+      KeppoComparison.Older
+    )
   }
 
   /**
-   * Sets the patch version number for the current `Keppo` instance.
+   * Sets the strict mode for SemVer parsing.
    *
-   * @param patch - The patch version, as a number (e.g. `4`).
-   * @throws {Error} If the value is invalid, non-numeric, or negative.
+   * When enabled, version strings must follow strict SemVer format (e.g. no `v` prefix).
+   * When disabled, relaxed formats like `v1.0.0` are accepted.
+   *
+   * @param isStrict - Whether to enable strict mode (default: `true`).
    * @returns The current `Keppo` instance.
    */
-  setPatch(patch: number): Keppo {
-    if (!isValidComponent(patch)) {
-      throw new RangeError(
-        `Expected a valid patch version number but got "${patch}".`
-      )
-    }
-
-    this.#patch = +patch
-    return this
+  setStrict(isStrict: boolean = true): Keppo {
+    return this.#record('setStrict', [isStrict], (target: Keppo) => {
+      target.#strict = strictMode(isStrict)
+      return target
+    })
   }
 
   /**
-   * Sets the version label for the current `Keppo` instance.
+   * Sets the BigInt mode for the version components.
    *
-   * The label will be appended to the version string with a dash (e.g. `'alpha'` → `0.1.0-alpha`).
-   * No need to include the dash manually.
+   * When enabled, components are not limited to `Number.MAX_SAFE_INTEGER`,
+   * as the SemVer specification puts no limit on numeric identifiers.
    *
-   * @param label - A valid label string (e.g. `'alpha'`, `'beta.1'`).
-   * @throws {Error} If the label is invalid or fails pattern validation.
+   * @param isBigInt - Whether to enable BigInt mode (default: `true`).
+   * @throws {Error} If disabling while any component exceeds safe integer limits.
    * @returns The current `Keppo` instance.
    */
-  setLabel(label: string): Keppo {
-    if (typeof label !== 'string') {
-      throw new TypeError(
-        `Expected a valid label type but got "${typeof label}".`
-      )
-    }
+  setBigInt(isBigInt: boolean = true): Keppo {
+    return this.#record('setBigInt', [isBigInt], (target: Keppo) => {
+      isBigInt = isBigInt === true
 
-    if (label.length === 0) {
-      return this
-    }
-
-    label = label.trim()
-
-    if (!REGEXP_LABEL.test(label)) {
-      throw new RangeError(`Expected a valid label value but got "${label}".`)
-    }
-
-    if (label.charAt(0) === '-') {
-      label = label.substring(1)
-    }
+      if (!isBigInt) {
+        safeComponent(target.#major, false, 'major')
+        safeComponent(target.#minor, false, 'minor')
+        safeComponent(target.#patch, false, 'patch')
+      }
 
-    this.#label = label
-    return this
+      target.#bigint = isBigInt
+      return target
+    })
   }
 
   /**
-   * Clears the label of the current Keppo instance.
-   * @returns The current `Keppo` instance.
+   * Checks whether the BigInt mode is enabled for the current `Keppo` instance.
+   * @returns `true` if components are stored as arbitrary-precision integers; otherwise `false`.
    */
-  clearLabel(): Keppo {
-    return this.setLabel('')
+  isBigInt(): boolean {
+    return this.#bigint
   }
 
   /**
-   * Compares the current `Keppo` version against another `Keppo` instance.
-   *
-   * Returns a numeric comparison result:
-   * - `-1` if the current version is older
-   * - `0` if both versions are equal
-   * - `1` if the current version is newer
+   * Sets the release channels of the current `Keppo` instance.
    *
-   * For improved readability, use the `KeppoComparison` enum.
+   * While set, only labels of the channels are accepted, e.g. `'beta.3'`,
+   * and pre-release versions are compared by the order of their channels, see {@link compareWith()}.
    *
-   * @param version - Another `Keppo` instance to compare against.
-   * @throws {Error} If the input is invalid.
-   * @returns A numeric comparison result (`-1`, `0`, or `1`).
+   * @param channels - A `KeppoChannels` instance or `null` to remove the channels.
+   * @throws {Error} If the current label doesn't belong to any of the channels.
+   * @returns The current `Keppo` instance.
+   */
+  setChannels(channels: KeppoChannels | null): Keppo {
+    if (channels !== null && !(channels instanceof KeppoChannels)) {
+      throw new KeppoError(
+        KeppoErrorCode.InvalidType,
+        `Expected a KeppoChannels instance but got "${typeof channels}".`
+      )
+    }
+
+    assertChannelLabel(channels, this.#label)
+    this.#channels = channels
+    return this
+  }
+
+  /**
+   * Gets the release channels of the current `Keppo` instance.
+   * @returns The `KeppoChannels` instance or `null` if none is set.
    */
-  compareWith(version: Keppo): KeppoComparison
+  getChannels(): KeppoChannels | null {
+    return this.#channels
+  }
 
   /**
-   * Compares the current `Keppo` version against a SemVer string.
+   * Enables or disables the history of the current `Keppo` instance.
    *
-   * Returns a numeric comparison result:
-   * - `-1` if the current version is older
-   * - `0` if both versions are equal
-   * - `1` if the current version is newer
+   * While enabled, every mutating call (e.g. `increaseMinor()`, `setLabel('rc.1')`) is recorded with its arguments
+   * and the version before and after it, and can be reverted with {@link undo()}.
+   * Calls made by other methods, e.g. `setLabel()` inside `premajor()`, are part of the outer call,
+   * calls that leave the version as it was are not recorded.
    *
-   * For improved readability, use the `KeppoComparison` enum.
+   * Enabling keeps an existing history, disabling discards it along with the checkpoints.
+   * Clones and instances created by `with()` and `bumped()` don't inherit the history.
    *
-   * @param version - A valid SemVer string (e.g. `'1.2.3-beta.1'`) to compare against.
-   * @throws {Error} If the input is not a valid SemVer string.
-   * @returns A numeric comparison result (`-1`, `0`, or `1`).
+   * @param isEnabled - Whether to enable the history (default: `true`).
+   * @returns The current `Keppo` instance.
    */
-  compareWith(version: string): KeppoComparison
-
-  compareWith(version: Keppo | string): KeppoComparison {
-    if (typeof version !== 'string' && typeof version !== 'object') {
-      throw new TypeError(
-        `Expected either a Keppo instance or a valid SemVer string but got "${typeof version}".`
-      )
-    }
-
-    let parsedVersion: Keppo
-
-    if (typeof version === 'string') {
-      if (!isValidVersion(version)) {
-        throw new RangeError(
-          `Expected a valid SemVer version but got "${version}" with strict mode = ${this.setStrict}.`
-        )
+  setHistory(isEnabled: boolean = true): Keppo {
+    if (isEnabled !== true) {
+      this.#history = null
+    } else if (this.#history === null) {
+      this.#history = {
+        entries: [],
+        undo: [],
+        redo: [],
+        checkpoints: new Map()
       }
-
-      parsedVersion = Keppo.from(version)
-    } else {
-      parsedVersion = version
-    }
-
-    if (this.#major > parsedVersion.#major) {
-      return KeppoComparison.Newer
-    } else if (this.#major < parsedVersion.#major) {
-      return KeppoComparison.Older
-    }
-
-    if (this.#minor > parsedVersion.#minor) {
-      return KeppoComparison.Newer
-    } else if (this.#minor < parsedVersion.#minor) {
-      return KeppoComparison.Older
-    }
-
-    if (this.#patch > parsedVersion.#patch) {
-      return KeppoComparison.Newer
-    } else if (this.#patch < parsedVersion.#patch) {
-      return KeppoComparison.Older
     }
 
-    return KeppoComparison.Current
+    return this
   }
 
   /**
-   * Prints to console the String representation of the current `Keppo` object.
-   * @returns {void}
+   * Checks whether the history is enabled for the current `Keppo` instance.
+   * @returns `true` if mutating calls are recorded; otherwise `false`.
    */
-  output(): void {
-    // biome-ignore lint/suspicious/noConsole: Needed for output
-    console.log(this.toString())
+  hasHistory(): boolean {
+    return this.#history !== null
   }
 
   /**
-   * Sets the current version for the `Keppo` instance.
+   * Adds a listener that is called after every change of the current `Keppo` instance,
+   * i.e. after every `set*`, `increase*`, `decrease*`, `setVersion()` and `reset()` call, as well as
+   * after `undo()`, `redo()` and `restore()`. Nested calls are part of the outer one, so a single call emits a single change,
+   * calls that leave the version as it was emit none.
    *
-   * Replaces all existing version components and label with values parsed from the provided SemVer string.
+   * Listeners are called once the change is applied, logged and can be undone, so a listener that changes
+   * the version again records a step of its own after it. A listener that throws doesn't stop the others,
+   * the first error is rethrown after all of them are called and the change stays applied.
    *
-   * See also {@link Keppo.from()}.
+   * @param event - The event, `'change'`.
+   * @param listener - The listener, it gets the operation, its arguments and copies of the version before and after it.
+   * @returns The current `Keppo` instance.
+   */
+  on(event: KeppoEvent, listener: KeppoChangeListener): Keppo {
+    assertEvent(event, listener)
+    this.#listeners.push(listener)
+    return this
+  }
+
+  /**
+   * Removes a listener added with {@link on()}.
    *
-   * @param version - A valid SemVer string (e.g. `'1.2.3'`, `'v2.0.0-beta.1'`).
-   * @throws {Error} If the string is invalid or fails SemVer parsing.
+   * @param event - The event, `'change'`.
+   * @param listener - The listener to remove.
    * @returns The current `Keppo` instance.
    */
-  setVersion(version: string): Keppo {
-    if (typeof version !== 'string') {
-      throw new TypeError(`Expected a string but got "${typeof version}".`)
-    }
+  off(event: KeppoEvent, listener: KeppoChangeListener): Keppo {
+    assertEvent(event, listener)
 
-    // always assume strict = false,
-    // to avoid false positives
-    if (!isValidVersion(version, false)) {
-      throw new RangeError(
-        `Expected a valid SemVer version but got "${version}", strict mode: ${this.#strict}.`
-      )
+    const index: number = this.#listeners.indexOf(listener)
+
+    if (index > -1) {
+      this.#listeners.splice(index, 1)
     }
 
-    const components: string[] = version.trim().toLowerCase().split('.')
+    return this
+  }
 
-    if (components[0].charAt(0) === 'v') {
-      this.setStrict(false)
-    } else {
-      this.setStrict(true)
+  /**
+   * Adds a policy that checks every change of the current `Keppo` instance before it is applied,
+   * see {@link on()} for the calls that change the version.
+   *
+   * The call runs on a copy to compute the new version, the policies check it before the version is changed,
+   * a rejected change throws a `KeppoPolicyError` and leaves the version as it was.
+   * Clones and instances created by `with()` and `bumped()` don't inherit the policies.
+   *
+   * @param policy - The policy, e.g. `{ name: 'no-zero-major', check: (change) => change.after.getMajor() === 0 ? 'Versions must not be 0.x.' : null }`.
+   * @returns The current `Keppo` instance.
+   */
+  addPolicy(policy: KeppoPolicy): Keppo {
+    if (
+      typeof policy !== 'object' ||
+      policy === null ||
+      typeof policy.check !== 'function'
+    ) {
+      throw new KeppoError(
+        KeppoErrorCode.InvalidType,
+        `Expected a policy but got "${typeof policy}".`
+      )
     }
 
-    const major: number = Number(components[0].replace(REGEXP_VERSION, ''))
-    const minor: number = Number(components[1])
-
-    this.setMajor(major)
-    this.setMinor(minor)
+    this.#policies.push(policy)
+    return this
+  }
 
-    let labelIndex: number = components[2].indexOf('-')
+  /**
+   * Removes a policy added with {@link addPolicy()}.
+   *
+   * @param policy - The policy to remove.
+   * @returns The current `Keppo` instance.
+   */
+  removePolicy(policy: KeppoPolicy): Keppo {
+    const index: number = this.#policies.indexOf(policy)
 
-    if (labelIndex > -1) {
-      this.setLabel(components[2].substring(components[2].indexOf('-') + 1))
-    } else {
-      labelIndex = components[2].length
+    if (index > -1) {
+      this.#policies.splice(index, 1)
     }
 
-    const patch: number = Number(components[2].substring(0, labelIndex))
-
-    return this.setPatch(patch)
+    return this
   }
 
   /**
-   * Resets the current Keppo instance's SemVer version to `0.0.0` and label to an empty string.
+   * Increases the major version number by the specified amount.
+   *
+   * Resets the minor and patch components to `0` after incrementing.
+   *
+   * @param major - The amount to increase by (default: `1`).
+   * @throws {Error} If the value is invalid or exceeds safe integer limits.
    * @returns The current `Keppo` instance.
    */
-  reset(): Keppo {
-    return this.setVersion('0.0.0').setLabel('')
+  increaseMajor(major: number | bigint = 1): Keppo {
+    return this.#record('increaseMajor', [major], (target: Keppo) => {
+      if (!isValidComponent(major, target.#bigint)) {
+        throw invalidComponent(
+          major,
+          'major',
+          `Expected a valid major version number but got "${major}".`
+        )
+      }
+
+      target.#major = safeComponent(
+        target.#major + BigInt(major),
+        target.#bigint,
+        'major'
+      )
+      target.#minor = 0n
+      target.#patch = 0n
+
+      return target
+    })
   }
 
   /**
-   * Formats the current `Keppo` object as a String.
-   * @returns {string}
+   * Increases the minor version number by the specified amount.
+   *
+   * Resets the patch component to `0` after incrementing.
+   *
+   * @param minor - The amount to increase by (default: `1`).
+   * @throws {Error} If the value is invalid or exceeds safe integer limits.
+   * @returns The current `Keppo` instance.
    */
-  toString(): string {
-    return `${this.#strict ? '' : 'v'}${this.#major}.${this.#minor}.${this.#patch}${formatLabel(this.#label)}`
+  increaseMinor(minor: number | bigint = 1): Keppo {
+    return this.#record('increaseMinor', [minor], (target: Keppo) => {
+      if (!isValidComponent(minor, target.#bigint)) {
+        throw invalidComponent(
+          minor,
+          'minor',
+          `Expected a valid minor version number but got "${minor}".`
+        )
+      }
+
+      target.#minor = safeComponent(
+        target.#minor + BigInt(minor),
+        target.#bigint,
+        'minor'
+      )
+      target.#patch = 0n
+
+      return target
+    })
   }
 
   /**
-   * Checks whether the major version can be safely increased by the given amount.
-   *
-   * Uses `Number.isSafeInteger()` to ensure the result stays within JavaScript's safe integer range.
-   *
-   * Read more on {@link https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Number/isSafeInteger MDN}.
+   * Increases the patch version number by the specified amount.
    *
-   * @param major - The amount to increase by (default: `1`).
-   * @returns `true` if the increment is safe; otherwise `false`.
+   * @param patch - The amount to increase by (default: `1`).
+   * @throws {Error} If the value is invalid or exceeds safe integer limits.
+   * @returns The current `Keppo` instance.
    */
-  canIncreaseMajor(major: number = 1): boolean {
-    return Number.isSafeInteger(this.#major + major)
+  increasePatch(patch: number | bigint = 1): Keppo {
+    return this.#record('increasePatch', [patch], (target: Keppo) => {
+      if (!isValidComponent(patch, target.#bigint)) {
+        throw invalidComponent(
+          patch,
+          'patch',
+          `Expected a valid patch version number but got ${patch}.`
+        )
+      }
+
+      target.#patch = safeComponent(
+        target.#patch + BigInt(patch),
+        target.#bigint,
+        'patch'
+      )
+      return target
+    })
   }
 
   /**
-   * Checks whether the minor version can be safely increased by the given amount.
+   * Increases the pre-release part of the version.
    *
-   * Uses `Number.isSafeInteger()` to ensure the result remains within JavaScript's safe integer range.
+   * Bumps the last numeric identifier of the label or appends `.0` if there is none
+   * (e.g. `1.0.0-beta.2` → `1.0.0-beta.3`, `1.0.0-beta` → `1.0.0-beta.0`).
+   * If the version is not a pre-release, the patch component is increased first (e.g. `1.0.0` → `1.0.1-0`).
    *
-   * Read more on {@link https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Number/isSafeInteger MDN}.
+   * When an `identifier` is given and the label does not start with it, a new pre-release line is started
+   * (e.g. `1.0.0-alpha.4` with `'beta'` → `1.0.0-beta.0`).
    *
-   * @param minor - The amount to increase by (default: `1`).
-   * @returns `true` if the increment is safe; otherwise `false`.
+   * @param identifier - Optional pre-release identifier (e.g. `'alpha'`, `'rc'`).
+   * @throws {Error} If the identifier is invalid.
+   * @returns The current `Keppo` instance.
    */
-  canIncreaseMinor(minor: number = 1): boolean {
-    return Number.isSafeInteger(this.#minor + minor)
+  increasePrerelease(identifier?: string): Keppo {
+    return this.#record('increasePrerelease', [identifier], (target: Keppo) => {
+      if (!target.#label) {
+        target.increasePatch()
+      }
+
+      return target.setLabel(nextPrerelease(target.#label, identifier))
+    })
   }
 
   /**
-   * Checks whether the patch version can be safely increased by the given amount.
+   * Increases the major version number and starts a new pre-release line.
    *
-   * Uses `Number.isSafeInteger()` to ensure the result remains within JavaScript's safe integer range.
-   *
-   * Read more on {@link https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Number/isSafeInteger MDN}.
+   * E.g. `1.2.3` → `2.0.0-0` or, with `'alpha'`, `1.2.3` → `2.0.0-alpha.0`.
    *
-   * @param patch - The amount to increase by (default: `1`).
-   * @returns `true` if the increment is safe; otherwise `false`.
+   * @param identifier - Optional pre-release identifier (e.g. `'alpha'`, `'rc'`).
+   * @throws {Error} If the identifier is invalid.
+   * @returns The current `Keppo` instance.
    */
-  canIncreasePatch(patch: number = 1): boolean {
-    return Number.isSafeInteger(this.#patch + patch)
+  premajor(identifier?: string): Keppo {
+    return this.#record('premajor', [identifier], (target: Keppo) =>
+      target.increaseMajor().setLabel(nextPrerelease('', identifier))
+    )
   }
 
   /**
-   * Returns the maximum safe value that can be used to increase the major version number.
-   *
-   * Based on JavaScript's `Number.MAX_SAFE_INTEGER`, which ensures arithmetic remains precise.
+   * Increases the minor version number and starts a new pre-release line.
    *
-   * Read more on {@link https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Number/isSafeInteger MDN}.
+   * E.g. `1.2.3` → `1.3.0-0` or, with `'alpha'`, `1.2.3` → `1.3.0-alpha.0`.
    *
-   * @returns The maximum safe increment value for the major version.
+   * @param identifier - Optional pre-release identifier (e.g. `'alpha'`, `'rc'`).
+   * @throws {Error} If the identifier is invalid.
+   * @returns The current `Keppo` instance.
    */
-  maxIncreaseMajor(): number {
-    return Number.MAX_SAFE_INTEGER - this.#major
+  preminor(identifier?: string): Keppo {
+    return this.#record('preminor', [identifier], (target: Keppo) =>
+      target.increaseMinor().setLabel(nextPrerelease('', identifier))
+    )
   }
 
   /**
-   * Returns the maximum safe value that can be used to increase the minor version number.
+   * Increases the patch version number and starts a new pre-release line.
    *
-   * Based on JavaScript’s `Number.MAX_SAFE_INTEGER`, ensuring arithmetic remains precise.
-   *
-   * Read more on {@link https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Number/isSafeInteger MDN}.
+   * E.g. `1.2.3` → `1.2.4-0` or, with `'alpha'`, `1.2.3` → `1.2.4-alpha.0`.
    *
-   * @returns The maximum safe increment value for the minor version.
+   * @param identifier - Optional pre-release identifier (e.g. `'alpha'`, `'rc'`).
+   * @throws {Error} If the identifier is invalid.
+   * @returns The current `Keppo` instance.
    */
-  maxIncreaseMinor(): number {
-    return Number.MAX_SAFE_INTEGER - this.#minor
+  prepatch(identifier?: string): Keppo {
+    return this.#record('prepatch', [identifier], (target: Keppo) =>
+      target.increasePatch().setLabel(nextPrerelease('', identifier))
+    )
   }
 
   /**
-   * Returns the maximum safe value that can be used to increase the patch version number.
+   * Promotes a pre-release version to its release version.
    *
-   * Based on JavaScript’s `Number.MAX_SAFE_INTEGER`, ensuring arithmetic remains precise.
+   * Follows npm's rule, a pre-release is released as its own version core and never as the next one,
+   * e.g. `1.0.0-rc.1` → `1.0.0` and `1.0.1-rc.1` → `1.0.1`.
    *
-   * Read more on {@link https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Number/isSafeInteger MDN}.
+   * Unlike {@link clearLabel()}, it throws when the version is not a pre-release.
    *
-   * @returns The maximum safe increment value for the patch version.
+   * @throws {Error} If the version is not a pre-release.
+   * @returns The current `Keppo` instance.
    */
-  maxIncreasePatch(): number {
-    return Number.MAX_SAFE_INTEGER - this.#patch
-  }
-}
+  release(): Keppo {
+    return this.#record('release', [], (target: Keppo) => {
+      if (!target.#label) {
+        throw new KeppoError(
+          KeppoErrorCode.NotPrerelease,
+          `Expected a pre-release version but got "${target.toString()}".`,
+          'label'
+        )
+      }
 
-function isValidComponent(component: string | number): boolean {
-  if (
-    typeof component === 'number' &&
-    component >= 0 &&
-    Number.isSafeInteger(component)
-  ) {
-    return true
+      return target.clearLabel()
+    })
   }
 
-  if (typeof component === 'string' && REGEXP_COMPONENT.test(component)) {
-    return true
+  /**
+   * Moves a pre-release version to the first version of the next channel, or to its release version
+   * from the last channel, e.g. `1.4.0-beta.3` → `1.4.0-rc.0` → `1.4.0`.
+   *
+   * @throws {Error} If no channels are set, the version is not a pre-release or its label doesn't belong to any of the channels.
+   * @returns The current `Keppo` instance.
+   */
+  promote(): Keppo {
+    return this.#record('promote', [], (target: Keppo) => {
+      if (target.#channels === null) {
+        throw new KeppoError(
+          KeppoErrorCode.UnknownChannel,
+          'Expected the channels to be set, see setChannels().',
+          'label'
+        )
+      }
+
+      return target.setLabel(target.#channels.nextLabel(target.#label))
+    })
+  }
+
+  /**
+   * Decreases the major version number by the specified amount.
+   *
+   * Resets the minor and patch components to `0` after decrementing.
+   *
+   * @param major - The amount to decrease by (default: `1`).
+   * @throws {Error} If the value is invalid or results in a negative version.
+   * @returns The current `Keppo` instance.
+   */
+  decreaseMajor(major: number | bigint = 1): Keppo {
+    return this.#record('decreaseMajor', [major], (target: Keppo) => {
+      if (!isValidComponent(major, target.#bigint)) {
+        throw invalidComponent(
+          major,
+          'major',
+          `Expected a valid major version number but got "${major}".`
+        )
+      }
+
+      target.#major = decreaseComponent(target.#major, BigInt(major), 'major')
+      target.#minor = 0n
+      target.#patch = 0n
+      return target
+    })
+  }
+
+  /**
+   * Decreases the minor version number by the specified amount.
+   *
+   * Resets the patch component to `0` after decrementing.
+   *
+   * @param minor - The amount to decrease by (default: `1`).
+   * @throws {Error} If the value is invalid or results in a negative minor version.
+   * @returns The current `Keppo` instance.
+   */
+  decreaseMinor(minor: number | bigint = 1): Keppo {
+    return this.#record('decreaseMinor', [minor], (target: Keppo) => {
+      if (!isValidComponent(minor, target.#bigint)) {
+        throw invalidComponent(
+          minor,
+          'minor',
+          `Expected a valid minor version number but got "${minor}".`
+        )
+      }
+
+      target.#minor = decreaseComponent(target.#minor, BigInt(minor), 'minor')
+      target.#patch = 0n
+      return target
+    })
+  }
+
+  /**
+   * Decreases the patch version number by the specified amount.
+   *
+   * @param patch - The amount to decrease by (default: `1`).
+   * @throws {Error} If the value is invalid or results in a negative patch version.
+   * @returns The current `Keppo` instance.
+   */
+  decreasePatch(patch: number | bigint = 1): Keppo {
+    return this.#record('decreasePatch', [patch], (target: Keppo) => {
+      if (!isValidComponent(patch, target.#bigint)) {
+        throw invalidComponent(
+          patch,
+          'patch',
+          `Expected a valid patch version number but got "${patch}".`
+        )
+      }
+
+      target.#patch = decreaseComponent(target.#patch, BigInt(patch), 'patch')
+      return target
+    })
+  }
+
+  /**
+   * Sets the major version number for the current `Keppo` instance.
+   *
+   * @param major - The major version as a number (e.g. `2`).
+   * @throws {Error} If the value is invalid, non-numeric, or negative.
+   * @returns The current `Keppo` instance.
+   */
+  setMajor(major: number | bigint): Keppo {
+    return this.#record('setMajor', [major], (target: Keppo) => {
+      if (!isValidComponent(major, target.#bigint)) {
+        throw invalidComponent(
+          major,
+          'major',
+          `Expected a valid major version number but got "${major}".`
+        )
+      }
+
+      target.#major = BigInt(major)
+      return target
+    })
+  }
+
+  /**
+   * Sets the minor version number for the current `Keppo` instance.
+   *
+   * @param minor - The minor version, as a number (e.g. `3`).
+   * @throws {Error} If the value is invalid, non-numeric, or negative.
+   * @returns The current `Keppo` instance.
+   */
+  setMinor(minor: number | bigint): Keppo {
+    return this.#record('setMinor', [minor], (target: Keppo) => {
+      if (!isValidComponent(minor, target.#bigint)) {
+        throw invalidComponent(
+          minor,
+          'minor',
+          `Expected a valid minor version number but got "${minor}".`
+        )
+      }
+
+      target.#minor = BigInt(minor)
+      return target
+    })
+  }
+
+  /**
+   * Sets the patch version number for the current `Keppo` instance.
+   *
+   * @param patch - The patch version, as a number (e.g. `4`).
+   * @throws {Error} If the value is invalid, non-numeric, or negative.
+   * @returns The current `Keppo` instance.
+   */
+  setPatch(patch: number | bigint): Keppo {
+    return this.#record('setPatch', [patch], (target: Keppo) => {
+      if (!isValidComponent(patch, target.#bigint)) {
+        throw invalidComponent(
+          patch,
+          'patch',
+          `Expected a valid patch version number but got "${patch}".`
+        )
+      }
+
+      target.#patch = BigInt(patch)
+      return target
+    })
+  }
+
+  /**
+   * Gets the major version number of the current `Keppo` instance.
+   * @throws {Error} If the value exceeds safe integer limits, see {@link getBigMajor()}.
+   * @returns The major version number.
+   */
+  getMajor(): number {
+    if (this.#major > MAX_SAFE_INTEGER) {
+      throw new KeppoError(
+        KeppoErrorCode.UnsafeInteger,
+        `Expected a safe integer major version number but got "${this.#major}", use getBigMajor() instead.`,
+        'major'
+      )
+    }
+
+    return Number(this.#major)
+  }
+
+  /**
+   * Gets the major version number of the current `Keppo` instance as a `bigint`, without precision loss.
+   * @returns The major version number.
+   */
+  getBigMajor(): bigint {
+    return this.#major
+  }
+
+  /**
+   * Gets the minor version number of the current `Keppo` instance.
+   * @throws {Error} If the value exceeds safe integer limits, see {@link getBigMinor()}.
+   * @returns The minor version number.
+   */
+  getMinor(): number {
+    if (this.#minor > MAX_SAFE_INTEGER) {
+      throw new KeppoError(
+        KeppoErrorCode.UnsafeInteger,
+        `Expected a safe integer minor version number but got "${this.#minor}", use getBigMinor() instead.`,
+        'minor'
+      )
+    }
+
+    return Number(this.#minor)
+  }
+
+  /**
+   * Gets the minor version number of the current `Keppo` instance as a `bigint`, without precision loss.
+   * @returns The minor version number.
+   */
+  getBigMinor(): bigint {
+    return this.#minor
+  }
+
+  /**
+   * Gets the patch version number of the current `Keppo` instance.
+   * @throws {Error} If the value exceeds safe integer limits, see {@link getBigPatch()}.
+   * @returns The patch version number.
+   */
+  getPatch(): number {
+    if (this.#patch > MAX_SAFE_INTEGER) {
+      throw new KeppoError(
+        KeppoErrorCode.UnsafeInteger,
+        `Expected a safe integer patch version number but got "${this.#patch}", use getBigPatch() instead.`,
+        'patch'
+      )
+    }
+
+    return Number(this.#patch)
+  }
+
+  /**
+   * Gets the patch version number of the current `Keppo` instance as a `bigint`, without precision loss.
+   * @returns The patch version number.
+   */
+  getBigPatch(): bigint {
+    return this.#patch
+  }
+
+  /**
+   * Sets the version label for the current `Keppo` instance.
+   *
+   * The label will be appended to the version string with a dash (e.g. `'alpha'` → `0.1.0-alpha`).
+   * No need to include the dash manually.
+   *
+   * In strict mode, numeric identifiers with leading zeros (e.g. `'alpha.01'`) are rejected, as the specification requires.
+   *
+   * @param label - A valid label string (e.g. `'alpha'`, `'beta.1'`).
+   * @throws {Error} If the label is invalid or fails pattern validation.
+   * @returns The current `Keppo` instance.
+   */
+  setLabel(label: string): Keppo {
+    return this.#record('setLabel', [label], (target: Keppo) => {
+      if (typeof label !== 'string') {
+        throw new KeppoError(
+          KeppoErrorCode.InvalidType,
+          `Expected a valid label type but got "${typeof label}".`,
+          'label'
+        )
+      }
+
+      if (label.length === 0) {
+        target.#label = ''
+        return target
+      }
+
+      label = label.trim()
+
+      if (!REGEXP_LABEL.test(label)) {
+        throw new KeppoError(
+          KeppoErrorCode.InvalidLabel,
+          `Expected a valid label value but got "${label}".`,
+          'label',
+          identifiersErrorOffset(label)
+        )
+      }
+
+      if (label.charAt(0) === '-') {
+        label = label.substring(1)
+      }
+
+      const [leadingZero] = leadingZeroOffsets(label)
+
+      if (target.#strict && leadingZero) {
+        throw new KeppoError(
+          KeppoErrorCode.LeadingZero,
+          `Expected no leading zeros in numeric label identifiers but got "${label}".`,
+          'label',
+          leadingZero[1]
+        )
+      }
+
+      assertChannelLabel(target.#channels, label)
+      target.#label = label
+      return target
+    })
+  }
+
+  /**
+   * Clears the label of the current Keppo instance.
+   * @returns The current `Keppo` instance.
+   */
+  clearLabel(): Keppo {
+    return this.#record('clearLabel', [], (target: Keppo) =>
+      target.setLabel('')
+    )
+  }
+
+  /**
+   * Gets the label of the current Keppo instance, without the dash prefix.
+   * @returns The label or an empty string if none is set.
+   */
+  getLabel(): string {
+    return this.#label
+  }
+
+  /**
+   * Sets the build metadata for the current `Keppo` instance.
+   *
+   * The build metadata will be appended to the version string with a plus sign (e.g. `'sha.abc123'` → `1.0.0+sha.abc123`).
+   * No need to include the plus sign manually.
+   *
+   * Build metadata is ignored when determining version precedence.
+   *
+   * @param build - A valid build metadata string (e.g. `'build.5'`, `'20250916'`).
+   * @throws {Error} If the build metadata is invalid or fails pattern validation.
+   * @returns The current `Keppo` instance.
+   */
+  setBuild(build: string): Keppo {
+    return this.#record('setBuild', [build], (target: Keppo) => {
+      if (typeof build !== 'string') {
+        throw new KeppoError(
+          KeppoErrorCode.InvalidType,
+          `Expected a valid build metadata type but got "${typeof build}".`,
+          'build'
+        )
+      }
+
+      build = build.trim()
+
+      if (build.length === 0) {
+        target.#build = ''
+        return target
+      }
+
+      const match: RegExpExecArray | null = REGEXP_BUILD.exec(build)
+
+      if (!match) {
+        throw new KeppoError(
+          KeppoErrorCode.InvalidBuild,
+          `Expected a valid build metadata value but got "${build}".`,
+          'build',
+          identifiersErrorOffset(build, build.charAt(0) === '+' ? 1 : 0)
+        )
+      }
+
+      target.#build = match[1]
+      return target
+    })
+  }
+
+  /**
+   * Clears the build metadata of the current Keppo instance.
+   * @returns The current `Keppo` instance.
+   */
+  clearBuild(): Keppo {
+    return this.#record('clearBuild', [], (target: Keppo) =>
+      target.setBuild('')
+    )
+  }
+
+  /**
+   * Gets the build metadata of the current Keppo instance, without the plus sign.
+   * @returns The build metadata or an empty string if none is set.
+   */
+  getBuild(): string {
+    return this.#build
+  }
+
+  /**
+   * Gets the release channel of the current `Keppo` instance, see {@link setChannels()}.
+   * @returns The name of the channel, `'stable'` for a release version or `null` if the label doesn't belong to any channel or no channels are set.
+   */
+  channel(): string | null {
+    return this.#channels?.channel(this) ?? null
+  }
+
+  /**
+   * Gets the position of the release channel of the current `Keppo` instance, see {@link setChannels()}.
+   * @returns The zero-based index of the channel, the number of channels for a release version or `-1` if the label doesn't belong to any channel or no channels are set.
+   */
+  channelIndex(): number {
+    return this.#channels?.channelIndex(this) ?? -1
+  }
+
+  /**
+   * Compares the current `Keppo` version against another `Keppo` instance.
+   *
+   * Returns a numeric comparison result:
+   * - `-1` if the current version is older
+   * - `0` if both versions are equal
+   * - `1` if the current version is newer
+   *
+   * Follows SemVer 2.0.0 precedence rules, a pre-release version has lower precedence
+   * than the associated normal version (e.g. `1.0.0-alpha` < `1.0.0`).
+   * Build metadata is ignored unless `withBuild` is set.
+   *
+   * For improved readability, use the `KeppoComparison` enum.
+   *
+   * @param version - Another `Keppo` instance to compare against.
+   * @param withBuild - Whether to compare build metadata as well, useful for exact identity checks (default: `false`).
+   * @throws {Error} If the input is invalid.
+   * @returns A numeric comparison result (`-1`, `0`, or `1`).
+   */
+  compareWith(version: Keppo, withBuild?: boolean): KeppoComparison
+
+  /**
+   * Compares the current `Keppo` version against a SemVer string.
+   *
+   * Returns a numeric comparison result:
+   * - `-1` if the current version is older
+   * - `0` if both versions are equal
+   * - `1` if the current version is newer
+   *
+   * Follows SemVer 2.0.0 precedence rules, a pre-release version has lower precedence
+   * than the associated normal version (e.g. `1.0.0-alpha` < `1.0.0`).
+   * Build metadata is ignored unless `withBuild` is set.
+   *
+   * For improved readability, use the `KeppoComparison` enum.
+   *
+   * @param version - A valid SemVer string (e.g. `'1.2.3-beta.1'`) to compare against.
+   * @param withBuild - Whether to compare build metadata as well, useful for exact identity checks (default: `false`).
+   * @throws {Error} If the input is not a valid SemVer string.
+   * @returns A numeric comparison result (`-1`, `0`, or `1`).
+   */
+  compareWith(version: string, withBuild?: boolean): KeppoComparison
+
+  compareWith(
+    version: Keppo | string,
+    withBuild: boolean = false
+  ): KeppoComparison {
+    if (typeof version !== 'string' && !(version instanceof Keppo)) {
+      throw new KeppoError(
+        KeppoErrorCode.InvalidType,
+        `Expected either a Keppo instance or a valid SemVer string but got "${typeof version}".`
+      )
+    }
+
+    let parsedVersion: Keppo
+
+    if (typeof version === 'string') {
+      if (!isValidVersion(version)) {
+        throw new KeppoError(
+          KeppoErrorCode.InvalidVersion,
+          `Expected a valid SemVer version but got "${version}" with strict mode = ${this.#strict}.`
+        )
+      }
+
+      parsedVersion = Keppo.from(version)
+    } else {
+      parsedVersion = version
+    }
+
+    if (this.#major > parsedVersion.#major) {
+      return KeppoComparison.Newer
+    } else if (this.#major < parsedVersion.#major) {
+      return KeppoComparison.Older
+    }
+
+    if (this.#minor > parsedVersion.#minor) {
+      return KeppoComparison.Newer
+    } else if (this.#minor < parsedVersion.#minor) {
+      return KeppoComparison.Older
+    }
+
+    if (this.#patch > parsedVersion.#patch) {
+      return KeppoComparison.Newer
+    } else if (this.#patch < parsedVersion.#patch) {
+      return KeppoComparison.Older
+    }
+
+    const result: KeppoComparison = comparePrerelease(
+      this.#label,
+      parsedVersion.#label,
+      this.#channels ?? parsedVersion.#channels
+    )
+
+    if (result !== KeppoComparison.Current || !withBuild) {
+      return result
+    }
+
+    return compareBuild(this.#build, parsedVersion.#build)
+  }
+
+  /**
+   * Checks whether the current `Keppo` version satisfies the given range.
+   *
+   * Supports npm-style ranges, e.g. `'^1.2.3'`, `'~1.4'`, `'>=2.0.0 <3.0.0-0'`, `'1.x'`, `'1.2.3 - 2.3.4'` and `||` unions.
+   *
+   * @param range - A `KeppoRange` instance or a valid range string.
+   * @param options - Range options, used only when `range` is a string.
+   * @throws {Error} If the range is invalid.
+   * @returns `true` if the version satisfies the range; otherwise `false`.
+   */
+  satisfies(range: KeppoRange | string, options?: KeppoRangeOptions): boolean {
+    if (typeof range === 'string') {
+      range = new KeppoRange(range, options)
+    }
+
+    if (!(range instanceof KeppoRange)) {
+      throw new KeppoError(
+        KeppoErrorCode.InvalidType,
+        `Expected either a KeppoRange instance or a valid range string but got "${typeof range}".`
+      )
+    }
+
+    return range.test(this)
+  }
+
+  /**
+   * Formats the current `Keppo` object with a template or a preset.
+   *
+   * Template tokens are `{prefix}` (`v` in loose mode), `{major}`, `{minor}`, `{patch}`, `{prerelease}` and `{build}`.
+   * A `-`, `+`, `.`, `_` or `~` right after the opening brace is printed before the value only when the value
+   * is not empty (e.g. `{-prerelease}`), a width after a colon pads the value with zeros (e.g. `{major:4}`),
+   * `{{` and `}}` print literal braces.
+   *
+   * @param template - A template (e.g. `'{major}.{minor}'`) or a `KeppoFormatPreset` (default: `'full'`).
+   * @throws {Error} If the template has an unknown token or an unmatched brace.
+   * @returns The formatted version.
+   */
+  format(template: KeppoFormatPreset | string = 'full'): string {
+    if (typeof template !== 'string') {
+      throw new KeppoError(
+        KeppoErrorCode.InvalidType,
+        `Expected a string but got "${typeof template}".`
+      )
+    }
+
+    const pattern: string = Object.hasOwn(FORMAT_PRESETS, template)
+      ? FORMAT_PRESETS[template as KeppoFormatPreset]
+      : template
+
+    return pattern.replace(
+      REGEXP_FORMAT,
+      (match: string, token: string | undefined, offset: number) =>
+        this.#formatToken(match, token, offset, pattern)
+    )
+  }
+
+  /**
+   * Prints the current `Keppo` object, formatted with {@link format()}, followed by a new line.
+   *
+   * @param template - A template or a `KeppoFormatPreset` (default: `'full'`).
+   * @param stream - The stream to write to, e.g. `process.stderr`, prints to the console when omitted.
+   * @throws {Error} If the template is invalid.
+   * @returns {void}
+   */
+  output(
+    template: KeppoFormatPreset | string = 'full',
+    stream?: KeppoWritable
+  ): void {
+    const text: string = this.format(template)
+
+    if (typeof stream === 'undefined') {
+      // biome-ignore lint/suspicious/noConsole: Needed for output
+      console.log(text)
+    } else {
+      stream.write(`${text}\n`)
+    }
+  }
+
+  /**
+   * Sets the current version for the `Keppo` instance.
+   *
+   * Replaces all existing version components, label and build metadata with values parsed from the provided SemVer string.
+   *
+   * See also {@link Keppo.from()}.
+   *
+   * @param version - A valid SemVer string (e.g. `'1.2.3'`, `'v2.0.0-beta.1'`, `'1.2.3+build.5'`).
+   * @throws {Error} If the string is invalid or fails SemVer parsing.
+   * @returns The current `Keppo` instance.
+   */
+  setVersion(version: string): Keppo {
+    return this.#record('setVersion', [version], (target: Keppo) => {
+      if (typeof version !== 'string') {
+        throw new KeppoError(
+          KeppoErrorCode.InvalidType,
+          `Expected a string but got "${typeof version}".`
+        )
+      }
+
+      // the `v` prefix switches the instance to loose mode, but only once the version
+      // passed the numeric rules of the current mode
+      const error: KeppoError | null = scanVersion(
+        version,
+        target.#bigint,
+        target.#strict,
+        `Expected a valid SemVer version but got "${version}", strict mode: ${target.#strict}.`
+      )
+
+      if (error) {
+        throw error
+      }
+
+      assertChannelLabel(target.#channels, labelOf(version))
+
+      const buildIndex: number = version.indexOf('+')
+
+      if (buildIndex > -1) {
+        target.#build = version.substring(buildIndex + 1)
+        version = version.substring(0, buildIndex)
+      } else {
+        target.#build = ''
+      }
+
+      if (version.charAt(0) === 'v') {
+        target.setStrict(false)
+      } else {
+        target.setStrict(true)
+      }
+
+      const labelIndex: number = version.indexOf('-')
+      const core: string =
+        labelIndex > -1 ? version.substring(0, labelIndex) : version
+      const components: string[] = core.replace(REGEXP_VERSION, '').split('.')
+
+      target.setMajor(BigInt(components[0]))
+      target.setMinor(BigInt(components[1]))
+      target.#label = ''
+
+      // already validated, identifiers are case-sensitive and kept as written,
+      // except for the leading zeros loose mode tolerates, e.g. `1.2.3-01` → `1.2.3-1`
+      if (labelIndex > -1) {
+        target.#label = trimLeadingZeros(version.substring(labelIndex + 1))
+      }
+
+      const patch: bigint = BigInt(components[2])
+
+      return target.setPatch(patch)
+    })
+  }
+
+  /**
+   * Resets the current Keppo instance's SemVer version to `0.0.0`, label and build metadata to an empty string.
+   * @returns The current `Keppo` instance.
+   */
+  reset(): Keppo {
+    return this.#record('reset', [], (target: Keppo) =>
+      target.setVersion('0.0.0').setLabel('')
+    )
+  }
+
+  /**
+   * Reverts the last recorded call, does nothing if there is none.
+   *
+   * The undo itself is recorded in the log, see {@link history()}.
+   *
+   * @throws {Error} If the history is not enabled.
+   * @returns The current `Keppo` instance.
+   */
+  undo(): Keppo {
+    const history: HistoryState = this.#requireHistory()
+    const step: HistoryStep | undefined = history.undo.at(-1)
+
+    if (typeof step !== 'undefined') {
+      const change: KeppoChange = this.#commit('undo', [], step.before)
+
+      history.redo.push(history.undo.pop() as HistoryStep)
+      this.#emit(change)
+    }
+
+    return this
+  }
+
+  /**
+   * Reapplies the last reverted call, does nothing if there is none.
+   *
+   * Any new recorded call discards the calls that can be redone.
+   *
+   * @throws {Error} If the history is not enabled.
+   * @returns The current `Keppo` instance.
+   */
+  redo(): Keppo {
+    const history: HistoryState = this.#requireHistory()
+    const step: HistoryStep | undefined = history.redo.at(-1)
+
+    if (typeof step !== 'undefined') {
+      const change: KeppoChange = this.#commit('redo', [], step.after)
+
+      history.undo.push(history.redo.pop() as HistoryStep)
+      this.#emit(change)
+    }
+
+    return this
+  }
+
+  /**
+   * Checks whether there is a recorded call to revert.
+   * @returns `true` if {@link undo()} would change the version; otherwise `false`.
+   */
+  canUndo(): boolean {
+    return (this.#history?.undo.length ?? 0) > 0
+  }
+
+  /**
+   * Checks whether there is a reverted call to reapply.
+   * @returns `true` if {@link redo()} would change the version; otherwise `false`.
+   */
+  canRedo(): boolean {
+    return (this.#history?.redo.length ?? 0) > 0
+  }
+
+  /**
+   * Gets the log of the current `Keppo` instance, every recorded call, undo and redo in order.
+   *
+   * @throws {Error} If the history is not enabled.
+   * @returns A copy of the log.
+   */
+  history(): KeppoHistoryEntry[] {
+    return this.#requireHistory().entries.map((entry: KeppoHistoryEntry) => ({
+      ...entry,
+      args: [...entry.args]
+    }))
+  }
+
+  /**
+   * Saves the current version under a name, an existing checkpoint with the same name is replaced.
+   *
+   * @param name - The name of the checkpoint (e.g. `'before-rc'`).
+   * @throws {Error} If the history is not enabled.
+   * @returns The current `Keppo` instance.
+   */
+  checkpoint(name: string): Keppo {
+    if (typeof name !== 'string') {
+      throw new KeppoError(
+        KeppoErrorCode.InvalidType,
+        `Expected a string but got "${typeof name}".`
+      )
+    }
+
+    this.#requireHistory().checkpoints.set(name, this.#state())
+    return this
+  }
+
+  /**
+   * Restores the version saved by {@link checkpoint()}, the restore is recorded and can be reverted with {@link undo()}.
+   *
+   * @param name - The name of the checkpoint.
+   * @throws {Error} If the history is not enabled or there is no checkpoint with the given name.
+   * @returns The current `Keppo` instance.
+   */
+  restore(name: string): Keppo {
+    const state: VersionState | undefined =
+      this.#requireHistory().checkpoints.get(name)
+
+    if (typeof state === 'undefined') {
+      throw new KeppoError(
+        KeppoErrorCode.UnknownCheckpoint,
+        `Expected a known checkpoint but got "${name}".`
+      )
+    }
+
+    return this.#record('restore', [name], (target: Keppo) =>
+      target.#apply(state)
+    )
+  }
+
+  /**
+   * Exports the log of the current `Keppo` instance as JSON, e.g. to attach it to a release record.
+   *
+   * @throws {Error} If the history is not enabled.
+   * @returns A JSON array of `KeppoHistoryEntry` objects, see {@link history()}.
+   */
+  exportHistory(): string {
+    return JSON.stringify(this.#requireHistory().entries, null, 2)
+  }
+
+  /**
+   * Creates a new `Keppo` instance with the same version, label, build metadata and modes.
+   * @returns A new `Keppo` instance.
+   */
+  clone(): Keppo {
+    const clone: Keppo = new Keppo(0, 0, 0, this.#strict)
+
+    clone.#major = this.#major
+    clone.#minor = this.#minor
+    clone.#patch = this.#patch
+    clone.#bigint = this.#bigint
+    clone.#label = this.#label
+    clone.#build = this.#build
+    clone.#channels = this.#channels
+
+    return clone
+  }
+
+  /**
+   * Creates a new `Keppo` instance with the given fields changed, the current instance is left untouched.
+   *
+   * Unlike the increase/decrease methods, no lower components are reset.
+   *
+   * @param changes - The fields to change (e.g. `{ minor: 3, label: 'rc.1' }`).
+   * @throws {Error} If any of the values is invalid.
+   * @returns A new `Keppo` instance.
+   */
+  with(changes: KeppoChanges): Keppo {
+    if (typeof changes !== 'object' || changes === null) {
+      throw new KeppoError(
+        KeppoErrorCode.InvalidType,
+        `Expected an object but got "${typeof changes}".`
+      )
+    }
+
+    const clone: Keppo = this.clone()
+
+    if (typeof changes.strict !== 'undefined') {
+      clone.setStrict(changes.strict)
+    }
+
+    if (typeof changes.major !== 'undefined') {
+      clone.setMajor(changes.major)
+    }
+
+    if (typeof changes.minor !== 'undefined') {
+      clone.setMinor(changes.minor)
+    }
+
+    if (typeof changes.patch !== 'undefined') {
+      clone.setPatch(changes.patch)
+    }
+
+    if (typeof changes.label !== 'undefined') {
+      clone.setLabel(changes.label)
+    }
+
+    if (typeof changes.build !== 'undefined') {
+      clone.setBuild(changes.build)
+    }
+
+    return clone
+  }
+
+  /**
+   * Creates a new, bumped `Keppo` instance, the current instance is left untouched.
+   *
+   * E.g. `Keppo.from('1.2.3').bumped('minor')` → `1.3.0`, `Keppo.from('1.0.0-rc.1').bumped('release')` → `1.0.0`.
+   *
+   * Like npm's `inc`, the `major`, `minor` and `patch` kinds drop the label and release a pre-release
+   * that already is one of the given kind as its own version core, e.g. `1.3.0-rc.1` with `'minor'` → `1.3.0`.
+   *
+   * @param kind - The kind of bump, see `KeppoReleaseType`.
+   * @param identifier - Optional pre-release identifier for pre-release bumps (e.g. `'alpha'`, `'rc'`).
+   * @throws {Error} If the kind is invalid or the bump is not possible.
+   * @returns A new `Keppo` instance.
+   */
+  bumped(kind: KeppoReleaseType, identifier?: string): Keppo {
+    const clone: Keppo = this.clone()
+
+    switch (kind) {
+      case 'major':
+      case 'minor':
+      case 'patch':
+        return bumpRelease(clone, kind)
+      case 'premajor':
+        return clone.premajor(identifier)
+      case 'preminor':
+        return clone.preminor(identifier)
+      case 'prepatch':
+        return clone.prepatch(identifier)
+      case 'prerelease':
+        return clone.increasePrerelease(identifier)
+      case 'release':
+        return clone.release()
+      default:
+        throw new KeppoError(
+          KeppoErrorCode.InvalidReleaseType,
+          `Expected a valid release type but got "${kind}".`
+        )
+    }
+  }
+
+  /**
+   * Checks whether the current `Keppo` version is structurally equal to another version.
+   *
+   * Versions are equal when their components, label and build metadata are equal,
+   * the `v` prefix of the loose mode is not taken into account.
+   *
+   * @param version - Another `Keppo` instance or a valid SemVer string.
+   * @throws {Error} If the input is invalid.
+   * @returns `true` if both versions are equal; otherwise `false`.
+   */
+  equals(version: Keppo | string): boolean {
+    return this.key() === toKeppo(version).key()
+  }
+
+  /**
+   * Gets the kind of change that separates the current `Keppo` version from another version.
+   *
+   * Follows node-semver, the most significant differing component wins and, if the newer version is a pre-release,
+   * the kind is prefixed with `pre` (e.g. `1.2.3` → `2.0.0-rc.1` is a `premajor` change).
+   * Releasing a pre-release is a change of the highest component its release sets,
+   * e.g. `1.0.0-rc.1` → `1.0.0` is a `major` change and `1.2.3-rc.1` → `1.2.3` a `patch` one.
+   * Other versions that differ only in their label are a `prerelease` change, versions that differ only
+   * in their build metadata are a `build` change.
+   *
+   * @param version - Another `Keppo` instance or a valid SemVer string.
+   * @throws {Error} If the input is invalid.
+   * @returns The kind of change or `null` if both versions are equal.
+   */
+  diff(version: Keppo | string): KeppoDiff | null
+
+  /**
+   * Gets the kind of change and the per-component deltas that separate the current `Keppo` version from another version.
+   *
+   * The deltas are signed and go from the current version to the other one,
+   * e.g. `1.5.2` → `2.2.0` gives `{ kind: 'major', major: 1, minor: -3, patch: -2 }`.
+   *
+   * @param version - Another `Keppo` instance or a valid SemVer string.
+   * @param detailed - Whether to return the detailed form.
+   * @throws {Error} If the input is invalid or a delta is not a safe integer.
+   * @returns The kind of change and the per-component deltas.
+   */
+  diff(version: Keppo | string, detailed: true): KeppoDiffDetails
+
+  diff(
+    version: Keppo | string,
+    detailed: boolean = false
+  ): KeppoDiff | KeppoDiffDetails | null {
+    const other: Keppo = toKeppo(version)
+    const kind: KeppoDiff | null = diffKind(this, other)
+
+    if (!detailed) {
+      return kind
+    }
+
+    return {
+      kind,
+      major: componentDelta(this.#major, other.#major, 'major'),
+      minor: componentDelta(this.#minor, other.#minor, 'minor'),
+      patch: componentDelta(this.#patch, other.#patch, 'patch')
+    }
+  }
+
+  /**
+   * Gets a canonical, stable key of the current `Keppo` version, without the `v` prefix.
+   *
+   * Useful as a `Map` key or a `Set` value, as `Keppo` instances are compared by reference.
+   *
+   * @returns The canonical version string (e.g. `'1.2.3-rc.1+build.5'`).
+   */
+  key(): string {
+    return `${this.#major}.${this.#minor}.${this.#patch}${formatLabel(this.#label)}${formatBuild(this.#build)}`
+  }
+
+  /**
+   * Gets a stable 32-bit hash code of the current `Keppo` version, derived from {@link key()}.
+   * @returns The hash code.
+   */
+  hashCode(): number {
+    let hash: number = 0
+
+    for (const char of this.key()) {
+      hash = (Math.imul(hash, 31) + char.charCodeAt(0)) | 0
+    }
+
+    return hash
+  }
+
+  /**
+   * Formats the current `Keppo` object as a String.
+   * @returns {string}
+   */
+  toString(): string {
+    return `${this.#strict ? '' : 'v'}${this.key()}`
+  }
+
+  /**
+   * Serializes the current `Keppo` object for `JSON.stringify()`, as its string form (e.g. `'v1.2.3-rc.1'`).
+   *
+   * Use {@link toObject()} for the object form and {@link Keppo.reviver} to parse either form back.
+   *
+   * @returns {string}
+   */
+  toJSON(): string {
+    return this.toString()
+  }
+
+  /**
+   * Converts the current `Keppo` object into its plain object form, see {@link Keppo.fromObject()}.
+   *
+   * The components are `bigint`s in BigInt mode, which `JSON.stringify()` can't serialize.
+   *
+   * @returns The object form (e.g. `{ major: 1, minor: 2, patch: 3, prerelease: 'rc.1', build: '', strict: true }`).
+   */
+  toObject(): KeppoObject {
+    return {
+      major: this.#bigint ? this.#major : Number(this.#major),
+      minor: this.#bigint ? this.#minor : Number(this.#minor),
+      patch: this.#bigint ? this.#patch : Number(this.#patch),
+      prerelease: this.#label,
+      build: this.#build,
+      strict: this.#strict
+    }
+  }
+
+  /**
+   * Runs a mutation of the current instance, the fields are restored if it throws, so a failed call
+   * never leaves a partial version behind.
+   *
+   * When the instance has a history, listeners or policies, the mutation runs on a copy instead
+   * and its outcome is committed as a single change, unless it leaves the version as it was.
+   * Calls nested in the mutation run on the copy, so they are part of the outer change.
+   */
+  #record(
+    operation: string,
+    args: (string | number | bigint | boolean | undefined)[],
+    mutate: (target: Keppo) => Keppo
+  ): Keppo {
+    const before: VersionState = this.#state()
+
+    if (
+      this.#history === null &&
+      this.#listeners.length === 0 &&
+      this.#policies.length === 0
+    ) {
+      try {
+        return mutate(this)
+      } catch (error) {
+        this.#apply(before)
+        throw error
+      }
+    }
+
+    const draft: Keppo = this.clone()
+
+    mutate(draft)
+
+    const after: VersionState = draft.#state()
+
+    if (isSameState(before, after)) {
+      return this
+    }
+
+    const change: KeppoChange = this.#commit(operation, args, after)
+
+    if (this.#history !== null) {
+      this.#history.undo.push({ before, after })
+      this.#history.redo = []
+    }
+
+    this.#emit(change)
+    return this
+  }
+
+  /**
+   * Checks a change of the current version against the policies before any field is written,
+   * then applies it and appends it to the log.
+   */
+  #commit(
+    operation: string,
+    args: (string | number | bigint | boolean | undefined)[],
+    after: VersionState
+  ): KeppoChange {
+    const change: KeppoChange = {
+      operation,
+      args: args.filter(isDefined).map(historyArgument),
+      before: this.clone(),
+      after: this.clone().#apply(after)
+    }
+
+    for (const policy of this.#policies) {
+      const reason: string | null = policy.check(change)
+
+      if (reason !== null) {
+        throw new KeppoPolicyError(policy.name, reason, change)
+      }
+    }
+
+    this.#apply(after)
+    this.#history?.entries.push({
+      operation,
+      args: [...change.args],
+      before: change.before.toString(),
+      after: change.after.toString()
+    })
+
+    return change
+  }
+
+  /**
+   * Notifies every listener of a committed change, the first error thrown by a listener
+   * is rethrown after all of them are called.
+   */
+  #emit(change: KeppoChange): void {
+    const errors: unknown[] = []
+
+    for (const listener of [...this.#listeners]) {
+      try {
+        listener(change)
+      } catch (error) {
+        errors.push(error)
+      }
+    }
+
+    if (errors.length > 0) {
+      throw errors[0]
+    }
+  }
+
+  #state(): VersionState {
+    return {
+      major: this.#major,
+      minor: this.#minor,
+      patch: this.#patch,
+      strict: this.#strict,
+      bigint: this.#bigint,
+      label: this.#label,
+      build: this.#build
+    }
+  }
+
+  #apply(state: VersionState): Keppo {
+    this.#major = state.major
+    this.#minor = state.minor
+    this.#patch = state.patch
+    this.#strict = state.strict
+    this.#bigint = state.bigint
+    this.#label = state.label
+    this.#build = state.build
+
+    return this
+  }
+
+  #requireHistory(): HistoryState {
+    if (this.#history === null) {
+      throw new KeppoError(
+        KeppoErrorCode.HistoryDisabled,
+        'Expected the history to be enabled, see setHistory().'
+      )
+    }
+
+    return this.#history
+  }
+
+  #formatToken(
+    match: string,
+    token: string | undefined,
+    offset: number,
+    template: string
+  ): string {
+    if (match === '{{' || match === '}}') {
+      return match[0]
+    }
+
+    const parts: RegExpMatchArray | null =
+      typeof token === 'string' ? token.match(REGEXP_FORMAT_TOKEN) : null
+
+    if (parts === null) {
+      throw new KeppoError(
+        KeppoErrorCode.InvalidFormat,
+        `Expected a valid format token at offset ${offset} of "${template}" but got "${match}".`,
+        null,
+        offset
+      )
+    }
+
+    const [, separator, name, width] = parts
+    const values: Record<string, string> = {
+      prefix: this.#strict ? '' : 'v',
+      major: String(this.#major),
+      minor: String(this.#minor),
+      patch: String(this.#patch),
+      prerelease: this.#label,
+      build: this.#build
+    }
+    const value: string =
+      typeof width === 'undefined'
+        ? values[name]
+        : values[name].padStart(Number(width), '0')
+
+    return value === '' ? '' : `${separator}${value}`
+  }
+
+  /**
+   * Checks whether the major version can be safely increased by the given amount.
+   *
+   * Uses `Number.isSafeInteger()` to ensure the result stays within JavaScript's safe integer range,
+   * always `true` for valid amounts in BigInt mode.
+   *
+   * Read more on {@link https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Number/isSafeInteger MDN}.
+   *
+   * @param major - The amount to increase by (default: `1`).
+   * @returns `true` if the increment is safe; otherwise `false`.
+   */
+  canIncreaseMajor(major: number | bigint = 1): boolean {
+    return canIncrease(this.#major, major, this.#bigint)
+  }
+
+  /**
+   * Checks whether the minor version can be safely increased by the given amount.
+   *
+   * Uses `Number.isSafeInteger()` to ensure the result remains within JavaScript's safe integer range,
+   * always `true` for valid amounts in BigInt mode.
+   *
+   * Read more on {@link https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Number/isSafeInteger MDN}.
+   *
+   * @param minor - The amount to increase by (default: `1`).
+   * @returns `true` if the increment is safe; otherwise `false`.
+   */
+  canIncreaseMinor(minor: number | bigint = 1): boolean {
+    return canIncrease(this.#minor, minor, this.#bigint)
+  }
+
+  /**
+   * Checks whether the patch version can be safely increased by the given amount.
+   *
+   * Uses `Number.isSafeInteger()` to ensure the result remains within JavaScript's safe integer range,
+   * always `true` for valid amounts in BigInt mode.
+   *
+   * Read more on {@link https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Number/isSafeInteger MDN}.
+   *
+   * @param patch - The amount to increase by (default: `1`).
+   * @returns `true` if the increment is safe; otherwise `false`.
+   */
+  canIncreasePatch(patch: number | bigint = 1): boolean {
+    return canIncrease(this.#patch, patch, this.#bigint)
+  }
+
+  /**
+   * Returns the maximum safe value that can be used to increase the major version number.
+   *
+   * Based on JavaScript's `Number.MAX_SAFE_INTEGER`, which ensures arithmetic remains precise.
+   *
+   * Read more on {@link https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Number/isSafeInteger MDN}.
+   *
+   * @returns The maximum safe increment value for the major version, `Infinity` in BigInt mode.
+   */
+  maxIncreaseMajor(): number {
+    return maxIncrease(this.#major, this.#bigint)
+  }
+
+  /**
+   * Returns the maximum safe value that can be used to increase the minor version number.
+   *
+   * Based on JavaScript’s `Number.MAX_SAFE_INTEGER`, ensuring arithmetic remains precise.
+   *
+   * Read more on {@link https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Number/isSafeInteger MDN}.
+   *
+   * @returns The maximum safe increment value for the minor version, `Infinity` in BigInt mode.
+   */
+  maxIncreaseMinor(): number {
+    return maxIncrease(this.#minor, this.#bigint)
+  }
+
+  /**
+   * Returns the maximum safe value that can be used to increase the patch version number.
+   *
+   * Based on JavaScript’s `Number.MAX_SAFE_INTEGER`, ensuring arithmetic remains precise.
+   *
+   * Read more on {@link https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Number/isSafeInteger MDN}.
+   *
+   * @returns The maximum safe increment value for the patch version, `Infinity` in BigInt mode.
+   */
+  maxIncreasePatch(): number {
+    return maxIncrease(this.#patch, this.#bigint)
+  }
+}
+
+/**
+ * An npm-style version range, parsed into sets of primitive comparators.
+ *
+ * Supports primitive (`<`, `<=`, `>`, `>=`, `=`), caret (`^`), tilde (`~`), hyphen (`1.2.3 - 2.3.4`)
+ * and X-ranges (`1.x`, `1.2.*`), combined with whitespace (intersection) and `||` (union).
+ *
+ * Pre-release versions are handled the same way as in node-semver, a pre-release version only
+ * satisfies a range if a comparator of the same `[major, minor, patch]` tuple has a pre-release label,
+ * unless `includePrerelease` is set.
+ */
+export class KeppoRange {
+  #raw: string
+  #sets: KeppoComparator[][]
+  #includePrerelease: boolean
+  #channels: KeppoChannels | null
+
+  /**
+   * Creates a new `KeppoRange` instance from a range string.
+   *
+   * @param range - A valid range string (e.g. `'^1.2.3'`, `'>=2.0.0 <3.0.0-0 || 4.x'`).
+   * @param options - Range options.
+   * @throws {Error} If the range is invalid.
+   */
+  constructor(range: string, options: KeppoRangeOptions = {}) {
+    if (typeof range !== 'string') {
+      throw new KeppoError(
+        KeppoErrorCode.InvalidType,
+        `Expected a string but got "${typeof range}".`
+      )
+    }
+
+    this.#raw = range.trim()
+    this.#includePrerelease = options.includePrerelease === true
+    this.#channels = options.channels ?? null
+    this.#sets = range
+      .split('||')
+      .map((set: string) => parseComparatorSet(set, this.#includePrerelease))
+  }
+
+  /**
+   * Checks whether a given string is a valid range.
+   *
+   * @param range - A range string (e.g. `'^1.2.3'`, `'1.x || 2.x'`).
+   * @returns `true` if the range is valid; otherwise `false`.
+   */
+  static isValid(range: string): boolean {
+    try {
+      new KeppoRange(range)
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  /**
+   * Checks whether two ranges overlap, i.e. whether any version satisfies both of them.
+   *
+   * @param a - A `KeppoRange` instance or a valid range string.
+   * @param b - A `KeppoRange` instance or a valid range string.
+   * @throws {Error} If either of the ranges is invalid.
+   * @returns `true` if the ranges overlap; otherwise `false`.
+   */
+  static intersects(a: KeppoRange | string, b: KeppoRange | string): boolean {
+    return KeppoRange.intersect(a, b) !== null
+  }
+
+  /**
+   * Creates a range satisfied by exactly the versions that satisfy both ranges,
+   * e.g. `'^1.2.0'` and `'>=1.4.0 <1.9.0'` → `'>=1.4.0 <1.9.0'`.
+   *
+   * @param a - A `KeppoRange` instance or a valid range string.
+   * @param b - A `KeppoRange` instance or a valid range string.
+   * @throws {Error} If either of the ranges is invalid.
+   * @returns A new `KeppoRange` instance or `null` if the ranges don't overlap.
+   */
+  static intersect(
+    a: KeppoRange | string,
+    b: KeppoRange | string
+  ): KeppoRange | null {
+    const left: KeppoRange = toKeppoRange(a)
+    const right: KeppoRange = toKeppoRange(b)
+    const sets: string[] = []
+
+    for (const leftInterval of left.#intervals()) {
+      for (const rightInterval of right.#intervals()) {
+        const interval: RangeInterval = mergeIntervals(
+          leftInterval,
+          rightInterval
+        )
+
+        if (minInInterval(interval) !== null) {
+          sets.push(formatInterval(interval))
+        }
+      }
+    }
+
+    if (sets.length === 0) {
+      return null
+    }
+
+    return new KeppoRange([...new Set(sets)].join(' || '), {
+      includePrerelease: left.#includePrerelease && right.#includePrerelease
+    })
+  }
+
+  /**
+   * Creates a range satisfied by the versions that satisfy any of the ranges,
+   * comparator sets that overlap or touch are merged, e.g. `'>=1.0.0 <1.5.0'` and `'>=1.4.0 <2.0.0'` → `'>=1.0.0 <2.0.0'`.
+   *
+   * Sets are only merged when the merged set accepts the same pre-release versions.
+   *
+   * The result includes pre-release versions only when all of the ranges do.
+   *
+   * @param ranges - `KeppoRange` instances and/or valid range strings.
+   * @throws {Error} If any of the ranges is invalid.
+   * @returns A new `KeppoRange` instance.
+   */
+  static union(...ranges: (KeppoRange | string)[]): KeppoRange {
+    const parsed: KeppoRange[] = ranges.map(toKeppoRange)
+
+    if (parsed.length === 0) {
+      throw new KeppoError(
+        KeppoErrorCode.InvalidRange,
+        'Expected at least one range.'
+      )
+    }
+
+    const includePrerelease: boolean = parsed.every(
+      (range: KeppoRange) => range.#includePrerelease
+    )
+    const sets: string[] = unionIntervals(
+      parsed.flatMap((range: KeppoRange) => range.#intervals(includePrerelease))
+    ).map(formatInterval)
+
+    return new KeppoRange(sets.length === 0 ? '<0.0.0-0' : sets.join(' || '), {
+      includePrerelease
+    })
+  }
+
+  /**
+   * Checks whether every version that satisfies one range satisfies another range as well.
+   *
+   * @param sub - The range that should be contained, a `KeppoRange` instance or a valid range string.
+   * @param sup - The range that should contain it, a `KeppoRange` instance or a valid range string.
+   * @throws {Error} If either of the ranges is invalid.
+   * @returns `true` if `sub` is a subset of `sup`; otherwise `false`.
+   */
+  static isSubset(sub: KeppoRange | string, sup: KeppoRange | string): boolean {
+    const container: RangeInterval[] = toKeppoRange(sup).#intervals()
+
+    return toKeppoRange(sub)
+      .#intervals()
+      .every((interval: RangeInterval) => coversInterval(interval, container))
+  }
+
+  /**
+   * Finds the lowest version that satisfies the range, e.g. `'>1.2.3'` → `1.2.4`, `'^1.0.0-rc.1'` → `1.0.0-rc.1`.
+   *
+   * @param range - A `KeppoRange` instance or a valid range string.
+   * @throws {Error} If the range is invalid.
+   * @returns A new `Keppo` instance or `null` if no version satisfies the range.
+   */
+  static minVersion(range: KeppoRange | string): Keppo | null {
+    return pickVersion(
+      toKeppoRange(range)
+        .#intervals()
+        .map(minInInterval)
+        .filter((version: Keppo | null) => version !== null),
+      KeppoComparison.Older
+    )
+  }
+
+  /**
+   * Collapses a range to its shortest equivalent with respect to a list of versions,
+   * e.g. the published versions of a package.
+   *
+   * The versions that satisfy the range are grouped into runs, which become exact versions,
+   * `>=`, `<=` or hyphen ranges, the original range is returned when the result is not shorter
+   * than the range as written or doesn't accept exactly the same versions.
+   * The short form is kept as the raw string of the returned range, see {@link getRaw()}.
+   *
+   * @param range - A `KeppoRange` instance or a valid range string.
+   * @param versions - A list of `Keppo` instances and/or SemVer strings, invalid entries are skipped.
+   * @throws {Error} If the range is invalid.
+   * @returns A new `KeppoRange` instance or the range itself.
+   */
+  static simplify(
+    range: KeppoRange | string,
+    versions: (Keppo | string)[]
+  ): KeppoRange {
+    const original: KeppoRange = toKeppoRange(range)
+    const list: Keppo[] = Keppo.sort(versions)
+    const short: string = simplifiedRuns(original, list).join(' || ')
+    const simplified: KeppoRange = new KeppoRange(short, {
+      includePrerelease: original.#includePrerelease
+    })
+    const isEquivalent: boolean = list.every(
+      (version: Keppo) => original.test(version) === simplified.test(version)
+    )
+
+    return isEquivalent && short.length < original.#raw.length
+      ? simplified
+      : original
+  }
+
+  /**
+   * Checks whether the given version satisfies the range.
+   *
+   * Invalid SemVer strings never satisfy a range.
+   *
+   * @param version - A `Keppo` instance or a SemVer string (e.g. `'1.2.3'`, `'v2.0.0-beta.1'`).
+   * @returns `true` if the version satisfies the range; otherwise `false`.
+   */
+  test(version: Keppo | string): boolean {
+    if (typeof version === 'string') {
+      const result: KeppoParseResult = Keppo.safeParse(version.trim(), {
+        strict: false,
+        bigint: true
+      })
+
+      if (!result.ok) {
+        return false
+      }
+
+      version = result.version
+    }
+
+    if (!(version instanceof Keppo)) {
+      throw new KeppoError(
+        KeppoErrorCode.InvalidType,
+        `Expected either a Keppo instance or a valid SemVer string but got "${typeof version}".`
+      )
+    }
+
+    const target: Keppo = version
+
+    return this.#sets.some((set: KeppoComparator[]) =>
+      testComparatorSet(set, target, this.#includePrerelease, this.#channels)
+    )
+  }
+
+  /**
+   * Gets the range as it was written, trimmed, e.g. `'^1.2.3'`, while `toString()` gives its normalized form.
+   * @returns The raw range string.
+   */
+  getRaw(): string {
+    return this.#raw
+  }
+
+  /**
+   * Gets the parsed comparator sets of the range, the outer array is a union of intersections.
+   * @returns A copy of the comparator sets.
+   */
+  comparators(): KeppoComparator[][] {
+    return this.#sets.map((set: KeppoComparator[]) =>
+      set.map((comparator: KeppoComparator) => ({
+        operator: comparator.operator,
+        version: Keppo.from(comparator.version.toString(), {
+          bigint: comparator.version.isBigInt()
+        })
+      }))
+    )
+  }
+
+  #intervals(
+    includePrerelease: boolean = this.#includePrerelease
+  ): RangeInterval[] {
+    return this.#sets.map((set: KeppoComparator[]) =>
+      toInterval(set, includePrerelease)
+    )
+  }
+
+  /**
+   * Formats the current `KeppoRange` object as a normalized String of primitive comparators.
+   * @returns {string}
+   */
+  toString(): string {
+    return this.#sets
+      .map((set: KeppoComparator[]) =>
+        set
+          .map((comparator: KeppoComparator) => formatComparator(comparator))
+          .join(' ')
+      )
+      .join(' || ')
+  }
+}
+
+/**
+ * An ordered list of release channels, e.g. `dev` → `alpha` → `beta` → `rc` → stable.
+ *
+ * SemVer compares pre-release labels in ASCII order, so `1.0.0-dev.1` sorts after `1.0.0-beta.1`,
+ * with channels, pre-release versions of different channels are compared by the order of their channels.
+ * Labels that don't belong to any channel sort before all channel labels and keep the SemVer order among themselves.
+ *
+ * Use it with `Keppo#setChannels()`, `KeppoRangeOptions` or its own `compare()` and `sort()`.
+ */
+export class KeppoChannels {
+  #channels: Required<KeppoChannel>[]
+
+  /**
+   * Creates a new `KeppoChannels` instance.
+   *
+   * @param channels - The channels in ascending order, as names (e.g. `['dev', 'alpha', 'beta', 'rc']`) or `KeppoChannel` objects.
+   * @throws {Error} If a channel name is invalid or repeated, or a start number is invalid.
+   */
+  constructor(channels: (string | KeppoChannel)[]) {
+    if (!Array.isArray(channels)) {
+      throw new KeppoError(
+        KeppoErrorCode.InvalidType,
+        `Expected an array but got "${typeof channels}".`
+      )
+    }
+
+    this.#channels = []
+
+    for (const channel of channels) {
+      const definition: Required<KeppoChannel> = toChannel(channel)
+
+      if (this.indexOf(definition.name) > -1) {
+        throw new KeppoError(
+          KeppoErrorCode.InvalidLabel,
+          `Expected unique channel names but got "${definition.name}" twice.`,
+          'label'
+        )
+      }
+
+      this.#channels.push(definition)
+    }
+  }
+
+  /**
+   * Gets the channels, in ascending order.
+   * @returns A copy of the channels, with the defaults filled in.
+   */
+  list(): Required<KeppoChannel>[] {
+    return this.#channels.map((channel: Required<KeppoChannel>) => ({
+      ...channel
+    }))
+  }
+
+  /**
+   * Gets the position of the channel a label belongs to, by its first identifier.
+   *
+   * @param label - A pre-release label (e.g. `'beta.3'`).
+   * @returns The zero-based index of the channel or `-1` if the label doesn't belong to any channel.
+   */
+  indexOf(label: string): number {
+    const name: string = label.split('.')[0]
+
+    return this.#channels.findIndex(
+      (channel: Required<KeppoChannel>) => channel.name === name
+    )
+  }
+
+  /**
+   * Gets the channel of a version.
+   *
+   * @param version - A `Keppo` instance or a valid SemVer string.
+   * @throws {Error} If the version is invalid.
+   * @returns The name of the channel, `'stable'` for a release version or `null` if the label doesn't belong to any channel.
+   */
+  channel(version: Keppo | string): string | null {
+    const label: string = toKeppo(version).getLabel()
+
+    if (label === '') {
+      return 'stable'
+    }
+
+    return this.#channels[this.indexOf(label)]?.name ?? null
+  }
+
+  /**
+   * Gets the position of the channel of a version.
+   *
+   * @param version - A `Keppo` instance or a valid SemVer string.
+   * @throws {Error} If the version is invalid.
+   * @returns The zero-based index of the channel, the number of channels for a release version or `-1` if the label doesn't belong to any channel.
+   */
+  channelIndex(version: Keppo | string): number {
+    const label: string = toKeppo(version).getLabel()
+
+    return label === '' ? this.#channels.length : this.indexOf(label)
+  }
+
+  /**
+   * Checks whether a label belongs to a channel and follows its numbering, e.g. `'beta.3'` or, for a channel without numbers, `'canary'`.
+   *
+   * @param label - A pre-release label.
+   * @returns `true` if the label is valid; otherwise `false`.
+   */
+  isValidLabel(label: string): boolean {
+    const channel: Required<KeppoChannel> | undefined =
+      this.#channels[this.indexOf(label)]
+
+    if (typeof channel === 'undefined') {
+      return false
+    }
+
+    const identifiers: string[] = label.split('.')
+
+    if (!channel.numbered) {
+      return identifiers.length === 1
+    }
+
+    return (
+      identifiers.length === 2 &&
+      REGEXP_COMPONENT.test(identifiers[1]) &&
+      !REGEXP_LEADING_ZERO.test(identifiers[1]) &&
+      BigInt(identifiers[1]) >= BigInt(channel.start)
+    )
+  }
+
+  /**
+   * Gets the label a pre-release label is promoted to, the first label of the next channel
+   * or an empty string from the last channel, e.g. `'beta.3'` → `'rc.0'`, `'rc.2'` → `''`.
+   *
+   * @param label - A pre-release label.
+   * @throws {Error} If the label is empty or doesn't belong to any channel.
+   * @returns The promoted label.
+   */
+  nextLabel(label: string): string {
+    if (label === '') {
+      throw new KeppoError(
+        KeppoErrorCode.NotPrerelease,
+        'Expected a pre-release label but got a release version.',
+        'label'
+      )
+    }
+
+    const index: number = this.indexOf(label)
+
+    if (index === -1) {
+      throw unknownChannel(this, label)
+    }
+
+    const next: Required<KeppoChannel> | undefined = this.#channels[index + 1]
+
+    if (typeof next === 'undefined') {
+      return ''
+    }
+
+    return next.numbered ? `${next.name}.${next.start}` : next.name
+  }
+
+  /**
+   * Compares two versions by SemVer precedence, pre-release versions of different channels by the order of the channels.
+   *
+   * @param a - A `Keppo` instance or a valid SemVer string.
+   * @param b - A `Keppo` instance or a valid SemVer string.
+   * @throws {Error} If either of the versions is invalid.
+   * @returns A numeric comparison result (`-1`, `0`, or `1`) of `a` against `b`.
+   */
+  compare(a: Keppo | string, b: Keppo | string): KeppoComparison {
+    const left: Keppo = toKeppo(a)
+    const right: Keppo = toKeppo(b)
+    const core: KeppoComparison = compareCore(left, right)
+
+    if (core !== KeppoComparison.Current) {
+      return core
+    }
+
+    return comparePrerelease(left.getLabel(), right.getLabel(), this)
+  }
+
+  /**
+   * Sorts a list of versions like `Keppo.sort()`, pre-release versions of different channels by the order of the channels.
+   *
+   * @param list - A list of `Keppo` instances and/or SemVer strings.
+   * @param order - The sort order, `'asc'` or `'desc'` (default: `'asc'`).
+   * @param strict - Whether to throw on invalid entries instead of skipping them (default: `false`).
+   * @throws {Error} If `strict` is enabled and the list contains an invalid entry.
+   * @returns A new, sorted list of `Keppo` instances.
+   */
+  sort(
+    list: (Keppo | string)[],
+    order: KeppoSortOrder = 'asc',
+    strict: boolean = false
+  ): Keppo[] {
+    const direction: number = order === 'desc' ? -1 : 1
+
+    return toKeppoList(list, strict).sort(
+      (a: Keppo, b: Keppo) => this.compare(a, b) * direction
+    )
+  }
+}
+
+function toKeppo(version: Keppo | string): Keppo {
+  if (version instanceof Keppo) {
+    return version
+  }
+
+  if (typeof version !== 'string') {
+    throw new KeppoError(
+      KeppoErrorCode.InvalidType,
+      `Expected either a Keppo instance or a valid SemVer string but got "${typeof version}".`
+    )
+  }
+
+  return Keppo.from(version)
+}
+
+function toKeppoList(list: (Keppo | string)[], strict: boolean): Keppo[] {
+  if (!Array.isArray(list)) {
+    throw new KeppoError(
+      KeppoErrorCode.InvalidType,
+      `Expected an array but got "${typeof list}".`
+    )
+  }
+
+  const result: Keppo[] = []
+
+  for (const entry of list) {
+    try {
+      result.push(toKeppo(entry))
+    } catch (error) {
+      if (strict) {
+        throw error
+      }
+    }
+  }
+
+  return result
+}
+
+function toKeppoRange(range: KeppoRange | string): KeppoRange {
+  if (range instanceof KeppoRange) {
+    return range
+  }
+
+  if (typeof range !== 'string') {
+    throw new KeppoError(
+      KeppoErrorCode.InvalidType,
+      `Expected either a KeppoRange instance or a valid range string but got "${typeof range}".`
+    )
+  }
+
+  return new KeppoRange(range)
+}
+
+function pickVersion(list: Keppo[], which: KeppoComparison): Keppo | null {
+  let result: Keppo | null = null
+
+  for (const version of list) {
+    if (result === null || version.compareWith(result) === which) {
+      result = version
+    }
+  }
+
+  return result
+}
+
+function filterSatisfying(list: Keppo[], range: KeppoRange | string): Keppo[] {
+  const parsedRange: KeppoRange =
+    typeof range === 'string' ? new KeppoRange(range) : range
+
+  return list.filter((version: Keppo) => parsedRange.test(version))
+}
+
+function isValidComponent(
+  component: string | number | bigint,
+  isBigInt: boolean = false
+): boolean {
+  if (
+    typeof component === 'number' &&
+    component >= 0 &&
+    (isBigInt ? Number.isInteger(component) : Number.isSafeInteger(component))
+  ) {
+    return true
+  }
+
+  if (
+    typeof component === 'bigint' &&
+    component >= 0n &&
+    (isBigInt || component <= MAX_SAFE_INTEGER)
+  ) {
+    return true
+  }
+
+  if (
+    typeof component === 'string' &&
+    REGEXP_COMPONENT.test(component) &&
+    (isBigInt || BigInt(component) <= MAX_SAFE_INTEGER)
+  ) {
+    return true
   }
 
   return false
 }
 
-function component(component: number | string, defaultValue: number): number {
-  if (typeof component === 'undefined') {
-    return defaultValue
+function component(
+  component: number | bigint | string,
+  isBigInt: boolean,
+  componentName: KeppoComponent
+): bigint {
+  if (typeof component === 'undefined') {
+    return 0n
+  }
+
+  if (typeof component === 'number' || typeof component === 'bigint') {
+    if (!isValidComponent(component, isBigInt)) {
+      throw invalidComponent(
+        component,
+        componentName,
+        `Expected a safe integer value but got ${component}.`
+      )
+    }
+
+    return BigInt(component)
+  } else if (typeof component === 'string') {
+    if (!isValidComponent(component, isBigInt)) {
+      throw invalidComponent(
+        component,
+        componentName,
+        `Expected a valid SemVer version but got "${component}".`
+      )
+    }
+
+    return BigInt(component)
+  } else {
+    throw new KeppoError(
+      KeppoErrorCode.InvalidType,
+      `Expected a argument of either String, Number or BigInt type but got ${typeof component}.`,
+      componentName
+    )
+  }
+}
+
+function invalidComponent(
+  component: unknown,
+  componentName: KeppoComponent,
+  message: string
+): KeppoError {
+  let code: KeppoErrorCode = KeppoErrorCode.InvalidComponent
+
+  if (
+    (typeof component === 'number' && component < 0) ||
+    (typeof component === 'bigint' && component < 0n) ||
+    (typeof component === 'string' && component.trim().charAt(0) === '-')
+  ) {
+    code = KeppoErrorCode.NegativeComponent
+  } else if (
+    (typeof component === 'number' && Number.isInteger(component)) ||
+    typeof component === 'bigint' ||
+    (typeof component === 'string' && REGEXP_COMPONENT.test(component))
+  ) {
+    code = KeppoErrorCode.UnsafeInteger
+  }
+
+  return new KeppoError(code, message, componentName)
+}
+
+function isDigit(char: string): boolean {
+  return char >= '0' && char <= '9' && char.length === 1
+}
+
+function identifiersErrorOffset(value: string, start: number = 0): number {
+  let isEmpty: boolean = true
+
+  for (let i = start; i < value.length; i++) {
+    const char: string = value.charAt(i)
+
+    if (char === '.') {
+      if (isEmpty) {
+        return i
+      }
+
+      isEmpty = true
+    } else if (REGEXP_LABEL.test(char)) {
+      isEmpty = false
+    } else {
+      return i
+    }
+  }
+
+  return value.length
+}
+
+function scanComponent(
+  version: string,
+  offset: number,
+  componentName: KeppoComponent,
+  isBigInt: boolean,
+  message: string
+): number | KeppoError {
+  let end: number = offset
+
+  while (isDigit(version.charAt(end))) {
+    end++
+  }
+
+  if (end === offset) {
+    const code: KeppoErrorCode =
+      version.charAt(offset) === '-' && isDigit(version.charAt(offset + 1))
+        ? KeppoErrorCode.NegativeComponent
+        : KeppoErrorCode.InvalidComponent
+
+    return new KeppoError(code, message, componentName, offset)
+  }
+
+  if (!isBigInt && BigInt(version.substring(offset, end)) > MAX_SAFE_INTEGER) {
+    return new KeppoError(
+      KeppoErrorCode.UnsafeInteger,
+      message,
+      componentName,
+      offset
+    )
+  }
+
+  return end
+}
+
+function scanIdentifiers(
+  value: string,
+  offset: number,
+  componentName: KeppoComponent,
+  message: string
+): KeppoError | null {
+  if (REGEXP_LABEL.test(value)) {
+    return null
+  }
+
+  return new KeppoError(
+    componentName === 'label'
+      ? KeppoErrorCode.InvalidLabel
+      : KeppoErrorCode.InvalidBuild,
+    message,
+    componentName,
+    offset + identifiersErrorOffset(value)
+  )
+}
+
+function scanCore(
+  version: string,
+  isBigInt: boolean,
+  message: string
+): number | KeppoError {
+  let offset: number = version.charAt(0) === 'v' ? 1 : 0
+
+  for (const componentName of VERSION_COMPONENTS) {
+    if (componentName !== 'major') {
+      if (version.charAt(offset) !== '.') {
+        return new KeppoError(
+          KeppoErrorCode.InvalidVersion,
+          message,
+          componentName,
+          offset
+        )
+      }
+
+      offset++
+    }
+
+    const result: number | KeppoError = scanComponent(
+      version,
+      offset,
+      componentName,
+      isBigInt,
+      message
+    )
+
+    if (result instanceof KeppoError) {
+      return result
+    }
+
+    offset = result
+  }
+
+  return offset
+}
+
+function scanVersion(
+  version: string,
+  isBigInt: boolean,
+  isConformant: boolean,
+  message: string
+): KeppoError | null {
+  const core: number | KeppoError = scanCore(version, isBigInt, message)
+
+  if (core instanceof KeppoError) {
+    return core
+  }
+
+  const buildIndex: number = version.indexOf('+', core)
+  const labelEnd: number = buildIndex > -1 ? buildIndex : version.length
+  let offset: number = core
+  let error: KeppoError | null = null
+
+  if (version.charAt(offset) === '-') {
+    error = scanIdentifiers(
+      version.substring(offset + 1, labelEnd),
+      offset + 1,
+      'label',
+      message
+    )
+    offset = labelEnd
+  }
+
+  if (!error && offset === buildIndex) {
+    error = scanIdentifiers(
+      version.substring(offset + 1),
+      offset + 1,
+      'build',
+      message
+    )
+    offset = version.length
+  }
+
+  if (!error && offset < version.length) {
+    error = new KeppoError(KeppoErrorCode.InvalidVersion, message, null, offset)
+  }
+
+  if (!error && isConformant) {
+    error = specWarnings(version)[0] ?? null
+  }
+
+  return error
+}
+
+function trimLeadingZeros(label: string): string {
+  return label
+    .split('.')
+    .map((identifier: string) =>
+      REGEXP_LEADING_ZERO.test(identifier)
+        ? BigInt(identifier).toString()
+        : identifier
+    )
+    .join('.')
+}
+
+function leadingZeroOffsets(value: string): [number, number][] {
+  const result: [number, number][] = []
+  let offset: number = 0
+
+  value.split('.').forEach((identifier: string, index: number) => {
+    if (REGEXP_LEADING_ZERO.test(identifier)) {
+      result.push([index, offset])
+    }
+
+    offset += identifier.length + 1
+  })
+
+  return result
+}
+
+function specWarnings(version: string): KeppoError[] {
+  const start: number = version.charAt(0) === 'v' ? 1 : 0
+  const buildIndex: number = version.indexOf('+')
+  const end: number = buildIndex > -1 ? buildIndex : version.length
+  const labelIndex: number = version.indexOf('-')
+  const coreEnd: number = labelIndex > -1 && labelIndex < end ? labelIndex : end
+  const warnings: KeppoError[] = []
+
+  for (const [index, offset] of leadingZeroOffsets(
+    version.substring(start, coreEnd)
+  )) {
+    const componentName: KeppoComponent = VERSION_COMPONENTS[index]
+
+    warnings.push(
+      new KeppoError(
+        KeppoErrorCode.LeadingZero,
+        `Expected no leading zeros in the ${componentName} version number of "${version}".`,
+        componentName,
+        start + offset
+      )
+    )
+  }
+
+  if (coreEnd < end) {
+    for (const [, offset] of leadingZeroOffsets(
+      version.substring(coreEnd + 1, end)
+    )) {
+      warnings.push(
+        new KeppoError(
+          KeppoErrorCode.LeadingZero,
+          `Expected no leading zeros in numeric label identifiers of "${version}".`,
+          'label',
+          coreEnd + 1 + offset
+        )
+      )
+    }
+  }
+
+  return warnings
+}
+
+function safeComponent(
+  component: bigint,
+  isBigInt: boolean,
+  componentName: KeppoComponent
+): bigint {
+  if (!isBigInt && component > MAX_SAFE_INTEGER) {
+    throw new KeppoError(
+      KeppoErrorCode.UnsafeInteger,
+      `Expected ${componentName} version number to be a safe integer but got "${component}".`,
+      componentName
+    )
+  }
+
+  return component
+}
+
+function coreKind(a: Keppo, b: Keppo): 'major' | 'minor' | 'patch' | null {
+  if (a.getBigMajor() !== b.getBigMajor()) {
+    return 'major'
+  }
+
+  if (a.getBigMinor() !== b.getBigMinor()) {
+    return 'minor'
+  }
+
+  return a.getBigPatch() === b.getBigPatch() ? null : 'patch'
+}
+
+/**
+ * Gets the kind of change that releases a pre-release, same as node-semver's `diff()`.
+ */
+function releaseKind(low: Keppo, high: Keppo): KeppoDiff | null {
+  if (low.getBigMinor() === 0n && low.getBigPatch() === 0n) {
+    return 'major'
+  }
+
+  if (compareCore(low, high) === KeppoComparison.Current) {
+    return low.getBigPatch() === 0n ? 'minor' : 'patch'
+  }
+
+  return null
+}
+
+function diffKind(a: Keppo, b: Keppo): KeppoDiff | null {
+  const order: KeppoComparison = a.compareWith(b)
+
+  if (order === KeppoComparison.Current) {
+    return a.getBuild() === b.getBuild() ? null : 'build'
+  }
+
+  const [low, high]: Keppo[] = order === KeppoComparison.Older ? [a, b] : [b, a]
+  const isHighPrerelease: boolean = high.getLabel() !== ''
+
+  if (low.getLabel() !== '' && !isHighPrerelease) {
+    const kind: KeppoDiff | null = releaseKind(low, high)
+
+    if (kind !== null) {
+      return kind
+    }
+  }
+
+  const core: 'major' | 'minor' | 'patch' | null = coreKind(a, b)
+
+  if (core === null) {
+    return 'prerelease'
+  }
+
+  return isHighPrerelease ? `pre${core}` : core
+}
+
+function bumpRelease(version: Keppo, kind: 'major' | 'minor' | 'patch'): Keppo {
+  const isReleased: boolean =
+    version.getLabel() !== '' &&
+    (kind === 'patch' ||
+      (version.getBigPatch() === 0n &&
+        (kind === 'minor' || version.getBigMinor() === 0n)))
+
+  if (!isReleased) {
+    if (kind === 'major') {
+      version.increaseMajor()
+    } else if (kind === 'minor') {
+      version.increaseMinor()
+    } else {
+      version.increasePatch()
+    }
+  }
+
+  return version.clearLabel()
+}
+
+function componentDelta(
+  from: bigint,
+  to: bigint,
+  componentName: KeppoComponent
+): number {
+  const delta: number = Number(to - from)
+
+  if (!Number.isSafeInteger(delta)) {
+    throw new KeppoError(
+      KeppoErrorCode.UnsafeInteger,
+      `Expected ${componentName} delta to be a safe integer but got "${to - from}".`,
+      componentName
+    )
+  }
+
+  return delta
+}
+
+function canIncrease(
+  component: bigint,
+  value: number | bigint,
+  isBigInt: boolean
+): boolean {
+  if (isBigInt) {
+    return isValidComponent(value, true)
+  }
+
+  if (typeof value === 'bigint') {
+    return component + value <= MAX_SAFE_INTEGER
+  }
+
+  return Number.isSafeInteger(Number(component) + value)
+}
+
+function maxIncrease(component: bigint, isBigInt: boolean): number {
+  if (isBigInt) {
+    return Number.POSITIVE_INFINITY
+  }
+
+  return Number.MAX_SAFE_INTEGER - Number(component)
+}
+
+function nextPrerelease(label: string, identifier?: string): string {
+  if (typeof identifier !== 'undefined' && typeof identifier !== 'string') {
+    throw new KeppoError(
+      KeppoErrorCode.InvalidType,
+      `Expected a valid identifier type but got "${typeof identifier}".`,
+      'label'
+    )
+  }
+
+  const base: string = identifier ? `${identifier}.0` : '0'
+
+  if (!label) {
+    return base
+  }
+
+  const identifiers: string[] = label.split('.')
+  let index: number = identifiers.length - 1
+
+  while (index >= 0 && !REGEXP_COMPONENT.test(identifiers[index])) {
+    index--
+  }
+
+  if (index > -1) {
+    identifiers[index] = (BigInt(identifiers[index]) + 1n).toString()
+  } else {
+    identifiers.push('0')
+  }
+
+  // start a new pre-release line if the identifier changed
+  if (
+    identifier &&
+    (identifiers[0] !== identifier || !REGEXP_COMPONENT.test(identifiers[1]))
+  ) {
+    return base
+  }
+
+  return identifiers.join('.')
+}
+
+function formatLabel(label: string): string {
+  if (!label) {
+    return ''
+  }
+
+  return `-${label}`
+}
+
+function compareIdentifiers(a: string, b: string): KeppoComparison {
+  const isNumericA: boolean = REGEXP_COMPONENT.test(a)
+  const isNumericB: boolean = REGEXP_COMPONENT.test(b)
+
+  // numeric identifiers always have lower precedence than alphanumeric ones
+  if (isNumericA && !isNumericB) {
+    return KeppoComparison.Older
+  } else if (!isNumericA && isNumericB) {
+    return KeppoComparison.Newer
+  }
+
+  if (isNumericA && isNumericB) {
+    const numericA: bigint = BigInt(a)
+    const numericB: bigint = BigInt(b)
+
+    if (numericA > numericB) {
+      return KeppoComparison.Newer
+    } else if (numericA < numericB) {
+      return KeppoComparison.Older
+    }
+
+    return KeppoComparison.Current
+  }
+
+  // plain code unit comparison, i.e. ASCII sort order
+  if (a > b) {
+    return KeppoComparison.Newer
+  } else if (a < b) {
+    return KeppoComparison.Older
+  }
+
+  return KeppoComparison.Current
+}
+
+function compareIdentifierLists(a: string, b: string): KeppoComparison {
+  const identifiersA: string[] = a.split('.')
+  const identifiersB: string[] = b.split('.')
+  const count: number = Math.min(identifiersA.length, identifiersB.length)
+
+  for (let i = 0; i < count; i++) {
+    const result: KeppoComparison = compareIdentifiers(
+      identifiersA[i],
+      identifiersB[i]
+    )
+
+    if (result !== KeppoComparison.Current) {
+      return result
+    }
+  }
+
+  // a larger set of fields has higher precedence
+  if (identifiersA.length > identifiersB.length) {
+    return KeppoComparison.Newer
+  } else if (identifiersA.length < identifiersB.length) {
+    return KeppoComparison.Older
+  }
+
+  return KeppoComparison.Current
+}
+
+function comparePrerelease(
+  a: string,
+  b: string,
+  channels: KeppoChannels | null = null
+): KeppoComparison {
+  if (a === b) {
+    return KeppoComparison.Current
+  }
+
+  // a version without a pre-release label has higher precedence
+  if (!a) {
+    return KeppoComparison.Newer
+  } else if (!b) {
+    return KeppoComparison.Older
+  }
+
+  // labels of different channels go by the channel order, labels outside the channels
+  // sort before all of them, so the order stays transitive, and among themselves by SemVer rules
+  const indexA: number = channels?.indexOf(a) ?? -1
+  const indexB: number = channels?.indexOf(b) ?? -1
+
+  if (indexA !== indexB) {
+    return Math.sign(indexA - indexB)
+  }
+
+  return compareIdentifierLists(a, b)
+}
+
+function compareBuild(a: string, b: string): KeppoComparison {
+  if (a === b) {
+    return KeppoComparison.Current
+  }
+
+  // unlike pre-release labels, no build metadata sorts first
+  if (!a) {
+    return KeppoComparison.Older
+  } else if (!b) {
+    return KeppoComparison.Newer
+  }
+
+  return compareIdentifierLists(a, b)
+}
+
+function formatBuild(build: string): string {
+  if (!build) {
+    return ''
+  }
+
+  return `+${build}`
+}
+
+function decreaseComponent(
+  component: bigint,
+  value: bigint,
+  componentName: KeppoComponent
+): bigint {
+  if (typeof component !== 'bigint' || typeof value !== 'bigint') {
+    throw new KeppoError(
+      KeppoErrorCode.InvalidType,
+      'Expected both parameters to be bigints.',
+      componentName
+    )
+  }
+
+  const result: bigint = component - value
+
+  if (result < 0n) {
+    throw new KeppoError(
+      KeppoErrorCode.NegativeComponent,
+      `Expected ${componentName} version number to be positive but got "${result}".`,
+      componentName
+    )
+  }
+
+  return result
+}
+
+function isValidVersion(version: string, isStrict = true): boolean {
+  if (strictMode(isStrict)) {
+    return REGEXP_SEMVER_STRICT.test(version)
+  } else {
+    return REGEXP_SEMVER.test(version)
+  }
+}
+
+function isKeppoObject(value: unknown): value is KeppoObject {
+  if (typeof value !== 'object' || value === null) {
+    return false
+  }
+
+  const object: Record<string, unknown> = value as Record<string, unknown>
+
+  return (
+    ['major', 'minor', 'patch'].every((key: string) =>
+      ['number', 'bigint'].includes(typeof object[key])
+    ) &&
+    typeof object.prerelease === 'string' &&
+    typeof object.build === 'string' &&
+    typeof object.strict === 'boolean'
+  )
+}
+
+function strictMode(isStrict: boolean = true): boolean {
+  if (typeof isStrict !== 'boolean') {
+    return true
+  } else {
+    return isStrict
+  }
+}
+
+interface PartialVersion {
+  major: bigint | null
+  minor: bigint | null
+  patch: bigint | null
+  label: string
+}
+
+function comparator(
+  operator: KeppoRangeOperator,
+  major: bigint,
+  minor: bigint,
+  patch: bigint,
+  label: string = ''
+): KeppoComparator {
+  return { operator, version: rangeVersion(major, minor, patch, label) }
+}
+
+function formatComparator(comparator: KeppoComparator): string {
+  return `${comparator.operator === '=' ? '' : comparator.operator}${comparator.version.toString()}`
+}
+
+function anyComparator(includePrerelease: boolean): KeppoComparator {
+  return comparator('>=', 0n, 0n, 0n, includePrerelease ? '0' : '')
+}
+
+function partialComponent(component: string | undefined): bigint | null {
+  if (typeof component === 'undefined' || REGEXP_X.test(component)) {
+    return null
+  }
+
+  return BigInt(component)
+}
+
+function parsePartial(value: string, range: string): PartialVersion {
+  const match: RegExpExecArray | null = REGEXP_COMPARATOR.exec(value)
+
+  if (!match || match[1]) {
+    throw new KeppoError(
+      KeppoErrorCode.InvalidRange,
+      `Expected a valid range but got "${range}".`
+    )
+  }
+
+  return toPartialVersion(match)
+}
+
+function toPartialVersion(match: RegExpExecArray): PartialVersion {
+  const major: bigint | null = partialComponent(match[2])
+  const minor: bigint | null =
+    major === null ? null : partialComponent(match[3])
+  const patch: bigint | null =
+    minor === null ? null : partialComponent(match[4])
+
+  return {
+    major,
+    minor,
+    patch,
+    label: patch === null ? '' : (match[5] ?? '')
+  }
+}
+
+function parseComparatorSet(
+  set: string,
+  includePrerelease: boolean
+): KeppoComparator[] {
+  const range: string = set.trim().replace(REGEXP_OPERATOR_SPACE, '$1')
+
+  if (range.length === 0) {
+    return [anyComparator(includePrerelease)]
+  }
+
+  const hyphen: RegExpExecArray | null = REGEXP_HYPHEN.exec(range)
+
+  if (hyphen) {
+    return hyphenRange(
+      parsePartial(hyphen[1], set),
+      parsePartial(hyphen[2], set),
+      includePrerelease
+    )
+  }
+
+  return range.split(REGEXP_WHITESPACE).flatMap((part: string) => {
+    const match: RegExpExecArray | null = REGEXP_COMPARATOR.exec(part)
+
+    if (!match) {
+      throw new KeppoError(
+        KeppoErrorCode.InvalidRange,
+        `Expected a valid range but got "${set}".`
+      )
+    }
+
+    return desugarComparator(
+      match[1] ?? '',
+      toPartialVersion(match),
+      includePrerelease
+    )
+  })
+}
+
+function desugarComparator(
+  operator: string,
+  partial: PartialVersion,
+  includePrerelease: boolean
+): KeppoComparator[] {
+  if (operator === '^') {
+    return caretRange(partial, includePrerelease)
+  }
+
+  if (operator === '~' || operator === '~>') {
+    return tildeRange(partial, includePrerelease)
+  }
+
+  return xRange(operator, partial, includePrerelease)
+}
+
+function caretRange(
+  partial: PartialVersion,
+  includePrerelease: boolean
+): KeppoComparator[] {
+  const { major, minor, patch, label } = partial
+  const floor: string = includePrerelease ? '0' : ''
+
+  if (major === null) {
+    return [anyComparator(includePrerelease)]
+  }
+
+  if (minor === null) {
+    return [
+      comparator('>=', major, 0n, 0n, floor),
+      comparator('<', major + 1n, 0n, 0n, '0')
+    ]
+  }
+
+  if (patch === null) {
+    return [
+      comparator('>=', major, minor, 0n, floor),
+      major === 0n
+        ? comparator('<', major, minor + 1n, 0n, '0')
+        : comparator('<', major + 1n, 0n, 0n, '0')
+    ]
+  }
+
+  const lower: KeppoComparator = comparator('>=', major, minor, patch, label)
+
+  // the left-most non-zero component must not change
+  if (major > 0n) {
+    return [lower, comparator('<', major + 1n, 0n, 0n, '0')]
+  } else if (minor > 0n) {
+    return [lower, comparator('<', 0n, minor + 1n, 0n, '0')]
+  }
+
+  return [lower, comparator('<', 0n, 0n, patch + 1n, '0')]
+}
+
+function tildeRange(
+  partial: PartialVersion,
+  includePrerelease: boolean
+): KeppoComparator[] {
+  const { major, minor, patch, label } = partial
+  const floor: string = includePrerelease ? '0' : ''
+
+  if (major === null) {
+    return [anyComparator(includePrerelease)]
+  }
+
+  if (minor === null) {
+    return [
+      comparator('>=', major, 0n, 0n, floor),
+      comparator('<', major + 1n, 0n, 0n, '0')
+    ]
+  }
+
+  return [
+    comparator('>=', major, minor, patch ?? 0n, patch === null ? floor : label),
+    comparator('<', major, minor + 1n, 0n, '0')
+  ]
+}
+
+function xRange(
+  operator: string,
+  partial: PartialVersion,
+  includePrerelease: boolean
+): KeppoComparator[] {
+  const { major, minor, patch } = partial
+  const floor: string = includePrerelease ? '0' : ''
+
+  if (major === null) {
+    if (operator === '<' || operator === '>') {
+      // nothing is allowed
+      return [comparator('<', 0n, 0n, 0n, '0')]
+    }
+
+    return [anyComparator(includePrerelease)]
+  }
+
+  if (minor !== null && patch !== null) {
+    return [
+      comparator(
+        (operator || '=') as KeppoRangeOperator,
+        major,
+        minor,
+        patch,
+        partial.label
+      )
+    ]
+  }
+
+  if (operator === '' || operator === '=') {
+    if (minor === null) {
+      return [
+        comparator('>=', major, 0n, 0n, floor),
+        comparator('<', major + 1n, 0n, 0n, '0')
+      ]
+    }
+
+    return [
+      comparator('>=', major, minor, 0n, floor),
+      comparator('<', major, minor + 1n, 0n, '0')
+    ]
+  }
+
+  return [xRangeBound(operator, major, minor, floor)]
+}
+
+function xRangeBound(
+  operator: string,
+  major: bigint,
+  minor: bigint | null,
+  floor: string
+): KeppoComparator {
+  const isMinorX: boolean = minor === null
+  let bound: bigint = minor ?? 0n
+
+  if (operator === '>') {
+    // >1 => >=2.0.0, >1.2 => >=1.3.0
+    operator = '>='
+
+    if (isMinorX) {
+      major++
+      bound = 0n
+    } else {
+      bound++
+    }
+  } else if (operator === '<=') {
+    // <=0.7.x => <0.8.0-0, <=0.x => <1.0.0-0
+    operator = '<'
+
+    if (isMinorX) {
+      major++
+    } else {
+      bound++
+    }
+  }
+
+  return comparator(
+    operator as KeppoRangeOperator,
+    major,
+    bound,
+    0n,
+    operator === '<' ? '0' : floor
+  )
+}
+
+function hyphenRange(
+  from: PartialVersion,
+  to: PartialVersion,
+  includePrerelease: boolean
+): KeppoComparator[] {
+  const floor: string = includePrerelease ? '0' : ''
+  const comparators: KeppoComparator[] = []
+
+  if (from.major !== null) {
+    comparators.push(
+      comparator(
+        '>=',
+        from.major,
+        from.minor ?? 0n,
+        from.patch ?? 0n,
+        from.label || floor
+      )
+    )
+  }
+
+  if (to.major !== null) {
+    comparators.push(hyphenUpperBound(to, includePrerelease))
+  }
+
+  if (comparators.length === 0) {
+    comparators.push(anyComparator(includePrerelease))
+  }
+
+  return comparators
+}
+
+function hyphenUpperBound(
+  to: PartialVersion,
+  includePrerelease: boolean
+): KeppoComparator {
+  const major: bigint = to.major ?? 0n
+
+  if (to.minor === null) {
+    return comparator('<', major + 1n, 0n, 0n, '0')
+  }
+
+  if (to.patch === null) {
+    return comparator('<', major, to.minor + 1n, 0n, '0')
+  }
+
+  if (to.label) {
+    return comparator('<=', major, to.minor, to.patch, to.label)
+  }
+
+  if (includePrerelease) {
+    return comparator('<', major, to.minor, to.patch + 1n, '0')
+  }
+
+  return comparator('<=', major, to.minor, to.patch)
+}
+
+function testComparator(
+  comparator: KeppoComparator,
+  version: Keppo,
+  channels: KeppoChannels | null
+): boolean {
+  const result: KeppoComparison =
+    channels === null
+      ? version.compareWith(comparator.version)
+      : channels.compare(version, comparator.version)
+
+  switch (comparator.operator) {
+    case '<':
+      return result === KeppoComparison.Older
+    case '<=':
+      return result !== KeppoComparison.Newer
+    case '>':
+      return result === KeppoComparison.Newer
+    case '>=':
+      return result !== KeppoComparison.Older
+    default:
+      return result === KeppoComparison.Current
+  }
+}
+
+function testComparatorSet(
+  set: KeppoComparator[],
+  version: Keppo,
+  includePrerelease: boolean,
+  channels: KeppoChannels | null = null
+): boolean {
+  if (
+    !set.every((comparator) => testComparator(comparator, version, channels))
+  ) {
+    return false
+  }
+
+  if (!version.getLabel() || includePrerelease) {
+    return true
+  }
+
+  // a pre-release version only satisfies a set when one of its comparators
+  // is a pre-release of the same [major, minor, patch] tuple
+  return set.some(
+    ({ version: bound }) =>
+      bound.getLabel() !== '' &&
+      bound.getBigMajor() === version.getBigMajor() &&
+      bound.getBigMinor() === version.getBigMinor() &&
+      bound.getBigPatch() === version.getBigPatch()
+  )
+}
+
+/**
+ * One end of a range interval, `null` stands for an unbounded end.
+ */
+interface RangeBound {
+  version: Keppo
+  inclusive: boolean
+}
+
+/**
+ * A comparator set as an interval of versions, plus the `[major, minor, patch]` tuples
+ * whose pre-release versions it accepts, `null` when it accepts all of them.
+ */
+interface RangeInterval {
+  lower: RangeBound | null
+  upper: RangeBound | null
+  prereleases: Set<string> | null
+}
+
+/**
+ * The versions of an interval walked at once: releases only, all versions
+ * or the pre-release versions of a single release.
+ */
+type RangeDomain = 'release' | 'all' | Keppo
+
+function rangeVersion(
+  major: bigint,
+  minor: bigint,
+  patch: bigint,
+  label: string = ''
+): Keppo {
+  return new Keppo(0, 0, 0)
+    .setBigInt(
+      [major, minor, patch].some(
+        (component: bigint) => component > MAX_SAFE_INTEGER
+      )
+    )
+    .setMajor(major)
+    .setMinor(minor)
+    .setPatch(patch)
+    .setLabel(label)
+}
+
+function releaseOf(version: Keppo): Keppo {
+  return rangeVersion(
+    version.getBigMajor(),
+    version.getBigMinor(),
+    version.getBigPatch()
+  )
+}
+
+function nextPatch(version: Keppo, label: string = ''): Keppo {
+  return rangeVersion(
+    version.getBigMajor(),
+    version.getBigMinor(),
+    version.getBigPatch() + 1n,
+    label
+  )
+}
+
+function tupleKey(version: Keppo): string {
+  return `${version.getBigMajor()}.${version.getBigMinor()}.${version.getBigPatch()}`
+}
+
+function toInterval(
+  set: KeppoComparator[],
+  includePrerelease: boolean
+): RangeInterval {
+  let lower: RangeBound | null = null
+  let upper: RangeBound | null = null
+
+  for (const { operator, version } of set) {
+    if (operator !== '<' && operator !== '<=') {
+      lower = tighterLower(lower, { version, inclusive: operator !== '>' })
+    }
+
+    if (operator !== '>' && operator !== '>=') {
+      upper = tighterUpper(upper, { version, inclusive: operator !== '<' })
+    }
   }
 
-  if (typeof component === 'number') {
-    if (component < 0 || !Number.isSafeInteger(component)) {
-      throw new RangeError(
-        `Expected a safe integer value but got ${component}.`
-      )
+  return {
+    lower,
+    upper,
+    prereleases: includePrerelease
+      ? null
+      : new Set(
+          set
+            .filter(({ version }) => version.getLabel() !== '')
+            .map(({ version }) => tupleKey(version))
+        )
+  }
+}
+
+function tighterLower(
+  a: RangeBound | null,
+  b: RangeBound | null
+): RangeBound | null {
+  if (a === null || b === null) {
+    return a ?? b
+  }
+
+  const result: KeppoComparison = a.version.compareWith(b.version)
+
+  if (result !== KeppoComparison.Current) {
+    return result === KeppoComparison.Newer ? a : b
+  }
+
+  return a.inclusive ? b : a
+}
+
+function tighterUpper(
+  a: RangeBound | null,
+  b: RangeBound | null
+): RangeBound | null {
+  if (a === null || b === null) {
+    return a ?? b
+  }
+
+  const result: KeppoComparison = a.version.compareWith(b.version)
+
+  if (result !== KeppoComparison.Current) {
+    return result === KeppoComparison.Older ? a : b
+  }
+
+  return a.inclusive ? b : a
+}
+
+function looserUpper(
+  a: RangeBound | null,
+  b: RangeBound | null
+): RangeBound | null {
+  if (a === null || b === null) {
+    return null
+  }
+
+  return tighterUpper(a, b) === a ? b : a
+}
+
+function mergeIntervals(a: RangeInterval, b: RangeInterval): RangeInterval {
+  let prereleases: Set<string> | null = a.prereleases ?? b.prereleases
+
+  if (a.prereleases !== null && b.prereleases !== null) {
+    const other: Set<string> = b.prereleases
+
+    prereleases = new Set(
+      [...a.prereleases].filter((key: string) => other.has(key))
+    )
+  }
+
+  return {
+    lower: tighterLower(a.lower, b.lower),
+    upper: tighterUpper(a.upper, b.upper),
+    prereleases
+  }
+}
+
+function isAboveLower(version: Keppo, lower: RangeBound | null): boolean {
+  if (lower === null) {
+    return true
+  }
+
+  const result: KeppoComparison = version.compareWith(lower.version)
+
+  return (
+    result === KeppoComparison.Newer ||
+    (result === KeppoComparison.Current && lower.inclusive)
+  )
+}
+
+function isBelowUpper(version: Keppo, upper: RangeBound | null): boolean {
+  if (upper === null) {
+    return true
+  }
+
+  const result: KeppoComparison = version.compareWith(upper.version)
+
+  return (
+    result === KeppoComparison.Older ||
+    (result === KeppoComparison.Current && upper.inclusive)
+  )
+}
+
+function isInInterval(version: Keppo, interval: RangeInterval): boolean {
+  return (
+    isAboveLower(version, interval.lower) &&
+    isBelowUpper(version, interval.upper) &&
+    (version.getLabel() === '' ||
+      interval.prereleases === null ||
+      interval.prereleases.has(tupleKey(version)))
+  )
+}
+
+/**
+ * Finds the lowest version of the domain that is above the bound.
+ */
+function nextInDomain(
+  bound: RangeBound | null,
+  domain: RangeDomain
+): Keppo | null {
+  const zero: Keppo = rangeVersion(0n, 0n, 0n)
+
+  if (domain === 'release') {
+    if (bound === null) {
+      return zero
     }
 
-    return component
-  } else if (typeof component === 'string') {
-    if (!REGEXP_COMPONENT.test(component.toString())) {
-      throw new RangeError(
-        `Expected a valid SemVer version but got "${component}".`
-      )
+    if (bound.version.getLabel() !== '') {
+      return releaseOf(bound.version)
     }
 
-    return +component
-  } else {
-    throw new TypeError(
-      `Expected a argument of either String or Number type but got ${typeof component}.`
+    return bound.inclusive ? bound.version : nextPatch(bound.version)
+  }
+
+  if (domain === 'all') {
+    return nextVersion(
+      bound ?? { version: zero.setLabel('0'), inclusive: true }
     )
   }
+
+  return nextInRelease(bound, domain)
 }
 
-function formatLabel(label: string): string {
-  if (!label) {
-    return ''
+/**
+ * Finds the lowest version above the bound, the successor of `1.2.3` is `1.2.4-0`, of `1.2.3-rc` it's `1.2.3-rc.0`.
+ */
+function nextVersion(bound: RangeBound): Keppo {
+  const { version, inclusive } = bound
+
+  if (inclusive) {
+    return version
   }
 
-  return `-${label}`
+  const label: string = version.getLabel()
+
+  return label === ''
+    ? nextPatch(version, '0')
+    : releaseOf(version).setLabel(`${label}.0`)
 }
 
-function decreaseComponent(
-  component: number,
-  value: number,
-  componentName: string
-): number {
-  if (typeof component !== 'number' || typeof value !== 'number') {
-    throw new TypeError('Expected both parameters to be numbers.')
+function nextInRelease(bound: RangeBound | null, release: Keppo): Keppo | null {
+  const first: Keppo = releaseOf(release).setLabel('0')
+
+  if (
+    bound === null ||
+    bound.version.compareWith(first) === KeppoComparison.Older
+  ) {
+    return first
+  }
+
+  if (bound.version.compareWith(release) !== KeppoComparison.Older) {
+    return null
   }
 
-  const result: number = component - value
+  return nextVersion(bound)
+}
+
+function firstInInterval(
+  interval: RangeInterval,
+  domain: RangeDomain,
+  from: RangeBound | null = null
+): Keppo | null {
+  const version: Keppo | null = nextInDomain(
+    tighterLower(interval.lower, from),
+    domain
+  )
+
+  return version !== null && isBelowUpper(version, interval.upper)
+    ? version
+    : null
+}
+
+function intervalDomains(interval: RangeInterval): RangeDomain[] {
+  if (interval.prereleases === null) {
+    return ['all']
+  }
 
-  if (result < 0) {
-    throw new RangeError(
-      `Expected ${componentName} version number to be positive but got "${result}".`
+  return [
+    'release',
+    ...[...interval.prereleases].map((key: string) =>
+      Keppo.from(key, { bigint: true })
     )
+  ]
+}
+
+function minInInterval(interval: RangeInterval): Keppo | null {
+  return pickVersion(
+    intervalDomains(interval)
+      .map((domain: RangeDomain) => firstInInterval(interval, domain))
+      .filter((version: Keppo | null) => version !== null),
+    KeppoComparison.Older
+  )
+}
+
+/**
+ * Finds how far an interval that contains the version keeps containing every following version of the domain.
+ */
+function coveredUntil(
+  interval: RangeInterval,
+  version: Keppo,
+  domain: RangeDomain
+): RangeBound | null {
+  const prereleases: Set<string> | null = interval.prereleases
+
+  if (prereleases === null || domain !== 'all') {
+    return interval.upper
+  }
+
+  // walk the releases whose following pre-releases are accepted as well
+  let release: Keppo = releaseOf(version)
+
+  while (prereleases.has(tupleKey(nextPatch(release)))) {
+    release = nextPatch(release)
+  }
+
+  return tighterUpper(interval.upper, { version: release, inclusive: true })
+}
+
+function coversDomain(
+  interval: RangeInterval,
+  container: RangeInterval[],
+  domain: RangeDomain
+): boolean {
+  let version: Keppo | null = firstInInterval(interval, domain)
+
+  while (version !== null) {
+    const current: Keppo = version
+    let reach: RangeBound | null | undefined
+
+    for (const other of container) {
+      if (isInInterval(current, other)) {
+        const until: RangeBound | null = coveredUntil(other, current, domain)
+
+        reach = typeof reach === 'undefined' ? until : looserUpper(reach, until)
+      }
+    }
+
+    if (typeof reach === 'undefined') {
+      return false
+    }
+
+    if (reach === null) {
+      return true
+    }
+
+    version = firstInInterval(interval, domain, {
+      version: reach.version,
+      inclusive: !reach.inclusive
+    })
+  }
+
+  return true
+}
+
+function coversInterval(
+  interval: RangeInterval,
+  container: RangeInterval[]
+): boolean {
+  return intervalDomains(interval).every((domain: RangeDomain) =>
+    coversDomain(interval, container, domain)
+  )
+}
+
+function looserLower(
+  a: RangeBound | null,
+  b: RangeBound | null
+): RangeBound | null {
+  if (a === null || b === null) {
+    return null
+  }
+
+  return tighterLower(a, b) === a ? b : a
+}
+
+/**
+ * Creates the smallest interval that contains both intervals, it may contain versions neither of them does.
+ */
+function hullInterval(a: RangeInterval, b: RangeInterval): RangeInterval {
+  return {
+    lower: looserLower(a.lower, b.lower),
+    upper: looserUpper(a.upper, b.upper),
+    prereleases:
+      a.prereleases === null || b.prereleases === null
+        ? null
+        : new Set([...acceptedTuples(a), ...acceptedTuples(b)])
+  }
+}
+
+/**
+ * Gets the tuples whose pre-release versions the interval actually contains,
+ * e.g. the `2.0.0` tuple of `<2.0.0-0` is dropped.
+ */
+function acceptedTuples(interval: RangeInterval): string[] {
+  return [...(interval.prereleases ?? [])].filter(
+    (key: string) =>
+      firstInInterval(interval, Keppo.from(key, { bigint: true })) !== null
+  )
+}
+
+/**
+ * Merges the intervals that overlap or touch, i.e. whose hull contains no other versions, and drops the empty ones.
+ *
+ * Only the pre-release tuples of its bounds survive formatting, so two intervals are merged only when
+ * the formatted hull accepts exactly the versions of both, e.g. `>=1.2.3 <2.0.0-0` and `>=2.0.0-0` stay apart.
+ */
+function unionIntervals(intervals: RangeInterval[]): RangeInterval[] {
+  const result: RangeInterval[] = intervals.filter(
+    (interval: RangeInterval) => minInInterval(interval) !== null
+  )
+
+  for (let i: number = 0; i < result.length; i++) {
+    for (let j: number = i + 1; j < result.length; j++) {
+      const pair: RangeInterval[] = [result[i], result[j]]
+      const hull: RangeInterval = formattedInterval(
+        hullInterval(result[i], result[j])
+      )
+
+      if (
+        coversInterval(hull, pair) &&
+        pair.every((interval: RangeInterval) =>
+          coversInterval(interval, [hull])
+        )
+      ) {
+        result[i] = hull
+        result.splice(j, 1)
+        // the hull may reach intervals that were checked already
+        j = i
+      }
+    }
   }
 
   return result
 }
 
-function isValidVersion(version: string, isStrict = true): boolean {
-  if (strictMode(isStrict)) {
-    return REGEXP_SEMVER_STRICT.test(version)
-  } else {
-    return REGEXP_SEMVER.test(version)
+function isRejectedBound(
+  bound: RangeBound,
+  prereleases: Set<string> | null
+): boolean {
+  return (
+    prereleases !== null &&
+    bound.version.getLabel() !== '' &&
+    !prereleases.has(tupleKey(bound.version))
+  )
+}
+
+/**
+ * Gets the bounds an interval is formatted with, pre-release bounds of releases whose pre-releases are not accepted become release bounds.
+ */
+function formattedBounds(
+  interval: RangeInterval
+): Pick<RangeInterval, 'lower' | 'upper'> {
+  let { lower, upper } = interval
+
+  // pre-release bounds of releases whose pre-releases are not accepted
+  if (lower !== null && isRejectedBound(lower, interval.prereleases)) {
+    lower = { version: releaseOf(lower.version), inclusive: true }
+  }
+
+  if (upper !== null && isRejectedBound(upper, interval.prereleases)) {
+    upper = {
+      version: releaseOf(upper.version).setLabel('0'),
+      inclusive: false
+    }
   }
+
+  return { lower, upper }
 }
 
-function strictMode(isStrict: boolean = true): boolean {
-  if (typeof isStrict !== 'boolean') {
-    return true
-  } else {
-    return isStrict
+/**
+ * Creates the interval that the formatted interval parses to, it accepts only the pre-release tuples of its bounds.
+ */
+function formattedInterval(interval: RangeInterval): RangeInterval {
+  const { lower, upper } = formattedBounds(interval)
+  const prereleases: Set<string> = new Set()
+
+  for (const bound of [lower, upper]) {
+    if (bound !== null && bound.version.getLabel() !== '') {
+      prereleases.add(tupleKey(bound.version))
+    }
+  }
+
+  return {
+    lower,
+    upper,
+    prereleases: interval.prereleases === null ? null : prereleases
+  }
+}
+
+function formatInterval(interval: RangeInterval): string {
+  const { lower, upper } = formattedBounds(interval)
+
+  if (
+    lower !== null &&
+    upper !== null &&
+    lower.inclusive &&
+    upper.inclusive &&
+    lower.version.compareWith(upper.version) === KeppoComparison.Current
+  ) {
+    return lower.version.toString()
+  }
+
+  const parts: string[] = []
+
+  if (lower !== null) {
+    parts.push(`${lower.inclusive ? '>=' : '>'}${lower.version}`)
+  }
+
+  if (upper !== null) {
+    parts.push(`${upper.inclusive ? '<=' : '<'}${upper.version}`)
+  }
+
+  return parts.length === 0 ? '*' : parts.join(' ')
+}
+
+function simplifiedRuns(range: KeppoRange, list: Keppo[]): string[] {
+  const runs: string[] = []
+  let first: Keppo | null = null
+  let previous: Keppo | null = null
+
+  const close = (last: Keppo | null): void => {
+    if (first === null) {
+      return
+    }
+
+    const isFirst: boolean = first === list[0]
+
+    if (first === last) {
+      runs.push(first.toString())
+    } else if (last === null) {
+      runs.push(isFirst ? '*' : `>=${first}`)
+    } else {
+      runs.push(isFirst ? `<=${last}` : `${first} - ${last}`)
+    }
+  }
+
+  for (const version of list) {
+    if (range.test(version)) {
+      first ??= version
+      previous = version
+    } else {
+      close(previous)
+      first = null
+      previous = null
+    }
+  }
+
+  close(null)
+
+  return runs.length === 0 ? ['<0.0.0-0'] : runs
+}
+
+/**
+ * Everything a recorded call can change, restored as a whole by undo, redo and checkpoints.
+ */
+interface VersionState {
+  major: bigint
+  minor: bigint
+  patch: bigint
+  strict: boolean
+  bigint: boolean
+  label: string
+  build: string
+}
+
+interface HistoryStep {
+  before: VersionState
+  after: VersionState
+}
+
+interface HistoryState {
+  entries: KeppoHistoryEntry[]
+  undo: HistoryStep[]
+  redo: HistoryStep[]
+  checkpoints: Map<string, VersionState>
+}
+
+function isSameState(a: VersionState, b: VersionState): boolean {
+  return (Object.keys(a) as (keyof VersionState)[]).every(
+    (key: keyof VersionState) => a[key] === b[key]
+  )
+}
+
+function isDefined<T>(value: T | undefined): value is T {
+  return typeof value !== 'undefined'
+}
+
+function historyArgument(
+  value: string | number | bigint | boolean
+): KeppoHistoryArgument {
+  return typeof value === 'bigint' ? value.toString() : value
+}
+
+function assertEvent(event: string, listener: unknown): void {
+  if (event !== 'change') {
+    throw new KeppoError(
+      KeppoErrorCode.InvalidType,
+      `Expected the "change" event but got "${event}".`
+    )
+  }
+
+  if (typeof listener !== 'function') {
+    throw new KeppoError(
+      KeppoErrorCode.InvalidType,
+      `Expected a function but got "${typeof listener}".`
+    )
+  }
+}
+
+function toChannel(channel: string | KeppoChannel): Required<KeppoChannel> {
+  const definition: KeppoChannel =
+    typeof channel === 'string' ? { name: channel } : channel
+
+  if (typeof definition !== 'object' || definition === null) {
+    throw new KeppoError(
+      KeppoErrorCode.InvalidType,
+      `Expected a channel name or object but got "${typeof channel}".`
+    )
+  }
+
+  const { name, numbered = true, start = 0 } = definition
+
+  if (
+    typeof name !== 'string' ||
+    !REGEXP_CHANNEL.test(name) ||
+    REGEXP_COMPONENT.test(name) ||
+    name === 'stable'
+  ) {
+    throw new KeppoError(
+      KeppoErrorCode.InvalidLabel,
+      `Expected a valid channel name but got "${name}".`,
+      'label'
+    )
+  }
+
+  if (!Number.isSafeInteger(start) || start < 0) {
+    throw new KeppoError(
+      KeppoErrorCode.InvalidLabel,
+      `Expected a valid start number of the "${name}" channel but got "${start}".`,
+      'label'
+    )
+  }
+
+  return { name, numbered: numbered === true, start }
+}
+
+function unknownChannel(channels: KeppoChannels, label: string): KeppoError {
+  const names: string = channels
+    .list()
+    .map((channel: Required<KeppoChannel>) => channel.name)
+    .join(', ')
+
+  return new KeppoError(
+    KeppoErrorCode.UnknownChannel,
+    `Expected a label of the channels ${names} but got "${label}".`,
+    'label'
+  )
+}
+
+function assertChannelLabel(
+  channels: KeppoChannels | null,
+  label: string
+): void {
+  if (channels !== null && label !== '' && !channels.isValidLabel(label)) {
+    throw unknownChannel(channels, label)
+  }
+}
+
+/**
+ * Gets the label of a valid version string, without the build metadata.
+ */
+function labelOf(version: string): string {
+  const release: string = version.split('+')[0]
+  const index: number = release.indexOf('-')
+
+  return index > -1 ? release.substring(index + 1) : ''
+}
+
+function compareCore(a: Keppo, b: Keppo): KeppoComparison {
+  const pairs: [bigint, bigint][] = [
+    [a.getBigMajor(), b.getBigMajor()],
+    [a.getBigMinor(), b.getBigMinor()],
+    [a.getBigPatch(), b.getBigPatch()]
+  ]
+
+  for (const [left, right] of pairs) {
+    if (left !== right) {
+      return left > right ? KeppoComparison.Newer : KeppoComparison.Older
+    }
   }
+
+  return KeppoComparison.Current
 }
@@ -0,0 +1,751 @@
+import type { Dirent, Stats } from 'node:fs'
+import { readdir, readFile, stat, writeFile } from 'node:fs/promises'
+import { basename, dirname, join, relative, sep } from 'node:path'
+import {
+  Keppo,
+  KeppoError,
+  KeppoErrorCode,
+  type KeppoReleaseType
+} from './index.js'
+
+const REGEXP_GLOB_SPECIAL: RegExp = /[.+?^${}()|[\]\\]/g
+const REGEXP_GLOB_STAR: RegExp = /\*/g
+const REGEXP_YAML_KEY: RegExp = /^(\S[^:]*):/
+const REGEXP_YAML_ITEM: RegExp = /^\s+-\s*(.+?)\s*$/
+const REGEXP_YAML_QUOTES: RegExp = /^(['"])(.*)\1$/
+const REGEXP_LINE: RegExp = /\r?\n/
+const REGEXP_LITERAL_END: RegExp = /[\s,\]}]/
+const REGEXP_V_PREFIX: RegExp = /^v/
+const REGEXP_TRAILING_COMMA: RegExp = /,\s*[\]}]/y
+const REGEXP_DEPENDENCY_RANGE: RegExp =
+  /^(workspace:)?(\^|~|>=|=)?v?\d+\.\d+\.\d+(?:-[0-9A-Za-z.-]+)?$/
+
+const MANIFEST: string = 'package.json'
+const SIBLING_MANIFESTS: string[] = ['jsr.json', 'deno.json', 'deno.jsonc']
+const LOCKFILES: string[] = ['package-lock.json', 'npm-shrinkwrap.json']
+const PNPM_WORKSPACE: string = 'pnpm-workspace.yaml'
+const DEPENDENCY_FIELDS: string[] = [
+  'dependencies',
+  'devDependencies',
+  'peerDependencies',
+  'optionalDependencies'
+]
+
+/**
+ * Options for `bumpManifest()`.
+ */
+export interface KeppoManifestOptions {
+  /**
+   * Optional pre-release identifier for pre-release bumps (e.g. `'alpha'`, `'rc'`).
+   */
+  identifier?: string
+  /**
+   * Whether to bump every package of the npm/pnpm workspace as well (default: `false`),
+   * the ranges workspace packages depend on each other with follow the new versions.
+   */
+  workspaces?: boolean
+}
+
+/**
+ * A single bumped package, reported by `bumpManifest()`.
+ */
+export interface KeppoManifestChange {
+  /**
+   * The package name, `null` if the manifest has none.
+   */
+  name: string | null
+  /**
+   * The path of the package manifest.
+   */
+  path: string
+  previous: string
+  version: string
+}
+
+/**
+ * The result of `bumpManifest()`.
+ */
+export interface KeppoManifestResult {
+  /**
+   * The bumped packages, the root package comes first, workspace packages follow sorted by path.
+   */
+  packages: KeppoManifestChange[]
+  /**
+   * Every written file, manifests and lockfiles.
+   */
+  files: string[]
+}
+
+type JsonPath = string[]
+type JsonSpan = [start: number, end: number]
+
+interface JsonCursor {
+  text: string
+  index: number
+}
+
+interface ManifestPackage {
+  path: string
+  directory: string
+  text: string
+  data: Record<string, unknown>
+}
+
+/**
+ * Bumps the `version` field of a package manifest in place.
+ *
+ * Only the version string is rewritten, the indentation, the key order and the trailing newline are kept as they were.
+ * `jsr.json` and `deno.json`/`deno.jsonc` manifests next to `package.json` get the same version,
+ * the matching `package-lock.json`/`npm-shrinkwrap.json` entries are updated as well.
+ * Manifests may contain comments and trailing commas, as `deno.json` allows.
+ *
+ * With `workspaces` enabled, every package listed by the `workspaces` field of `package.json`
+ * or by `pnpm-workspace.yaml` is bumped by the same kind, a root manifest without a version is skipped.
+ * Ranges of one workspace package on another one are updated when they pin a version, optionally with `^`, `~`, `>=`, `=`
+ * or the `workspace:` protocol (e.g. `^1.2.0` → `^1.3.0`), other ranges like `workspace:*` are kept.
+ *
+ * All files are validated before any of them is written.
+ *
+ * @param path - The path of a manifest (e.g. `'package.json'`, `'jsr.json'`) or of a directory containing `package.json`.
+ * @param kind - The kind of bump, see `KeppoReleaseType`.
+ * @param options - Optional `KeppoManifestOptions`.
+ * @throws {Error} If a manifest is missing, has an invalid version or the bump is not possible.
+ * @returns The bumped packages and the written files.
+ */
+export async function bumpManifest(
+  path: string,
+  kind: KeppoReleaseType,
+  options: KeppoManifestOptions = {}
+): Promise<KeppoManifestResult> {
+  if (typeof path !== 'string') {
+    throw new KeppoError(
+      KeppoErrorCode.InvalidType,
+      `Expected a string but got "${typeof path}".`
+    )
+  }
+
+  const root: ManifestPackage = await readManifest(await manifestPath(path))
+  const members: ManifestPackage[] = options.workspaces
+    ? await workspacePackages(root)
+    : []
+  const isWorkspace: boolean = members.length > 0
+  const writes: Map<string, string> = new Map()
+  const packages: KeppoManifestChange[] = []
+  const lockfileEdits: [JsonPath, string][] = []
+
+  for (const pkg of [root, ...members]) {
+    if (pkg === root && isWorkspace && typeof pkg.data.version !== 'string') {
+      continue
+    }
+
+    const change: KeppoManifestChange = bumpPackage(
+      pkg,
+      kind,
+      options.identifier,
+      writes
+    )
+
+    packages.push(change)
+
+    if (basename(pkg.path) !== MANIFEST) {
+      continue
+    }
+
+    const key: string = toPosix(relative(root.directory, pkg.directory))
+
+    if (key === '') {
+      lockfileEdits.push([['version'], change.version])
+    }
+
+    lockfileEdits.push([['packages', key, 'version'], change.version])
+
+    await bumpSiblings(pkg.directory, change.version, writes)
+  }
+
+  if (isWorkspace) {
+    bumpDependents(root, [root, ...members], packages, writes, lockfileEdits)
+  }
+
+  await bumpLockfiles(root.directory, lockfileEdits, writes)
+
+  for (const [file, text] of writes) {
+    await writeFile(file, text)
+  }
+
+  return { packages, files: [...writes.keys()] }
+}
+
+async function manifestPath(path: string): Promise<string> {
+  const stats: Stats = await stat(path)
+
+  return stats.isDirectory() ? join(path, MANIFEST) : path
+}
+
+async function readManifest(path: string): Promise<ManifestPackage> {
+  const text: string = await readFile(path, 'utf8')
+
+  return {
+    path,
+    directory: dirname(path),
+    text,
+    data: JSON.parse(blankJsonc(text))
+  }
+}
+
+async function readOptional(path: string): Promise<string | null> {
+  try {
+    return await readFile(path, 'utf8')
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null
+    }
+
+    throw error
+  }
+}
+
+function bumpPackage(
+  pkg: ManifestPackage,
+  kind: KeppoReleaseType,
+  identifier: string | undefined,
+  writes: Map<string, string>
+): KeppoManifestChange {
+  const previous: unknown = pkg.data.version
+  const span: JsonSpan | null = findString(pkg.text, ['version'])
+
+  if (typeof previous !== 'string' || span === null) {
+    throw new KeppoError(
+      KeppoErrorCode.InvalidVersion,
+      `Expected a "version" field in "${pkg.path}".`
+    )
+  }
+
+  const version: string = Keppo.from(previous, false)
+    .bumped(kind, identifier)
+    .toString()
+
+  writes.set(pkg.path, replaceSpan(pkg.text, span, version))
+
+  return {
+    name: typeof pkg.data.name === 'string' ? pkg.data.name : null,
+    path: pkg.path,
+    previous,
+    version
+  }
+}
+
+async function bumpSiblings(
+  directory: string,
+  version: string,
+  writes: Map<string, string>
+): Promise<void> {
+  for (const name of SIBLING_MANIFESTS) {
+    const path: string = join(directory, name)
+    const text: string | null = await readOptional(path)
+    const span: JsonSpan | null =
+      text === null ? null : findString(text, ['version'])
+
+    if (text !== null && span !== null) {
+      writes.set(path, replaceSpan(text, span, version))
+    }
+  }
+}
+
+/**
+ * Updates the ranges workspace packages depend on each other with, in the manifests and the lockfile entries.
+ */
+function bumpDependents(
+  root: ManifestPackage,
+  pkgs: ManifestPackage[],
+  changes: KeppoManifestChange[],
+  writes: Map<string, string>,
+  lockfileEdits: [JsonPath, string][]
+): void {
+  const versions: Map<string, string> = new Map()
+
+  for (const change of changes) {
+    if (change.name !== null) {
+      versions.set(change.name, change.version)
+    }
+  }
+
+  for (const pkg of pkgs) {
+    const key: string = toPosix(relative(root.directory, pkg.directory))
+    const original: string = writes.get(pkg.path) ?? pkg.text
+    let text: string = original
+
+    for (const [jsonPath, range] of dependencyEdits(pkg.data, versions)) {
+      const span: JsonSpan | null = findString(text, jsonPath)
+
+      if (span !== null) {
+        text = replaceSpan(text, span, range)
+        lockfileEdits.push([['packages', key, ...jsonPath], range])
+      }
+    }
+
+    if (text !== original) {
+      writes.set(pkg.path, text)
+    }
+  }
+}
+
+function dependencyEdits(
+  data: Record<string, unknown>,
+  versions: Map<string, string>
+): [JsonPath, string][] {
+  const edits: [JsonPath, string][] = []
+
+  for (const field of DEPENDENCY_FIELDS) {
+    const ranges: unknown = data[field]
+
+    if (typeof ranges !== 'object' || ranges === null) {
+      continue
+    }
+
+    for (const [name, range] of Object.entries(ranges)) {
+      const version: string | undefined = versions.get(name)
+      const updated: string | null =
+        typeof range === 'string' && typeof version === 'string'
+          ? dependencyRange(range, version)
+          : null
+
+      if (updated !== null && updated !== range) {
+        edits.push([[field, name], updated])
+      }
+    }
+  }
+
+  return edits
+}
+
+/**
+ * Moves a range that pins a version to a new version, keeping its operator and protocol,
+ * e.g. `workspace:^1.2.0` → `workspace:^1.3.0`, returns `null` for any other range.
+ */
+function dependencyRange(range: string, version: string): string | null {
+  const match: RegExpMatchArray | null = range.match(REGEXP_DEPENDENCY_RANGE)
+
+  if (match === null) {
+    return null
+  }
+
+  const [, protocol = '', operator = ''] = match
+
+  return `${protocol}${operator}${version.replace(REGEXP_V_PREFIX, '')}`
+}
+
+async function bumpLockfiles(
+  directory: string,
+  edits: [JsonPath, string][],
+  writes: Map<string, string>
+): Promise<void> {
+  for (const name of LOCKFILES) {
+    const path: string = join(directory, name)
+    const original: string | null = await readOptional(path)
+
+    if (original === null) {
+      continue
+    }
+
+    let text: string = original
+
+    for (const [jsonPath, version] of edits) {
+      const span: JsonSpan | null = findString(text, jsonPath)
+
+      if (span !== null) {
+        text = replaceSpan(text, span, version)
+      }
+    }
+
+    if (text !== original) {
+      writes.set(path, text)
+    }
+  }
+}
+
+async function workspacePackages(
+  root: ManifestPackage
+): Promise<ManifestPackage[]> {
+  const patterns: string[] = [
+    ...npmWorkspaces(root.data),
+    ...pnpmWorkspaces(
+      (await readOptional(join(root.directory, PNPM_WORKSPACE))) ?? ''
+    )
+  ]
+  const included: Set<string> = new Set()
+  const excluded: Set<string> = new Set()
+
+  for (const pattern of patterns) {
+    const isNegated: boolean = pattern.startsWith('!')
+    const directories: string[] = await expandPattern(
+      root.directory,
+      isNegated ? pattern.slice(1) : pattern
+    )
+
+    for (const directory of directories) {
+      ;(isNegated ? excluded : included).add(directory)
+    }
+  }
+
+  const result: ManifestPackage[] = []
+
+  for (const directory of [...included].sort()) {
+    const path: string = join(directory, MANIFEST)
+
+    if (
+      directory !== root.directory &&
+      !excluded.has(directory) &&
+      (await readOptional(path)) !== null
+    ) {
+      result.push(await readManifest(path))
+    }
+  }
+
+  return result
+}
+
+function npmWorkspaces(data: Record<string, unknown>): string[] {
+  const workspaces: unknown = data.workspaces
+  const list: unknown =
+    Array.isArray(workspaces) || typeof workspaces !== 'object'
+      ? workspaces
+      : (workspaces as Record<string, unknown> | null)?.packages
+
+  return Array.isArray(list)
+    ? list.filter((entry: unknown) => typeof entry === 'string')
+    : []
+}
+
+function pnpmWorkspaces(text: string): string[] {
+  const result: string[] = []
+  let isPackages: boolean = false
+
+  for (const line of text.split(REGEXP_LINE)) {
+    const key: RegExpMatchArray | null = line.match(REGEXP_YAML_KEY)
+
+    if (key !== null) {
+      isPackages = key[1].trim() === 'packages'
+      continue
+    }
+
+    const item: RegExpMatchArray | null = line.match(REGEXP_YAML_ITEM)
+
+    if (isPackages && item !== null) {
+      result.push(item[1].replace(REGEXP_YAML_QUOTES, '$2'))
+    }
+  }
+
+  return result
+}
+
+async function expandPattern(
+  directory: string,
+  pattern: string
+): Promise<string[]> {
+  const segments: string[] = pattern
+    .split('/')
+    .filter((segment: string) => segment !== '' && segment !== '.')
+
+  return await matchSegments(directory, segments)
+}
+
+async function matchSegments(
+  directory: string,
+  segments: string[]
+): Promise<string[]> {
+  if (segments.length === 0) {
+    return [directory]
+  }
+
+  const [segment, ...rest] = segments
+  const result: string[] = []
+
+  if (segment === '**') {
+    result.push(...(await matchSegments(directory, rest)))
+
+    for (const child of await childDirectories(directory)) {
+      result.push(...(await matchSegments(join(directory, child), segments)))
+    }
+
+    return result
+  }
+
+  const matcher: RegExp = globSegment(segment)
+
+  for (const child of await childDirectories(directory)) {
+    if (matcher.test(child)) {
+      result.push(...(await matchSegments(join(directory, child), rest)))
+    }
+  }
+
+  return result
+}
+
+async function childDirectories(directory: string): Promise<string[]> {
+  try {
+    const entries: Dirent[] = await readdir(directory, { withFileTypes: true })
+
+    return entries
+      .filter(
+        (entry: Dirent) =>
+          entry.isDirectory() &&
+          entry.name !== 'node_modules' &&
+          !entry.name.startsWith('.')
+      )
+      .map((entry: Dirent) => entry.name)
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return []
+    }
+
+    throw error
+  }
+}
+
+function globSegment(segment: string): RegExp {
+  return new RegExp(
+    `^${segment.replace(REGEXP_GLOB_SPECIAL, '\\$&').replace(REGEXP_GLOB_STAR, '.*')}$`
+  )
+}
+
+function toPosix(path: string): string {
+  return path.split(sep).join('/')
+}
+
+function replaceSpan(text: string, span: JsonSpan, value: string): string {
+  return `${text.slice(0, span[0])}${JSON.stringify(value)}${text.slice(span[1])}`
+}
+
+/**
+ * Blanks out the comments and trailing commas of a JSONC text, every other character keeps its offset.
+ */
+function blankJsonc(text: string): string {
+  return blankTrailingCommas(blankComments(text))
+}
+
+function stringEnd(text: string, index: number): number {
+  const cursor: JsonCursor = { text, index }
+
+  skipString(cursor)
+
+  return cursor.index
+}
+
+function commentEnd(text: string, index: number): number {
+  if (text.startsWith('//', index)) {
+    const end: number = text.indexOf('\n', index)
+
+    return end === -1 ? text.length : end
+  }
+
+  if (text.startsWith('/*', index)) {
+    const end: number = text.indexOf('*/', index + 2)
+
+    return end === -1 ? text.length : end + 2
+  }
+
+  return index
+}
+
+function blankComments(text: string): string {
+  const chars: string[] = text.split('')
+  let index: number = 0
+
+  while (index < text.length) {
+    if (text.charAt(index) === '"') {
+      index = stringEnd(text, index)
+      continue
+    }
+
+    const end: number = commentEnd(text, index)
+
+    if (end === index) {
+      index++
+      continue
+    }
+
+    // line breaks are kept, so line numbers stay the same as well
+    for (; index < end; index++) {
+      if (chars[index] !== '\n' && chars[index] !== '\r') {
+        chars[index] = ' '
+      }
+    }
+  }
+
+  return chars.join('')
+}
+
+function blankTrailingCommas(text: string): string {
+  const chars: string[] = text.split('')
+  let index: number = 0
+
+  while (index < text.length) {
+    if (text.charAt(index) === '"') {
+      index = stringEnd(text, index)
+      continue
+    }
+
+    REGEXP_TRAILING_COMMA.lastIndex = index
+
+    if (REGEXP_TRAILING_COMMA.test(text)) {
+      chars[index] = ' '
+    }
+
+    index++
+  }
+
+  return chars.join('')
+}
+
+/**
+ * Finds the span, quotes included, of the string value at the given path of a JSON or JSONC text.
+ */
+function findString(text: string, path: JsonPath): JsonSpan | null {
+  const cursor: JsonCursor = { text: blankJsonc(text), index: 0 }
+
+  skipWhitespace(cursor)
+
+  return scanValue(cursor, [], path)
+}
+
+function scanValue(
+  cursor: JsonCursor,
+  path: JsonPath,
+  target: JsonPath
+): JsonSpan | null {
+  const char: string = cursor.text.charAt(cursor.index)
+
+  if (char === '{') {
+    return scanObject(cursor, path, target)
+  }
+
+  if (char === '[') {
+    return scanArray(cursor, path, target)
+  }
+
+  if (char === '"') {
+    const start: number = cursor.index
+
+    skipString(cursor)
+
+    return isSamePath(path, target) ? [start, cursor.index] : null
+  }
+
+  while (
+    cursor.index < cursor.text.length &&
+    !REGEXP_LITERAL_END.test(cursor.text.charAt(cursor.index))
+  ) {
+    cursor.index++
+  }
+
+  return null
+}
+
+function scanObject(
+  cursor: JsonCursor,
+  path: JsonPath,
+  target: JsonPath
+): JsonSpan | null {
+  cursor.index++
+  skipWhitespace(cursor)
+
+  while (cursor.text.charAt(cursor.index) === '"') {
+    const start: number = cursor.index
+
+    skipString(cursor)
+
+    const key: string = JSON.parse(cursor.text.slice(start, cursor.index))
+
+    skipWhitespace(cursor)
+    cursor.index++ // :
+    skipWhitespace(cursor)
+
+    const span: JsonSpan | null = scanValue(cursor, [...path, key], target)
+
+    if (span !== null) {
+      return span
+    }
+
+    skipSeparator(cursor)
+  }
+
+  cursor.index++ // }
+  skipWhitespace(cursor)
+
+  return null
+}
+
+function scanArray(
+  cursor: JsonCursor,
+  path: JsonPath,
+  target: JsonPath
+): JsonSpan | null {
+  cursor.index++
+  skipWhitespace(cursor)
+
+  for (
+    let index: number = 0;
+    cursor.text.charAt(cursor.index) !== ']';
+    index++
+  ) {
+    if (cursor.index >= cursor.text.length) {
+      return null
+    }
+
+    const span: JsonSpan | null = scanValue(
+      cursor,
+      [...path, String(index)],
+      target
+    )
+
+    if (span !== null) {
+      return span
+    }
+
+    skipSeparator(cursor)
+  }
+
+  cursor.index++ // ]
+  skipWhitespace(cursor)
+
+  return null
+}
+
+function skipString(cursor: JsonCursor): void {
+  cursor.index++
+
+  while (cursor.index < cursor.text.length) {
+    const char: string = cursor.text.charAt(cursor.index)
+
+    cursor.index += char === '\\' ? 2 : 1
+
+    if (char === '"') {
+      return
+    }
+  }
+}
+
+function skipSeparator(cursor: JsonCursor): void {
+  skipWhitespace(cursor)
+
+  if (cursor.text.charAt(cursor.index) === ',') {
+    cursor.index++
+    skipWhitespace(cursor)
+  }
+}
+
+function skipWhitespace(cursor: JsonCursor): void {
+  while (
+    cursor.index < cursor.text.length &&
+    cursor.text.charCodeAt(cursor.index) <= 32
+  ) {
+    cursor.index++
+  }
+}
+
+function isSamePath(path: JsonPath, target: JsonPath): boolean {
+  return (
+    path.length === target.length &&
+    path.every((key: string, index: number) => key === target[index])
+  )
+}
@@ -0,0 +1,439 @@
+import { Keppo, KeppoComparison, KeppoError, KeppoErrorCode } from './index.js'
+
+const REGEXP_MAVEN: RegExp = /^[0-9A-Za-z][0-9A-Za-z._+-]*$/
+const REGEXP_DIGIT: RegExp = /\d/
+const REGEXP_LEADING_ZEROS: RegExp = /^0+(?=\d)/
+const REGEXP_SEMVER_LIKE: RegExp =
+  /^(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:-([0-9A-Za-z]+(?:[.-][0-9A-Za-z]+)*))?$/
+
+/**
+ * Well-known qualifiers, in ascending order, the empty qualifier is the release itself.
+ */
+const QUALIFIERS: string[] = [
+  'alpha',
+  'beta',
+  'milestone',
+  'rc',
+  'snapshot',
+  '',
+  'sp'
+]
+
+const ALIASES: Record<string, string> = {
+  ga: '',
+  final: '',
+  release: '',
+  cr: 'rc'
+}
+
+const SHORTHANDS: Record<string, string> = {
+  a: 'alpha',
+  b: 'beta',
+  m: 'milestone'
+}
+
+const RELEASE_INDEX: string = String(QUALIFIERS.indexOf(''))
+
+type MavenItem =
+  | { kind: 'int'; value: string }
+  | { kind: 'string'; value: string }
+  | { kind: 'list'; items: MavenItem[] }
+
+/**
+ * The state of the tokenizer, `list` is the innermost list items are added to.
+ */
+interface MavenParser {
+  version: string
+  list: MavenItem[]
+  stack: MavenItem[][]
+  isNumeric: boolean
+  start: number
+}
+
+/**
+ * A Maven artifact version, compared like Maven's own `ComparableVersion`,
+ * see {@link https://maven.apache.org/pom.html#version-order-specification}.
+ *
+ * Versions are split into numeric and qualifier tokens on `.`, `-` and digit/letter transitions,
+ * trailing "null" tokens (`0`, `''`, `final`, `ga`, `release`) are insignificant and qualifiers
+ * are ordered `alpha` < `beta` < `milestone` < `rc` = `cr` < `snapshot` < release < `sp`,
+ * unknown qualifiers sort after `sp`, alphabetically.
+ */
+export class MavenVersion {
+  #version: string
+  #items: MavenItem
+
+  /**
+   * Creates a new `MavenVersion` instance.
+   *
+   * @param version - A Maven version (e.g. `'1.2.0-SNAPSHOT'`, `'2.0-rc1'`).
+   * @throws {Error} If the version is invalid.
+   */
+  constructor(version: string) {
+    if (typeof version !== 'string') {
+      throw new KeppoError(
+        KeppoErrorCode.InvalidType,
+        `Expected a string but got "${typeof version}".`
+      )
+    }
+
+    if (!REGEXP_MAVEN.test(version)) {
+      throw new KeppoError(
+        KeppoErrorCode.InvalidVersion,
+        `Expected a valid Maven version but got "${version}".`
+      )
+    }
+
+    this.#version = version
+    this.#items = parseItems(version.toLowerCase())
+  }
+
+  /**
+   * Creates a new `MavenVersion` instance.
+   *
+   * @param version - A Maven version (e.g. `'1.2.0-SNAPSHOT'`).
+   * @throws {Error} If the version is invalid.
+   * @returns A new `MavenVersion` instance.
+   */
+  static from(version: string): MavenVersion {
+    return new MavenVersion(version)
+  }
+
+  /**
+   * Checks whether a given string is a valid Maven version.
+   *
+   * @param version - The version to check.
+   * @returns `true` if the version is valid; otherwise `false`.
+   */
+  static isValid(version: string): boolean {
+    try {
+      new MavenVersion(version)
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  /**
+   * Compares two Maven versions, useful as a callback for `Array.prototype.sort()`.
+   *
+   * @param a - A `MavenVersion` instance or a valid Maven version.
+   * @param b - A `MavenVersion` instance or a valid Maven version.
+   * @throws {Error} If either of the versions is invalid.
+   * @returns A numeric comparison result (`-1`, `0`, or `1`) of `a` against `b`.
+   */
+  static compare(
+    a: MavenVersion | string,
+    b: MavenVersion | string
+  ): KeppoComparison {
+    return toMaven(a).compareWith(b)
+  }
+
+  /**
+   * Converts a SemVer version into a Maven version, the label becomes the qualifier (e.g. `'1.2.0-SNAPSHOT'`).
+   *
+   * The build metadata has no Maven counterpart and is dropped.
+   *
+   * @param version - A `Keppo` instance or a valid SemVer string.
+   * @throws {Error} If the SemVer version is invalid.
+   * @returns A new `MavenVersion` instance.
+   */
+  static fromKeppo(version: Keppo | string): MavenVersion {
+    const semver: Keppo =
+      typeof version === 'string' ? Keppo.from(version) : version
+    const label: string = semver.getLabel()
+
+    return new MavenVersion(
+      `${semver.getBigMajor()}.${semver.getBigMinor()}.${semver.getBigPatch()}${label === '' ? '' : `-${label}`}`
+    )
+  }
+
+  /**
+   * Gets the canonical form of the version, the tokens Maven actually compares (e.g. `'1.0-GA'` → `'1'`).
+   * @returns The canonical version.
+   */
+  getCanonical(): string {
+    return canonical(this.#items)
+  }
+
+  /**
+   * Checks whether the version is a `SNAPSHOT`.
+   * @returns `true` if the version is a snapshot; otherwise `false`.
+   */
+  isSnapshot(): boolean {
+    return this.#version.toLowerCase().endsWith('snapshot')
+  }
+
+  /**
+   * Compares the current version against another Maven version.
+   *
+   * @param version - Another `MavenVersion` instance or a valid Maven version.
+   * @throws {Error} If the version is invalid.
+   * @returns A numeric comparison result (`-1`, `0`, or `1`).
+   */
+  compareWith(version: MavenVersion | string): KeppoComparison {
+    return Math.sign(compareItems(this.#items, toMaven(version).#items))
+  }
+
+  /**
+   * Checks whether the current version is equal to another Maven version, e.g. `'1.0'` and `'1-ga'` are equal.
+   *
+   * @param version - Another `MavenVersion` instance or a valid Maven version.
+   * @throws {Error} If the version is invalid.
+   * @returns `true` if both versions are equal; otherwise `false`.
+   */
+  equals(version: MavenVersion | string): boolean {
+    return this.compareWith(version) === KeppoComparison.Current
+  }
+
+  /**
+   * Converts the current version into a SemVer version.
+   *
+   * Up to 3 numeric components, missing ones are `0`, optionally followed by a `-` qualifier
+   * which becomes the label, release qualifiers (`ga`, `final`, `release`) are dropped.
+   *
+   * @returns A new `Keppo` instance or `null` if the version has no SemVer counterpart.
+   */
+  toKeppo(): Keppo | null {
+    const match: RegExpMatchArray | null =
+      this.#version.match(REGEXP_SEMVER_LIKE)
+
+    if (match === null) {
+      return null
+    }
+
+    const [, major, minor = '0', patch = '0', qualifier = ''] = match
+    const label: string = alias(qualifier.toLowerCase()) === '' ? '' : qualifier
+
+    try {
+      return Keppo.from(
+        `${BigInt(major)}.${BigInt(minor)}.${BigInt(patch)}${label === '' ? '' : `-${label}`}`
+      )
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * Returns the version as given.
+   * @returns {string}
+   */
+  toString(): string {
+    return this.#version
+  }
+}
+
+function toMaven(version: MavenVersion | string): MavenVersion {
+  if (version instanceof MavenVersion) {
+    return version
+  }
+
+  return new MavenVersion(version)
+}
+
+function isDigit(char: string): boolean {
+  return REGEXP_DIGIT.test(char)
+}
+
+function alias(token: string): string {
+  return Object.hasOwn(ALIASES, token) ? ALIASES[token] : token
+}
+
+function parseItem(isNumeric: boolean, token: string): MavenItem {
+  if (isNumeric) {
+    return { kind: 'int', value: token.replace(REGEXP_LEADING_ZEROS, '') }
+  }
+
+  return { kind: 'string', value: alias(token) }
+}
+
+function stringItem(token: string, isFollowedByDigit: boolean): MavenItem {
+  const value: string =
+    isFollowedByDigit && token.length === 1
+      ? Object.hasOwn(SHORTHANDS, token)
+        ? SHORTHANDS[token]
+        : token
+      : token
+
+  return { kind: 'string', value: alias(value) }
+}
+
+function nest(parser: MavenParser): void {
+  const items: MavenItem[] = []
+
+  parser.list.push({ kind: 'list', items })
+  parser.list = items
+  parser.stack.push(items)
+}
+
+function onSeparator(parser: MavenParser, i: number): void {
+  parser.list.push(
+    i === parser.start
+      ? { kind: 'int', value: '0' }
+      : parseItem(parser.isNumeric, parser.version.slice(parser.start, i))
+  )
+  parser.start = i + 1
+
+  if (parser.version[i] === '-') {
+    nest(parser)
+  }
+}
+
+function onTransition(
+  parser: MavenParser,
+  i: number,
+  isNumeric: boolean
+): void {
+  // a transition between digits and letters acts as a hyphen, e.g. `1a1` is `1-a-1`
+  if (parser.isNumeric !== isNumeric && i > parser.start) {
+    const token: string = parser.version.slice(parser.start, i)
+
+    parser.list.push(
+      isNumeric ? stringItem(token, true) : parseItem(true, token)
+    )
+    parser.start = i
+    nest(parser)
+  }
+
+  parser.isNumeric = isNumeric
+}
+
+function parseItems(version: string): MavenItem {
+  const root: MavenItem[] = []
+  const parser: MavenParser = {
+    version,
+    list: root,
+    stack: [root],
+    isNumeric: false,
+    start: 0
+  }
+
+  for (let i: number = 0; i < version.length; i++) {
+    const char: string = version[i]
+
+    if (char === '.' || char === '-') {
+      onSeparator(parser, i)
+    } else {
+      onTransition(parser, i, isDigit(char))
+    }
+  }
+
+  if (version.length > parser.start) {
+    parser.list.push(parseItem(parser.isNumeric, version.slice(parser.start)))
+  }
+
+  while (parser.stack.length > 0) {
+    normalize(parser.stack.pop() as MavenItem[])
+  }
+
+  return { kind: 'list', items: root }
+}
+
+function normalize(items: MavenItem[]): void {
+  for (let i: number = items.length - 1; i >= 0; i--) {
+    const item: MavenItem = items[i]
+
+    if (isNull(item)) {
+      items.splice(i, 1)
+    } else if (item.kind !== 'list') {
+      break
+    }
+  }
+}
+
+function isNull(item: MavenItem): boolean {
+  switch (item.kind) {
+    case 'int':
+      return item.value === '0'
+    case 'string':
+      return item.value === ''
+    default:
+      return item.items.length === 0
+  }
+}
+
+function qualifierKey(qualifier: string): string {
+  const index: number = QUALIFIERS.indexOf(qualifier)
+
+  return index === -1 ? `${QUALIFIERS.length}-${qualifier}` : String(index)
+}
+
+function compareStrings(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0
+}
+
+function compareInts(a: string, b: string): number {
+  return a.length === b.length ? compareStrings(a, b) : a.length - b.length
+}
+
+/**
+ * Compares an item against a missing one (`null`), i.e. the shorter side of a list.
+ */
+function compareToNull(item: MavenItem): number {
+  switch (item.kind) {
+    case 'int':
+      return item.value === '0' ? 0 : 1
+    case 'string':
+      return compareStrings(qualifierKey(item.value), RELEASE_INDEX)
+    default:
+      return item.items.length === 0 ? 0 : compareToNull(item.items[0])
+  }
+}
+
+function compareItems(a: MavenItem, b: MavenItem): number {
+  if (a.kind === 'int') {
+    return b.kind === 'int' ? compareInts(a.value, b.value) : 1
+  }
+
+  if (a.kind === 'string') {
+    return b.kind === 'string'
+      ? compareStrings(qualifierKey(a.value), qualifierKey(b.value))
+      : -1
+  }
+
+  if (b.kind !== 'list') {
+    return b.kind === 'int' ? -1 : 1
+  }
+
+  return compareLists(a.items, b.items)
+}
+
+function compareLists(a: MavenItem[], b: MavenItem[]): number {
+  for (let i: number = 0; i < Math.max(a.length, b.length); i++) {
+    const left: MavenItem | undefined = a[i]
+    const right: MavenItem | undefined = b[i]
+    let result: number
+
+    if (typeof left === 'undefined') {
+      result = -compareToNull(right as MavenItem)
+    } else if (typeof right === 'undefined') {
+      result = compareToNull(left)
+    } else {
+      result = compareItems(left, right)
+    }
+
+    if (result !== 0) {
+      return result
+    }
+  }
+
+  return 0
+}
+
+function canonical(item: MavenItem): string {
+  if (item.kind !== 'list') {
+    return item.value
+  }
+
+  let result: string = ''
+
+  for (const child of item.items) {
+    if (result !== '') {
+      result += child.kind === 'list' ? '-' : '.'
+    }
+
+    result += canonical(child)
+  }
+
+  return result
+}
@@ -0,0 +1,407 @@
+import { Keppo, KeppoComparison, KeppoError, KeppoErrorCode } from './index.js'
+
+const REGEXP_PEP440: RegExp =
+  /^v?(?:(\d+)!)?(\d+(?:\.\d+)*)(?:[-_.]?(a|b|c|rc|alpha|beta|pre|preview)[-_.]?(\d+)?)?(?:-(\d+)|[-_.]?(post|rev|r)[-_.]?(\d+)?)?(?:[-_.]?(dev)[-_.]?(\d+)?)?(?:\+([a-z0-9]+(?:[-_.][a-z0-9]+)*))?$/i
+const REGEXP_LOCAL_SEPARATOR: RegExp = /[-_]/g
+const REGEXP_NUMERIC: RegExp = /^\d+$/
+const REGEXP_LABEL: RegExp = /^(alpha|beta|rc|a|b|c)\.?(\d+)?$/i
+const REGEXP_DEV_LABEL: RegExp = /^dev\.?(\d+)?$/i
+const REGEXP_LOCAL: RegExp = /^[a-z0-9]+(?:[-_.][a-z0-9]+)*$/i
+
+/**
+ * A PEP 440 pre-release phase, normalized.
+ */
+export type Pep440Phase = 'a' | 'b' | 'rc'
+
+const PHASES: Record<string, Pep440Phase> = {
+  a: 'a',
+  alpha: 'a',
+  b: 'b',
+  beta: 'b',
+  c: 'rc',
+  rc: 'rc',
+  pre: 'rc',
+  preview: 'rc'
+}
+
+const PHASE_LABELS: Record<Pep440Phase, string> = {
+  a: 'alpha',
+  b: 'beta',
+  rc: 'rc'
+}
+
+const PHASE_ORDER: Pep440Phase[] = ['a', 'b', 'rc']
+
+/**
+ * A Python package version as specified by PEP 440, see {@link https://peps.python.org/pep-0440/}.
+ *
+ * Accepts the permitted spelling variations (e.g. `'1.0-ALPHA.1'`, `'v1.0-1'`) and normalizes them.
+ */
+export class Pep440Version {
+  #epoch: number
+  #release: number[]
+  #pre: [Pep440Phase, number] | null
+  #post: number | null
+  #dev: number | null
+  #local: string | null
+
+  /**
+   * Creates a new `Pep440Version` instance.
+   *
+   * @param version - A PEP 440 version (e.g. `'1.2.0rc1'`, `'1!2.0.post1'`).
+   * @throws {Error} If the version is invalid.
+   */
+  constructor(version: string) {
+    if (typeof version !== 'string') {
+      throw new KeppoError(
+        KeppoErrorCode.InvalidType,
+        `Expected a string but got "${typeof version}".`
+      )
+    }
+
+    const match: RegExpMatchArray | null = version.trim().match(REGEXP_PEP440)
+
+    if (match === null) {
+      throw new KeppoError(
+        KeppoErrorCode.InvalidVersion,
+        `Expected a valid PEP 440 version but got "${version}".`
+      )
+    }
+
+    this.#epoch = toNumber(match[1] ?? '0', version)
+    this.#release = match[2]
+      .split('.')
+      .map((part: string) => toNumber(part, version))
+    this.#pre =
+      typeof match[3] === 'undefined'
+        ? null
+        : [PHASES[match[3].toLowerCase()], toNumber(match[4] ?? '0', version)]
+    this.#post =
+      typeof match[5] === 'undefined' && typeof match[6] === 'undefined'
+        ? null
+        : toNumber(match[5] ?? match[7] ?? '0', version)
+    this.#dev =
+      typeof match[8] === 'undefined'
+        ? null
+        : toNumber(match[9] ?? '0', version)
+    this.#local =
+      typeof match[10] === 'undefined'
+        ? null
+        : match[10].toLowerCase().replace(REGEXP_LOCAL_SEPARATOR, '.')
+  }
+
+  /**
+   * Creates a new `Pep440Version` instance.
+   *
+   * @param version - A PEP 440 version (e.g. `'1.2.0rc1'`).
+   * @throws {Error} If the version is invalid.
+   * @returns A new `Pep440Version` instance.
+   */
+  static from(version: string): Pep440Version {
+    return new Pep440Version(version)
+  }
+
+  /**
+   * Checks whether a given string is a valid PEP 440 version.
+   *
+   * @param version - The version to check.
+   * @returns `true` if the version is valid; otherwise `false`.
+   */
+  static isValid(version: string): boolean {
+    try {
+      new Pep440Version(version)
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  /**
+   * Compares two PEP 440 versions, useful as a callback for `Array.prototype.sort()`.
+   *
+   * @param a - A `Pep440Version` instance or a valid PEP 440 version.
+   * @param b - A `Pep440Version` instance or a valid PEP 440 version.
+   * @throws {Error} If either of the versions is invalid.
+   * @returns A numeric comparison result (`-1`, `0`, or `1`) of `a` against `b`.
+   */
+  static compare(
+    a: Pep440Version | string,
+    b: Pep440Version | string
+  ): KeppoComparison {
+    return toPep440(a).compareWith(b)
+  }
+
+  /**
+   * Converts a SemVer version into a PEP 440 version.
+   *
+   * `alpha`, `beta` and `rc` labels (e.g. `'rc.1'`) become pre-releases, a `dev` label a development release
+   * and the build metadata a local version label.
+   *
+   * @param version - A `Keppo` instance or a valid SemVer string.
+   * @throws {Error} If the SemVer version is invalid.
+   * @returns A new `Pep440Version` instance or `null` if the label has no PEP 440 counterpart.
+   */
+  static fromKeppo(version: Keppo | string): Pep440Version | null {
+    const semver: Keppo =
+      typeof version === 'string' ? Keppo.from(version) : version
+    const label: string = semver.getLabel()
+    const pre: RegExpMatchArray | null = label.match(REGEXP_LABEL)
+    const dev: RegExpMatchArray | null = label.match(REGEXP_DEV_LABEL)
+    const core: string = `${semver.getBigMajor()}.${semver.getBigMinor()}.${semver.getBigPatch()}`
+    let suffix: string = ''
+
+    if (pre !== null) {
+      suffix = `${PHASES[pre[1].toLowerCase()]}${pre[2] ?? '0'}`
+    } else if (dev !== null) {
+      suffix = `.dev${dev[1] ?? '0'}`
+    } else if (label !== '') {
+      return null
+    }
+
+    const build: string = semver.getBuild()
+
+    if (build !== '' && !REGEXP_LOCAL.test(build)) {
+      return null
+    }
+
+    return new Pep440Version(
+      `${core}${suffix}${build === '' ? '' : `+${build}`}`
+    )
+  }
+
+  /**
+   * Gets the epoch, `0` when the version has none.
+   * @returns The epoch.
+   */
+  getEpoch(): number {
+    return this.#epoch
+  }
+
+  /**
+   * Gets the release segment (e.g. `[1, 2, 0]`).
+   * @returns A copy of the release segment.
+   */
+  getRelease(): number[] {
+    return [...this.#release]
+  }
+
+  /**
+   * Gets the pre-release phase and number (e.g. `['rc', 1]`).
+   * @returns The pre-release or `null` if the version is not a pre-release.
+   */
+  getPre(): [Pep440Phase, number] | null {
+    return this.#pre === null ? null : [...this.#pre]
+  }
+
+  /**
+   * Gets the post-release number.
+   * @returns The post-release number or `null` if the version is not a post-release.
+   */
+  getPost(): number | null {
+    return this.#post
+  }
+
+  /**
+   * Gets the development release number.
+   * @returns The development release number or `null` if the version is not a development release.
+   */
+  getDev(): number | null {
+    return this.#dev
+  }
+
+  /**
+   * Gets the normalized local version label (e.g. `'ubuntu.1'`).
+   * @returns The local version label or `null` if the version has none.
+   */
+  getLocal(): string | null {
+    return this.#local
+  }
+
+  /**
+   * Checks whether the version is a pre-release, development releases included.
+   * @returns `true` if the version is a pre-release; otherwise `false`.
+   */
+  isPrerelease(): boolean {
+    return this.#pre !== null || this.#dev !== null
+  }
+
+  /**
+   * Compares the current version against another PEP 440 version.
+   *
+   * Follows the PEP 440 ordering: epochs first, then the release segment (trailing zeros are insignificant),
+   * development releases before pre-releases before final releases before post-releases,
+   * local version labels last.
+   *
+   * @param version - Another `Pep440Version` instance or a valid PEP 440 version.
+   * @throws {Error} If the version is invalid.
+   * @returns A numeric comparison result (`-1`, `0`, or `1`).
+   */
+  compareWith(version: Pep440Version | string): KeppoComparison {
+    const other: Pep440Version = toPep440(version)
+
+    return Math.sign(
+      compareNumbers([this.#epoch], [other.#epoch]) ||
+        compareNumbers(this.#release, other.#release) ||
+        compareNumbers(this.#preKey(), other.#preKey()) ||
+        compareNumbers(this.#postKey(), other.#postKey()) ||
+        compareNumbers(this.#devKey(), other.#devKey()) ||
+        compareLocal(this.#local, other.#local)
+    )
+  }
+
+  /**
+   * Checks whether the current version is equal to another PEP 440 version, e.g. `'1.0'` and `'1.0.0'` are equal.
+   *
+   * @param version - Another `Pep440Version` instance or a valid PEP 440 version.
+   * @throws {Error} If the version is invalid.
+   * @returns `true` if both versions are equal; otherwise `false`.
+   */
+  equals(version: Pep440Version | string): boolean {
+    return this.compareWith(version) === KeppoComparison.Current
+  }
+
+  /**
+   * Converts the current version into a SemVer version.
+   *
+   * The release segment may have up to 3 components, missing ones are `0`. Pre-releases become
+   * `alpha.N`, `beta.N` and `rc.N` labels, a development release a `dev.N` label and the local
+   * version label the build metadata.
+   *
+   * @returns A new `Keppo` instance or `null` if the version has an epoch, a post-release,
+   * a development pre-release or more than 3 release components.
+   */
+  toKeppo(): Keppo | null {
+    if (
+      this.#epoch !== 0 ||
+      this.#post !== null ||
+      this.#release.length > 3 ||
+      (this.#pre !== null && this.#dev !== null)
+    ) {
+      return null
+    }
+
+    const [major, minor = 0, patch = 0] = this.#release
+    const label: string =
+      this.#pre === null
+        ? this.#dev === null
+          ? ''
+          : `dev.${this.#dev}`
+        : `${PHASE_LABELS[this.#pre[0]]}.${this.#pre[1]}`
+    const version: Keppo = new Keppo(major, minor, patch, true, label)
+
+    return this.#local === null ? version : version.setBuild(this.#local)
+  }
+
+  /**
+   * Formats the current version in its normalized form (e.g. `'1.0-ALPHA.1'` → `'1.0a1'`).
+   * @returns {string}
+   */
+  toString(): string {
+    let version: string = this.#epoch === 0 ? '' : `${this.#epoch}!`
+
+    version += this.#release.join('.')
+
+    if (this.#pre !== null) {
+      version += `${this.#pre[0]}${this.#pre[1]}`
+    }
+
+    if (this.#post !== null) {
+      version += `.post${this.#post}`
+    }
+
+    if (this.#dev !== null) {
+      version += `.dev${this.#dev}`
+    }
+
+    return this.#local === null ? version : `${version}+${this.#local}`
+  }
+
+  #preKey(): number[] {
+    if (this.#pre === null) {
+      // a bare development release sorts before all pre-releases
+      return this.#post === null && this.#dev !== null
+        ? [Number.NEGATIVE_INFINITY]
+        : [Number.POSITIVE_INFINITY]
+    }
+
+    return [PHASE_ORDER.indexOf(this.#pre[0]), this.#pre[1]]
+  }
+
+  #postKey(): number[] {
+    return [this.#post ?? Number.NEGATIVE_INFINITY]
+  }
+
+  #devKey(): number[] {
+    return [this.#dev ?? Number.POSITIVE_INFINITY]
+  }
+}
+
+function toPep440(version: Pep440Version | string): Pep440Version {
+  if (version instanceof Pep440Version) {
+    return version
+  }
+
+  return new Pep440Version(version)
+}
+
+function toNumber(value: string, version: string): number {
+  const result: number = Number(value)
+
+  if (!Number.isSafeInteger(result)) {
+    throw new KeppoError(
+      KeppoErrorCode.UnsafeInteger,
+      `Expected the components of "${version}" to be safe integers.`
+    )
+  }
+
+  return result
+}
+
+function compareNumbers(a: number[], b: number[]): number {
+  const length: number = Math.max(a.length, b.length)
+
+  for (let i: number = 0; i < length; i++) {
+    const delta: number = (a[i] ?? 0) - (b[i] ?? 0)
+
+    if (delta !== 0) {
+      return delta
+    }
+  }
+
+  return 0
+}
+
+function compareLocal(a: string | null, b: string | null): number {
+  if (a === null || b === null) {
+    return (a === null ? 0 : 1) - (b === null ? 0 : 1)
+  }
+
+  const left: string[] = a.split('.')
+  const right: string[] = b.split('.')
+
+  for (let i: number = 0; i < Math.min(left.length, right.length); i++) {
+    const delta: number = compareLocalSegment(left[i], right[i])
+
+    if (delta !== 0) {
+      return delta
+    }
+  }
+
+  return left.length - right.length
+}
+
+function compareLocalSegment(a: string, b: string): number {
+  const isNumericA: boolean = REGEXP_NUMERIC.test(a)
+  const isNumericB: boolean = REGEXP_NUMERIC.test(b)
+
+  // numeric segments sort after alphanumeric ones
+  if (isNumericA !== isNumericB) {
+    return isNumericA ? 1 : -1
+  }
+
+  if (isNumericA) {
+    return Number(a) - Number(b)
+  }
+
+  return a < b ? -1 : a > b ? 1 : 0
+}
@@ -0,0 +1,604 @@
+import { Keppo, KeppoError, KeppoErrorCode, KeppoRange } from './index.js'
+
+/**
+ * The dependencies of a single version in a registry snapshot, shaped like the matching `package.json` fields.
+ */
+export interface KeppoRegistryEntry {
+  /**
+   * Maps package names to the ranges this version depends on.
+   */
+  dependencies?: Record<string, string>
+  /**
+   * Maps package names to the ranges of the packages this version shares with the rest of the graph.
+   */
+  peerDependencies?: Record<string, string>
+}
+
+/**
+ * A local registry snapshot, maps package names to their versions and the versions to their dependencies,
+ * e.g. `{ "left-pad": { "1.3.0": { "dependencies": {} } } }`.
+ */
+export type KeppoRegistry = Record<string, Record<string, KeppoRegistryEntry>>
+
+/**
+ * Options for `resolveDependencies()`.
+ */
+export interface KeppoResolveOptions {
+  /**
+   * Whether every package resolves to a single version (default: `true`),
+   * otherwise a dependency whose range no resolved version satisfies gets a version of its own.
+   */
+  dedupe?: boolean
+  /**
+   * Whether pre-release versions may satisfy the ranges, same as in `KeppoRangeOptions` (default: `false`).
+   */
+  includePrerelease?: boolean
+}
+
+/**
+ * A single requirement of the dependency graph.
+ */
+export interface KeppoRequirement {
+  /**
+   * The name of the required package.
+   */
+  name: string
+  /**
+   * The range as written in the snapshot or the root dependencies.
+   */
+  range: string
+  /**
+   * Whether the requirement is a peer dependency.
+   */
+  peer: boolean
+  /**
+   * The resolved packages that led to the requirement, starting at the root (e.g. `['a@1.2.0', 'b@2.0.1']`),
+   * empty for root dependencies.
+   */
+  path: string[]
+}
+
+/**
+ * Explains why a package cannot be resolved.
+ */
+export interface KeppoConflict {
+  /**
+   * The name of the package that cannot be resolved.
+   */
+  name: string
+  /**
+   * The requirements that clash, in the order they were met.
+   */
+  requirements: KeppoRequirement[]
+  /**
+   * A readable explanation, one line per requirement chain.
+   */
+  message: string
+}
+
+/**
+ * A resolved package of the dependency graph.
+ */
+export interface KeppoResolvedPackage {
+  name: string
+  version: string
+  /**
+   * Maps the names of its dependencies, peers included, to their resolved versions.
+   */
+  dependencies: Record<string, string>
+}
+
+/**
+ * The result of `resolveDependencies()`, either the resolved graph or the conflict that prevents it.
+ */
+export type KeppoResolution =
+  | {
+      ok: true
+      /**
+       * Maps the names of the root dependencies to their resolved versions.
+       */
+      dependencies: Record<string, string>
+      /**
+       * The resolved packages, sorted by name and version.
+       */
+      packages: KeppoResolvedPackage[]
+    }
+  | { ok: false; conflict: KeppoConflict }
+
+interface PendingRequirement {
+  requirement: KeppoRequirement
+  range: KeppoRange
+}
+
+/**
+ * The partial solution, changed in place, the trail undoes the changes when the search backtracks.
+ */
+interface ResolveState {
+  queue: PendingRequirement[]
+  /**
+   * The index of the next requirement of the queue.
+   */
+  head: number
+  /**
+   * Maps package names to their resolved versions, newest first.
+   */
+  chosen: Map<string, Keppo[]>
+  constraints: Map<string, PendingRequirement[]>
+  /**
+   * Maps `name@version` keys to their resolved dependencies, `''` is the root.
+   */
+  edges: Map<string, Record<string, string>>
+  /**
+   * Undoes the changes made to the state, the latest change last.
+   */
+  trail: (() => void)[]
+}
+
+/**
+ * A requirement whose version is being chosen, the search resumes at the latest relevant frame after a conflict.
+ */
+interface ResolveFrame {
+  pending: PendingRequirement
+  candidates: Keppo[]
+  index: number
+  /**
+   * The lengths of the trail and the queue and the queue head before the first candidate was chosen.
+   */
+  trail: number
+  queue: number
+  head: number
+  /**
+   * The packages whose versions caused the conflicts of the candidates tried so far.
+   */
+  conflicts: Set<string>
+  /**
+   * The packages whose requirements ruled the other candidates out.
+   */
+  reasons: Set<string>
+}
+
+interface ResolveContext {
+  registry: KeppoRegistry
+  dedupe: boolean
+  includePrerelease: boolean
+  candidates: Map<string, Keppo[]>
+  /**
+   * The first conflict met, the one that blocks the newest versions.
+   */
+  conflict: KeppoConflict | null
+}
+
+/**
+ * Resolves a dependency graph against a local registry snapshot, without any network access.
+ *
+ * Packages are resolved breadth-first, in the order of their names, each one to the newest version
+ * that satisfies every requirement met so far, when a later requirement cannot be satisfied
+ * the search backtracks to older versions. The same input always gives the same output.
+ *
+ * The search jumps back straight to the latest package whose version took part in a conflict,
+ * choices of unrelated packages are never retried, and it runs in a loop, so deep graphs don't exhaust the call stack.
+ *
+ * Peer dependencies are always shared, every resolved version of a package must satisfy
+ * every peer range of it, even when `dedupe` is disabled.
+ *
+ * @param registry - The registry snapshot.
+ * @param dependencies - The root dependencies, maps package names to ranges (e.g. `{ a: '^1.2.0' }`).
+ * @param options - Resolver options.
+ * @throws {Error} If a version or a range of the snapshot or the root dependencies is invalid.
+ * @returns Either `{ ok: true, dependencies, packages }` or `{ ok: false, conflict }`.
+ */
+export function resolveDependencies(
+  registry: KeppoRegistry,
+  dependencies: Record<string, string>,
+  options: KeppoResolveOptions = {}
+): KeppoResolution {
+  if (typeof registry !== 'object' || registry === null) {
+    throw new KeppoError(
+      KeppoErrorCode.InvalidType,
+      `Expected an object but got "${typeof registry}".`
+    )
+  }
+
+  const context: ResolveContext = {
+    registry,
+    dedupe: options.dedupe ?? true,
+    includePrerelease: options.includePrerelease === true,
+    candidates: new Map(),
+    conflict: null
+  }
+  const state: ResolveState = {
+    queue: pendingOf(context, dependencies, false, []),
+    head: 0,
+    chosen: new Map(),
+    constraints: new Map(),
+    edges: new Map([['', {}]]),
+    trail: []
+  }
+
+  if (!search(context, state)) {
+    return { ok: false, conflict: context.conflict as KeppoConflict }
+  }
+
+  return {
+    ok: true,
+    dependencies: sortRecord(state.edges.get('') as Record<string, string>),
+    packages: resolvedPackages(state)
+  }
+}
+
+function pendingOf(
+  context: ResolveContext,
+  ranges: Record<string, string> | undefined,
+  peer: boolean,
+  path: string[]
+): PendingRequirement[] {
+  return Object.keys(ranges ?? {})
+    .sort()
+    .map((name: string) => {
+      const range: string = (ranges as Record<string, string>)[name]
+
+      return {
+        requirement: { name, range, peer, path },
+        range: new KeppoRange(range, {
+          includePrerelease: context.includePrerelease
+        })
+      }
+    })
+}
+
+function candidatesOf(context: ResolveContext, name: string): Keppo[] {
+  let candidates: Keppo[] | undefined = context.candidates.get(name)
+
+  if (typeof candidates === 'undefined') {
+    candidates = Object.hasOwn(context.registry, name)
+      ? Keppo.sort(Object.keys(context.registry[name]), 'desc', true)
+      : []
+    context.candidates.set(name, candidates)
+  }
+
+  return candidates
+}
+
+function nodeKey(name: string, version: Keppo): string {
+  return `${name}@${version}`
+}
+
+/**
+ * Gets the name of the package that led to the requirement, `null` for root dependencies.
+ */
+function dependentOf(pending: PendingRequirement): string | null {
+  const key: string | undefined = pending.requirement.path.at(-1)
+
+  return typeof key === 'undefined' ? null : key.slice(0, key.lastIndexOf('@'))
+}
+
+function dependentsOf(list: PendingRequirement[]): Set<string> {
+  const result: Set<string> = new Set()
+
+  for (const pending of list) {
+    const dependent: string | null = dependentOf(pending)
+
+    if (dependent !== null) {
+      result.add(dependent)
+    }
+  }
+
+  return result
+}
+
+function setEntry<T>(
+  state: ResolveState,
+  map: Map<string, T>,
+  key: string,
+  value: T
+): void {
+  const previous: T | undefined = map.get(key)
+
+  map.set(key, value)
+  state.trail.push(() => {
+    if (typeof previous === 'undefined') {
+      map.delete(key)
+    } else {
+      map.set(key, previous)
+    }
+  })
+}
+
+function restore(state: ResolveState, frame: ResolveFrame): void {
+  while (state.trail.length > frame.trail) {
+    const undo: () => void = state.trail.pop() as () => void
+
+    undo()
+  }
+
+  state.queue.length = frame.queue
+  state.head = frame.head
+}
+
+function link(
+  state: ResolveState,
+  pending: PendingRequirement,
+  version: Keppo
+): void {
+  const dependent: string = pending.requirement.path.at(-1) ?? ''
+  const edges: Record<string, string> = state.edges.get(dependent) as Record<
+    string,
+    string
+  >
+  const name: string = pending.requirement.name
+  const previous: string | undefined = edges[name]
+
+  edges[name] = version.toString()
+  state.trail.push(() => {
+    if (typeof previous === 'undefined') {
+      delete edges[name]
+    } else {
+      edges[name] = previous
+    }
+  })
+}
+
+function choose(
+  context: ResolveContext,
+  state: ResolveState,
+  pending: PendingRequirement,
+  version: Keppo
+): void {
+  const { name, path } = pending.requirement
+  const entry: KeppoRegistryEntry =
+    context.registry[name][version.toString()] ?? {}
+  const key: string = nodeKey(name, version)
+
+  setEntry(
+    state,
+    state.chosen,
+    name,
+    [...(state.chosen.get(name) ?? []), version].sort((a: Keppo, b: Keppo) =>
+      b.compareWith(a)
+    )
+  )
+  setEntry(state, state.edges, key, {})
+  link(state, pending, version)
+  state.queue.push(
+    ...pendingOf(context, entry.dependencies, false, [...path, key]),
+    ...pendingOf(context, entry.peerDependencies, true, [...path, key])
+  )
+}
+
+/**
+ * Checks whether a requirement must be satisfied by every resolved version of its package,
+ * otherwise a single one is enough.
+ */
+function isShared(
+  context: ResolveContext,
+  pending: PendingRequirement
+): boolean {
+  return context.dedupe || pending.requirement.peer
+}
+
+function describeRequirement(requirement: KeppoRequirement): string {
+  const dependent: string = ['root', ...requirement.path].join(' > ')
+
+  return `  ${dependent} requires ${requirement.peer ? 'peer ' : ''}${requirement.name}@${requirement.range}`
+}
+
+function reportConflict(
+  context: ResolveContext,
+  name: string,
+  clashing: PendingRequirement[]
+): void {
+  if (context.conflict !== null) {
+    return
+  }
+
+  const requirements: KeppoRequirement[] = clashing.map(
+    (pending: PendingRequirement) => pending.requirement
+  )
+  const header: string = Object.hasOwn(context.registry, name)
+    ? `No version of "${name}" satisfies every requirement:`
+    : `"${name}" is not in the registry, required by:`
+
+  context.conflict = {
+    name,
+    requirements,
+    message: [header, ...requirements.map(describeRequirement)].join('\n')
+  }
+}
+
+/**
+ * Finds the resolved version a requirement links to, a shared requirement must be satisfied by all of them.
+ */
+function reusable(
+  context: ResolveContext,
+  pending: PendingRequirement,
+  existing: Keppo[]
+): Keppo | undefined {
+  if (!isShared(context, pending)) {
+    return existing.find((version: Keppo) => pending.range.test(version))
+  }
+
+  return existing.every((version: Keppo) => pending.range.test(version))
+    ? existing[0]
+    : undefined
+}
+
+/**
+ * Opens a frame for a requirement that no resolved version satisfies and chooses its newest candidate.
+ *
+ * @returns The packages that caused the conflict when no candidate is left, otherwise `null`.
+ */
+function branch(
+  context: ResolveContext,
+  state: ResolveState,
+  frames: ResolveFrame[],
+  pending: PendingRequirement
+): Set<string> | null {
+  const name: string = pending.requirement.name
+  const shared: PendingRequirement[] = (
+    state.constraints.get(name) as PendingRequirement[]
+  ).filter(
+    (constraint: PendingRequirement) =>
+      constraint === pending || isShared(context, constraint)
+  )
+  const candidates: Keppo[] = candidatesOf(context, name).filter(
+    (version: Keppo) =>
+      shared.every((constraint: PendingRequirement) =>
+        constraint.range.test(version)
+      )
+  )
+  const reasons: Set<string> = dependentsOf(shared)
+
+  reasons.delete(name)
+
+  if (candidates.length === 0) {
+    reportConflict(context, name, shared)
+    return reasons
+  }
+
+  frames.push({
+    pending,
+    candidates,
+    index: 0,
+    trail: state.trail.length,
+    queue: state.queue.length,
+    head: state.head,
+    conflicts: new Set(),
+    reasons
+  })
+  choose(context, state, pending, candidates[0])
+
+  return null
+}
+
+/**
+ * Resolves the queued requirements until the queue is empty or a conflict is met.
+ *
+ * @returns The packages that caused the conflict or `null` if every requirement is resolved.
+ */
+function advance(
+  context: ResolveContext,
+  state: ResolveState,
+  frames: ResolveFrame[]
+): Set<string> | null {
+  while (state.head < state.queue.length) {
+    const pending: PendingRequirement = state.queue[state.head++]
+    const name: string = pending.requirement.name
+    const existing: Keppo[] = state.chosen.get(name) ?? []
+
+    setEntry(state, state.constraints, name, [
+      ...(state.constraints.get(name) ?? []),
+      pending
+    ])
+
+    const reused: Keppo | undefined = reusable(context, pending, existing)
+
+    if (typeof reused !== 'undefined') {
+      link(state, pending, reused)
+      continue
+    }
+
+    if (existing.length > 0 && isShared(context, pending)) {
+      reportConflict(
+        context,
+        name,
+        state.constraints.get(name) as PendingRequirement[]
+      )
+
+      return new Set([name, ...dependentsOf([pending])])
+    }
+
+    const conflict: Set<string> | null = branch(context, state, frames, pending)
+
+    if (conflict !== null) {
+      return conflict
+    }
+  }
+
+  return null
+}
+
+/**
+ * Jumps back to the latest frame of a package that caused the conflict and chooses its next candidate,
+ * a frame without candidates left passes its own causes on.
+ *
+ * @returns `true` if a next candidate was chosen, `false` if the graph cannot be resolved.
+ */
+function backjump(
+  context: ResolveContext,
+  state: ResolveState,
+  frames: ResolveFrame[],
+  conflict: Set<string>
+): boolean {
+  let causes: Set<string> = conflict
+
+  while (frames.length > 0) {
+    const frame: ResolveFrame = frames.at(-1) as ResolveFrame
+    const name: string = frame.pending.requirement.name
+
+    if (causes.has(name)) {
+      for (const cause of causes) {
+        if (cause !== name) {
+          frame.conflicts.add(cause)
+        }
+      }
+
+      if (++frame.index < frame.candidates.length) {
+        restore(state, frame)
+        choose(context, state, frame.pending, frame.candidates[frame.index])
+        return true
+      }
+
+      causes = new Set([...frame.conflicts, ...frame.reasons])
+    }
+
+    frames.pop()
+  }
+
+  return false
+}
+
+function search(context: ResolveContext, state: ResolveState): boolean {
+  const frames: ResolveFrame[] = []
+
+  while (true) {
+    const conflict: Set<string> | null = advance(context, state, frames)
+
+    if (conflict === null) {
+      return true
+    }
+
+    if (!backjump(context, state, frames, conflict)) {
+      return false
+    }
+  }
+}
+
+function sortRecord(record: Record<string, string>): Record<string, string> {
+  const result: Record<string, string> = {}
+
+  for (const key of Object.keys(record).sort()) {
+    result[key] = record[key]
+  }
+
+  return result
+}
+
+function resolvedPackages(state: ResolveState): KeppoResolvedPackage[] {
+  const packages: KeppoResolvedPackage[] = []
+
+  for (const name of [...state.chosen.keys()].sort()) {
+    const versions: Keppo[] = [...(state.chosen.get(name) as Keppo[])].reverse()
+
+    for (const version of versions) {
+      packages.push({
+        name,
+        version: version.toString(),
+        dependencies: sortRecord(
+          state.edges.get(nodeKey(name, version)) as Record<string, string>
+        )
+      })
+    }
+  }
+
+  return packages
+}
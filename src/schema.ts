@@ -0,0 +1,154 @@
+import {
+  Keppo,
+  KeppoError,
+  KeppoErrorCode,
+  type KeppoParseResult
+} from './index.js'
+
+/**
+ * Options used when creating a validator with `keppoSchema()` or `keppoJsonSchema()`.
+ */
+export interface KeppoSchemaOptions {
+  /**
+   * Whether only strict versions, without the `v` prefix, are valid (default: `true`), same as in `Keppo.isValid()`.
+   */
+  strict?: boolean
+}
+
+/**
+ * A validation issue, as specified by Standard Schema.
+ */
+export interface KeppoSchemaIssue {
+  readonly message: string
+  readonly path?: readonly PropertyKey[]
+}
+
+/**
+ * The result of a Standard Schema validation, either `{ value }` or `{ issues }`.
+ */
+export type KeppoSchemaResult =
+  | { readonly value: string; readonly issues?: undefined }
+  | { readonly issues: readonly KeppoSchemaIssue[] }
+
+/**
+ * The result of `KeppoSchema#safeParse()`, shaped like Zod's.
+ */
+export type KeppoSchemaSafeParseResult =
+  | { success: true; data: string }
+  | { success: false; error: KeppoError }
+
+/**
+ * A validator of version string fields that implements {@link https://standardschema.dev Standard Schema} v1
+ * and mirrors Zod's `parse()` and `safeParse()`.
+ */
+export interface KeppoSchema {
+  readonly '~standard': {
+    readonly version: 1
+    readonly vendor: 'keppo'
+    readonly validate: (value: unknown) => KeppoSchemaResult
+    readonly types?: { readonly input: string; readonly output: string }
+  }
+  /**
+   * Validates the value.
+   *
+   * @param value - The value to validate.
+   * @throws {Error} If the value is not a valid version string.
+   * @returns The version string.
+   */
+  parse(value: unknown): string
+  /**
+   * Validates the value without throwing.
+   *
+   * @param value - The value to validate.
+   * @returns Either `{ success: true, data }` or `{ success: false, error }`.
+   */
+  safeParse(value: unknown): KeppoSchemaSafeParseResult
+}
+
+/**
+ * A JSON Schema of a version string field.
+ */
+export interface KeppoJsonSchema {
+  type: 'string'
+  pattern: string
+}
+
+/**
+ * Creates a validator of version string fields, it accepts exactly the strings `Keppo.isValid()` accepts.
+ *
+ * The validator implements Standard Schema, so it can be passed to any library that accepts Standard Schema validators,
+ * and has Zod-like `parse()` and `safeParse()` methods.
+ *
+ * @param options - Schema options.
+ * @returns The validator.
+ */
+export function keppoSchema(options: KeppoSchemaOptions = {}): KeppoSchema {
+  const strict: boolean = options.strict ?? true
+
+  const safeParse = (value: unknown): KeppoSchemaSafeParseResult => {
+    const error: KeppoError | null = validate(value, strict)
+
+    return error === null
+      ? { success: true, data: value as string }
+      : { success: false, error }
+  }
+
+  return {
+    '~standard': {
+      version: 1,
+      vendor: 'keppo',
+      validate: (value: unknown): KeppoSchemaResult => {
+        const result: KeppoSchemaSafeParseResult = safeParse(value)
+
+        return result.success
+          ? { value: result.data }
+          : { issues: [{ message: result.error.message }] }
+      }
+    },
+    parse: (value: unknown): string => {
+      const result: KeppoSchemaSafeParseResult = safeParse(value)
+
+      if (!result.success) {
+        throw result.error
+      }
+
+      return result.data
+    },
+    safeParse
+  }
+}
+
+/**
+ * Creates a JSON Schema of version string fields, its `pattern` is the one `Keppo.isValid()` uses.
+ *
+ * @param options - Schema options.
+ * @returns The JSON Schema (e.g. `{ type: 'string', pattern: '^(?:0|[1-9]\\d*)...$' }`).
+ */
+export function keppoJsonSchema(
+  options: KeppoSchemaOptions = {}
+): KeppoJsonSchema {
+  return { type: 'string', pattern: Keppo.pattern(options.strict ?? true) }
+}
+
+function validate(value: unknown, strict: boolean): KeppoError | null {
+  if (typeof value !== 'string') {
+    return new KeppoError(
+      KeppoErrorCode.InvalidType,
+      `Expected a string but got "${typeof value}".`
+    )
+  }
+
+  if (Keppo.isValid(value, strict)) {
+    return null
+  }
+
+  // reuse the detailed error of the parser when there is one
+  const result: KeppoParseResult = Keppo.safeParse(value, strict)
+
+  return result.ok
+    ? new KeppoError(
+        KeppoErrorCode.InvalidVersion,
+        `Expected a valid SemVer version but got "${value}".`
+      )
+    : result.error
+}
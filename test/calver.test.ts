@@ -0,0 +1,186 @@
+import { assert, describe, it } from 'vitest'
+import { CalVer } from '../src/calver.js'
+import { KeppoComparison, KeppoError, KeppoErrorCode } from '../src/index.js'
+
+function clock(date: string): () => Date {
+  return () => new Date(date)
+}
+
+describe('🧪 CalVer tests 🧪', () => {
+  it('#1 parse and toString()', () => {
+    assert.equal(
+      CalVer.from('YYYY.0M.MICRO', '2025.09.3').toString(),
+      '2025.09.3'
+    )
+    assert.equal(CalVer.from('YY.0M.DD', '25.09.6').toString(), '25.09.6')
+    assert.equal(CalVer.from('0Y.MM_MICRO', '05.9_0').toString(), '05.9_0')
+    assert.equal(CalVer.from('YYYY-0W', '2025-36').toString(), '2025-36')
+    assert.deepEqual(CalVer.from('YY.0M.DD', '25.09.6').getParts(), {
+      year: 2025,
+      month: 9,
+      week: null,
+      day: 6,
+      major: null,
+      minor: null,
+      micro: null
+    })
+  })
+
+  it('#2 isValid()', () => {
+    assert.isTrue(CalVer.isValid('YYYY.0M.MICRO', '2025.12.0'))
+    assert.isTrue(CalVer.isValid('YYYY.0M.0D', '2024.02.29'))
+    assert.isFalse(CalVer.isValid('YYYY.0M.MICRO', '2025.9.0'))
+    assert.isFalse(CalVer.isValid('YYYY.MM.MICRO', '2025.09.0'))
+    assert.isFalse(CalVer.isValid('YYYY.0M.MICRO', '2025.13.0'))
+    assert.isFalse(CalVer.isValid('YYYY.0M.MICRO', '2025.12.01'))
+    assert.isFalse(CalVer.isValid('YYYY.0M.0D', '2025.02.29'))
+    assert.isFalse(CalVer.isValid('YYYY.0M', '2025.12.1'))
+  })
+
+  it('#3 invalid formats', () => {
+    for (const format of [
+      '',
+      'YYYY.YY',
+      'YYYY/MM',
+      'vYYYY.MM',
+      'YYYY.MM.',
+      'YYYY.MM.WW',
+      'YYYY.0W.DD'
+    ]) {
+      try {
+        new CalVer(format, '2025.1')
+        assert.fail(`Expected an error for "${format}"`)
+      } catch (error) {
+        assert.instanceOf(error, KeppoError)
+        assert.equal((error as KeppoError).code, KeppoErrorCode.InvalidFormat)
+      }
+    }
+
+    assert.throws(() => CalVer.from('YYYY.0M', '2025.1'), KeppoError)
+
+    const version: CalVer = CalVer.from('YYYY.0M.MICRO', '2025.09.3')
+
+    for (const call of [
+      () => new CalVer(1 as unknown as string),
+      () => version.setVersion(1 as unknown as string),
+      () => version.bump('2025-09-16' as unknown as Date),
+      () => version.compareWith(1 as unknown as string)
+    ]) {
+      try {
+        call()
+        assert.fail('Expected an error')
+      } catch (error) {
+        assert.equal((error as KeppoError).code, KeppoErrorCode.InvalidType)
+      }
+    }
+  })
+
+  it('#4 compareWith()', () => {
+    const version: CalVer = CalVer.from('YYYY.0M.MICRO', '2025.09.3')
+
+    assert.equal(version.compareWith('2025.10.0'), KeppoComparison.Older)
+    assert.equal(version.compareWith('2025.09.2'), KeppoComparison.Newer)
+    assert.equal(version.compareWith('2025.09.3'), KeppoComparison.Current)
+    assert.isTrue(version.equals('2025.09.3'))
+    assert.throws(
+      () => version.compareWith(CalVer.from('YY.0M.MICRO', '25.09.3')),
+      KeppoError
+    )
+  })
+
+  it('#5 sort with compare()', () => {
+    const list: CalVer[] = [
+      '2025.10.0',
+      '2024.12.7',
+      '2025.09.10',
+      '2025.09.2'
+    ].map((version: string) => CalVer.from('YYYY.0M.MICRO', version))
+
+    assert.deepEqual(
+      list.sort(CalVer.compare).map((version: CalVer) => version.toString()),
+      ['2024.12.7', '2025.09.2', '2025.09.10', '2025.10.0']
+    )
+  })
+
+  it('#6 bump() rolls the period forward', () => {
+    const version: CalVer = CalVer.from('YYYY.0M.MICRO', '2025.09.3')
+
+    assert.equal(
+      version.bump(new Date('2025-11-02T10:00:00Z')).toString(),
+      '2025.11.0'
+    )
+    assert.equal(
+      version.bump(new Date('2026-01-01T00:00:00Z')).toString(),
+      '2026.01.0'
+    )
+  })
+
+  it('#7 bump() increments the counter within the same period', () => {
+    const version: CalVer = CalVer.from('YYYY.0M.MINOR.MICRO', '2025.09.1.4')
+
+    assert.equal(
+      version.bump(new Date('2025-09-30T23:59:59Z')).toString(),
+      '2025.09.1.5'
+    )
+    // a date in the past never goes backwards
+    assert.equal(
+      version.bump(new Date('2024-01-01T00:00:00Z')).toString(),
+      '2025.09.1.6'
+    )
+  })
+
+  it('#8 bump() with an injected clock', () => {
+    const version: CalVer = new CalVer('YY.0M.DD', undefined, {
+      clock: clock('2025-09-06T12:00:00Z')
+    })
+
+    assert.equal(version.toString(), '25.09.6')
+
+    try {
+      version.bump()
+      assert.fail('Expected an error')
+    } catch (error) {
+      assert.instanceOf(error, KeppoError)
+      assert.equal((error as KeppoError).code, KeppoErrorCode.InvalidFormat)
+    }
+
+    const weekly: CalVer = CalVer.from('YYYY.0W.MICRO', '2025.36.0', {
+      clock: clock('2025-09-06T12:00:00Z')
+    })
+
+    assert.equal(weekly.bump().toString(), '2025.36.1')
+    assert.equal(
+      weekly.bump(new Date('2025-09-08T00:00:00Z')).toString(),
+      '2025.37.0'
+    )
+
+    // the ISO week-numbering year, 2024-12-30 falls into the first week of 2025
+    const yearly: CalVer = CalVer.from('YYYY.0W.MICRO', '2024.52.3')
+
+    assert.equal(
+      yearly.bump(new Date('2024-12-30T12:00:00Z')).toString(),
+      '2025.01.0'
+    )
+    assert.equal(
+      new CalVer('YYYY.0W', undefined, {
+        clock: clock('2027-01-01T12:00:00Z')
+      }).toString(),
+      '2026.53'
+    )
+
+    // only long ISO week-numbering years have a week 53
+    assert.isTrue(CalVer.isValid('YYYY.0W', '2026.53'))
+    assert.isFalse(CalVer.isValid('YYYY.0W', '2025.53'))
+    assert.isTrue(CalVer.isValid('0W.MICRO', '53.0'))
+  })
+
+  it('#9 new CalVer() starts the counters at 0', () => {
+    const version: CalVer = new CalVer('YYYY.MM.MAJOR.MICRO', undefined, {
+      clock: clock('2026-02-14T08:00:00Z')
+    })
+
+    assert.equal(version.toString(), '2026.2.0.0')
+    assert.equal(version.clone().bump().toString(), '2026.2.0.1')
+    assert.equal(version.toString(), '2026.2.0.0')
+  })
+})
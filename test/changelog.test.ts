@@ -0,0 +1,198 @@
+import { readFileSync } from 'node:fs'
+import { assert, describe, it } from 'vitest'
+import {
+  changelogEntries,
+  formatRelease,
+  type KeppoChangelogEntry,
+  type KeppoChangelogRelease,
+  parseChangelog,
+  prependRelease
+} from '../src/changelog.js'
+import { Keppo, KeppoError, KeppoErrorCode } from '../src/index.js'
+
+const date: Date = new Date(Date.UTC(2025, 8, 6))
+
+const entries: KeppoChangelogEntry[] = [
+  { category: 'fix', text: 'handle empty labels' },
+  { category: 'feat', text: 'add `diff()`' },
+  { category: 'dev', text: 'upgrade dependencies' },
+  { category: 'breaking', text: 'remove `parse()`' },
+  { category: 'feat', text: 'add `coerce()`' }
+]
+
+const keppoSection: string = `## v2.1.0 (*06-Sep-2025*)
+
+- **❌ BREAKING**: remove \`parse()\`
+
+<br>
+
+- **✨ feat**: add \`diff()\`
+- **✨ feat**: add \`coerce()\`
+
+<br>
+
+- **✅ fix**: handle empty labels
+
+<br>
+
+- **💻 dev**: upgrade dependencies`
+
+const keepAChangelogSection: string = `## [2.1.0] - 2025-09-06
+
+### Added
+
+- add \`diff()\`
+- add \`coerce()\`
+
+### Changed
+
+- **BREAKING**: remove \`parse()\`
+- upgrade dependencies
+
+### Fixed
+
+- handle empty labels`
+
+describe('🧪 Changelog tests 🧪', () => {
+  it('#1 formatRelease() keppo', () => {
+    assert.equal(
+      formatRelease({ version: Keppo.from('2.1.0'), date, entries }),
+      keppoSection
+    )
+    assert.equal(
+      formatRelease({ version: 'v2.1.0', date: null, entries: [] }),
+      '## v2.1.0'
+    )
+  })
+
+  it('#2 formatRelease() keep-a-changelog', () => {
+    assert.equal(
+      formatRelease({ version: '2.1.0', date, entries }, 'keep-a-changelog'),
+      keepAChangelogSection
+    )
+    assert.throws(
+      () => formatRelease({ version: '2.1', date, entries }),
+      KeppoError
+    )
+
+    for (const call of [
+      () => parseChangelog(1 as unknown as string),
+      () => prependRelease(1 as unknown as string, { version: '2.1.0' }),
+      () => changelogEntries('feat: x' as unknown as string[])
+    ]) {
+      try {
+        call()
+        assert.fail('Expected an error')
+      } catch (error) {
+        assert.equal((error as KeppoError).code, KeppoErrorCode.InvalidType)
+      }
+    }
+  })
+
+  it("#3 parseChangelog() reads the repo's CHANGELOG.md", () => {
+    const changelog: string = readFileSync('CHANGELOG.md', 'utf8')
+    const pkg: { version: string } = JSON.parse(
+      readFileSync('package.json', 'utf8')
+    )
+    const [latest]: KeppoChangelogRelease[] = parseChangelog(changelog)
+
+    assert.isTrue(latest.version.equals(pkg.version))
+    assert.equal(latest.date?.toISOString(), '2025-09-16T00:00:00.000Z')
+    assert.equal(
+      latest.entries.filter(
+        (entry: KeppoChangelogEntry) => entry.category === 'breaking'
+      ).length,
+      4
+    )
+    assert.deepEqual(latest.entries[4], {
+      category: 'feat',
+      text: 'auto-reset lower components (`minor` / `patch`) when `major` or `minor` change'
+    })
+  })
+
+  it('#4 prependRelease() keppo round-trip', () => {
+    const changelog: string =
+      '# 📒 Changelog\n\n<br>\n\n## v2.0.0 (*16-Sep-2025*)\n\n- **✅ fix**: a fix\n'
+    const result: string = prependRelease(changelog, {
+      version: '2.1.0',
+      date,
+      entries
+    })
+
+    assert.equal(
+      result,
+      `# 📒 Changelog\n\n<br>\n\n${keppoSection}\n\n<br>\n\n## v2.0.0 (*16-Sep-2025*)\n\n- **✅ fix**: a fix\n`
+    )
+
+    const releases: KeppoChangelogRelease[] = parseChangelog(result)
+
+    assert.deepEqual(
+      releases.map((release: KeppoChangelogRelease) =>
+        release.version.toString()
+      ),
+      ['v2.1.0', 'v2.0.0']
+    )
+    assert.deepEqual(releases[0].date, date)
+    assert.sameDeepMembers(releases[0].entries, entries)
+    assert.deepEqual(releases[1].entries, [{ category: 'fix', text: 'a fix' }])
+  })
+
+  it('#5 prependRelease() keep-a-changelog round-trip', () => {
+    const changelog: string =
+      '# Changelog\n\n## [Unreleased]\n\n### Added\n\n- something\n\n## [2.0.0] - 2025-09-16\n\n### Removed\n\n- `parse()`\n'
+    const result: string = prependRelease(
+      changelog,
+      { version: '2.1.0', date, entries },
+      'keep-a-changelog'
+    )
+
+    assert.equal(
+      result,
+      `# Changelog\n\n## [Unreleased]\n\n### Added\n\n- something\n\n${keepAChangelogSection}\n\n## [2.0.0] - 2025-09-16\n\n### Removed\n\n- \`parse()\`\n`
+    )
+
+    const releases: KeppoChangelogRelease[] = parseChangelog(result)
+
+    assert.equal(releases.length, 2)
+    assert.equal(releases[0].version.toString(), '2.1.0')
+    assert.sameDeepMembers(releases[0].entries, entries)
+    assert.deepEqual(releases[1].entries, [
+      { category: 'breaking', text: '`parse()`' }
+    ])
+  })
+
+  it('#6 prependRelease() empty changelog', () => {
+    assert.equal(
+      prependRelease('', { version: '1.0.0', date: null, entries: [] }),
+      '## v1.0.0\n'
+    )
+    assert.equal(
+      prependRelease('# Changelog\n\n', {
+        version: '1.0.0',
+        date: null,
+        entries: []
+      }),
+      '# Changelog\n\n## v1.0.0\n'
+    )
+  })
+
+  it('#7 changelogEntries()', () => {
+    assert.deepEqual(
+      changelogEntries([
+        'feat(range): add intersects()',
+        'fix: off-by-one',
+        'perf: faster sort',
+        'chore: bump deps',
+        'refactor!: rename setStrict()',
+        'WIP'
+      ]),
+      [
+        { category: 'feat', text: 'add intersects()' },
+        { category: 'fix', text: 'off-by-one' },
+        { category: 'fix', text: 'faster sort' },
+        { category: 'dev', text: 'bump deps' },
+        { category: 'breaking', text: 'rename setStrict()' }
+      ]
+    )
+  })
+})
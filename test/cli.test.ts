@@ -0,0 +1,179 @@
+import { type SpawnSyncReturns, spawnSync } from 'node:child_process'
+import { mkdtempSync, rmSync } from 'node:fs'
+import { createRequire } from 'node:module'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterAll, assert, beforeAll, describe, it } from 'vitest'
+
+const REGEXP_VERSION: RegExp = /^\d+\.\d+\.\d+\n$/
+
+const require: NodeJS.Require = createRequire(import.meta.url)
+const outDir: string = mkdtempSync(join(tmpdir(), 'keppo-cli-'))
+const cli: string = join(outDir, 'cli.js')
+
+function keppo(args: string[], input?: string): SpawnSyncReturns<string> {
+  return spawnSync(process.execPath, [cli, ...args], {
+    encoding: 'utf8',
+    input
+  })
+}
+
+beforeAll(() => {
+  const result: SpawnSyncReturns<string> = spawnSync(
+    process.execPath,
+    [
+      require.resolve('typescript/bin/tsc'),
+      '--outDir',
+      outDir,
+      '--declarationDir',
+      outDir
+    ],
+    { encoding: 'utf8' }
+  )
+
+  assert.equal(result.status, 0, result.stdout)
+}, 60_000)
+
+afterAll(() => {
+  rmSync(outDir, { recursive: true, force: true })
+})
+
+describe('🧪 CLI tests 🧪', () => {
+  it('#1 bump', () => {
+    const result: SpawnSyncReturns<string> = keppo(['bump', 'minor', '1.2.3'])
+
+    assert.equal(result.status, 0)
+    assert.equal(result.stdout, '1.3.0\n')
+    assert.equal(keppo(['bump', 'major', 'v1.2.3']).stdout, 'v2.0.0\n')
+    assert.equal(
+      keppo(['bump', 'prerelease', '1.2.3', '--preid', 'rc']).stdout,
+      '1.2.4-rc.0\n'
+    )
+  })
+
+  it('#2 bump --json', () => {
+    const result: SpawnSyncReturns<string> = keppo([
+      'bump',
+      'patch',
+      '1.2.3',
+      '--json'
+    ])
+
+    assert.deepEqual(JSON.parse(result.stdout), {
+      previous: '1.2.3',
+      version: '1.2.4'
+    })
+  })
+
+  it('#3 bump invalid input', () => {
+    const kind: SpawnSyncReturns<string> = keppo(['bump', 'huge', '1.2.3'])
+    const version: SpawnSyncReturns<string> = keppo(['bump', 'major', '1.2'])
+
+    assert.equal(kind.status, 3)
+    assert.include(kind.stderr, 'keppo:')
+    assert.equal(version.status, 3)
+    assert.equal(version.stdout, '')
+  })
+
+  it('#4 compare exit codes', () => {
+    const current: SpawnSyncReturns<string> = keppo([
+      'compare',
+      '1.0.0',
+      '1.0.0'
+    ])
+    const newer: SpawnSyncReturns<string> = keppo(['compare', '2.0.0', '1.0.0'])
+    const older: SpawnSyncReturns<string> = keppo([
+      'compare',
+      '1.0.0-rc.1',
+      '1.0.0'
+    ])
+
+    assert.equal(current.status, 0)
+    assert.equal(current.stdout, '0\n')
+    assert.equal(newer.status, 1)
+    assert.equal(newer.stdout, '1\n')
+    assert.equal(older.status, 2)
+    assert.equal(older.stdout, '-1\n')
+  })
+
+  it('#5 compare --json', () => {
+    assert.deepEqual(
+      JSON.parse(keppo(['compare', 'v1.0.0', '1.0.1', '--json']).stdout),
+      { a: 'v1.0.0', b: '1.0.1', comparison: -1 }
+    )
+  })
+
+  it('#6 valid', () => {
+    assert.equal(keppo(['valid', '1.2.3']).status, 0)
+    assert.equal(keppo(['valid', '1.2.3']).stdout, '1.2.3\n')
+    assert.equal(keppo(['valid', 'v1.2.3']).status, 0)
+    assert.equal(keppo(['valid', 'v1.2.3', '--strict']).status, 1)
+    assert.equal(keppo(['valid', '01.2.3', '--strict']).status, 1)
+    assert.equal(keppo(['valid', '1.2']).stdout, '')
+    assert.equal(keppo(['valid', '1.2']).status, 1)
+  })
+
+  it('#7 valid --json', () => {
+    const result: SpawnSyncReturns<string> = keppo(['valid', 'nope', '--json'])
+
+    assert.equal(result.status, 1)
+    assert.deepEqual(JSON.parse(result.stdout), {
+      version: 'nope',
+      valid: false
+    })
+  })
+
+  it('#8 sort from stdin', () => {
+    const result: SpawnSyncReturns<string> = keppo(
+      ['sort'],
+      '1.10.0\n1.2.0\nnightly\n v1.2.0-rc.1\n'
+    )
+
+    assert.equal(result.status, 0)
+    assert.equal(result.stdout, 'v1.2.0-rc.1\n1.2.0\n1.10.0\n')
+  })
+
+  it('#9 sort arguments, --desc, --strict and --json', () => {
+    assert.equal(
+      keppo(['sort', '1.0.0', '2.0.0', 'v1.5.0', '--desc']).stdout,
+      '2.0.0\nv1.5.0\n1.0.0\n'
+    )
+    assert.deepEqual(
+      JSON.parse(
+        keppo(['sort', '--strict', '--json'], '2.0.0 v1.5.0 1.0.0').stdout
+      ),
+      ['1.0.0', '2.0.0']
+    )
+    assert.equal(keppo(['sort'], '').stdout, '')
+  })
+
+  it('#10 satisfies', () => {
+    assert.equal(keppo(['satisfies', '1.4.2', '^1.2.3']).status, 0)
+    assert.equal(keppo(['satisfies', '1.4.2', '^1.2.3']).stdout, '1.4.2\n')
+    assert.equal(keppo(['satisfies', '2.0.0', '^1.2.3']).status, 1)
+    assert.equal(keppo(['satisfies', '1.5.0-rc.1', '^1.2.3']).status, 1)
+    assert.equal(
+      keppo(['satisfies', '1.5.0-rc.1', '^1.2.3', '--include-prerelease'])
+        .status,
+      0
+    )
+    assert.equal(keppo(['satisfies', '1.0.0', '>>1']).status, 3)
+  })
+
+  it('#11 satisfies --json', () => {
+    assert.deepEqual(
+      JSON.parse(keppo(['satisfies', '1.4.2', '~1.4', '--json']).stdout),
+      { version: '1.4.2', range: '~1.4', satisfies: true }
+    )
+  })
+
+  it('#12 usage errors', () => {
+    assert.equal(keppo([]).status, 3)
+    assert.include(keppo([]).stdout, 'Usage: keppo')
+    assert.equal(keppo(['--help']).status, 0)
+    assert.equal(keppo(['publish']).status, 3)
+    assert.equal(keppo(['compare', '1.0.0']).status, 3)
+    assert.equal(keppo(['valid', '1.0.0', '--unknown']).status, 3)
+    assert.match(keppo(['--version']).stdout, REGEXP_VERSION)
+  })
+})
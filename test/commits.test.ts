@@ -0,0 +1,129 @@
+import { assert, describe, it } from 'vitest'
+import {
+  type KeppoBumpReason,
+  type KeppoBumpRecommendation,
+  parseCommit,
+  recommendBump
+} from '../src/commits.js'
+import { Keppo, KeppoError, KeppoErrorCode } from '../src/index.js'
+
+describe('🧪 Commits tests 🧪', () => {
+  it('#1 parseCommit()', () => {
+    assert.deepEqual(parseCommit('feat(parser): add coerce()'), {
+      type: 'feat',
+      scope: 'parser',
+      breaking: false,
+      subject: 'add coerce()',
+      body: ''
+    })
+    assert.deepEqual(parseCommit('fix!: drop Node 18\n\nIt is EOL.'), {
+      type: 'fix',
+      scope: null,
+      breaking: true,
+      subject: 'drop Node 18',
+      body: 'It is EOL.'
+    })
+    assert.isNull(parseCommit('Merge branch main'))
+    assert.isNull(parseCommit('feat add coerce()'))
+  })
+
+  it('#2 parseCommit() breaking footers', () => {
+    assert.isTrue(
+      parseCommit('refactor: rename\n\nBREAKING CHANGE: setLabel() is gone')
+        ?.breaking
+    )
+    assert.isTrue(
+      parseCommit('refactor: rename\n\nBREAKING-CHANGE: setLabel() is gone')
+        ?.breaking
+    )
+    assert.isFalse(
+      parseCommit('docs: mention BREAKING CHANGE: in the guide')?.breaking
+    )
+  })
+
+  it('#3 recommendBump() picks the highest bump', () => {
+    const result: KeppoBumpRecommendation = recommendBump(
+      ['fix: off-by-one', 'feat: add diff()', 'chore: bump deps'],
+      '1.2.3'
+    )
+
+    assert.equal(result.kind, 'minor')
+    assert.equal(result.version.toString(), '1.3.0')
+    assert.deepEqual(
+      result.reasons.map((reason: KeppoBumpReason) => [
+        reason.message,
+        reason.bump
+      ]),
+      [
+        ['fix: off-by-one', 'patch'],
+        ['feat: add diff()', 'minor']
+      ]
+    )
+  })
+
+  it('#4 recommendBump() breaking changes', () => {
+    assert.equal(recommendBump(['feat!: new API'], '1.2.3').kind, 'major')
+    assert.equal(
+      recommendBump(
+        ['fix: typo', 'perf: faster\n\nBREAKING CHANGE: needs Node 22'],
+        '1.2.3'
+      ).version.toString(),
+      '2.0.0'
+    )
+    assert.equal(
+      recommendBump(['feat: add diff()'], '1.3.0-rc.1').version.toString(),
+      '1.3.0'
+    )
+  })
+
+  it('#5 recommendBump() pre-1.0', () => {
+    const result: KeppoBumpRecommendation = recommendBump(
+      ['feat!: new API'],
+      '0.4.1'
+    )
+
+    assert.equal(result.kind, 'minor')
+    assert.equal(result.version.toString(), '0.5.0')
+    assert.equal(
+      recommendBump(['feat!: new API'], '0.4.1', { preMajor: false }).kind,
+      'major'
+    )
+  })
+
+  it('#6 recommendBump() no bump', () => {
+    const current: Keppo = Keppo.from('v1.2.3', false)
+    const result: KeppoBumpRecommendation = recommendBump(
+      ['docs: readme', 'WIP', 'chore(release): 1.2.3'],
+      current
+    )
+
+    assert.isNull(result.kind)
+    assert.deepEqual(result.reasons, [])
+    assert.equal(result.version.toString(), 'v1.2.3')
+    assert.notStrictEqual(result.version, current)
+  })
+
+  it('#7 recommendBump() custom types', () => {
+    const result: KeppoBumpRecommendation = recommendBump(
+      ['docs: readme', 'feat: add diff()'],
+      '1.2.3',
+      { types: { docs: 'patch', feat: null } }
+    )
+
+    assert.equal(result.kind, 'patch')
+    assert.equal(result.version.toString(), '1.2.4')
+  })
+
+  it('#8 recommendBump() invalid input', () => {
+    assert.throws(() => recommendBump(['feat: x'], '1.2'), KeppoError)
+    // @ts-expect-error
+    assert.throws(() => recommendBump('feat: x', '1.2.3'), KeppoError)
+
+    try {
+      parseCommit(1 as unknown as string)
+      assert.fail('Expected an error')
+    } catch (error) {
+      assert.equal((error as KeppoError).code, KeppoErrorCode.InvalidType)
+    }
+  })
+})
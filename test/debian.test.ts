@@ -0,0 +1,132 @@
+import { assert, describe, it } from 'vitest'
+import { DebianVersion } from '../src/debian.js'
+import { KeppoComparison, KeppoError, KeppoErrorCode } from '../src/index.js'
+
+// [a, b, expected], taken from Debian Policy §5.6.12 and dpkg's own version tests
+const comparisons: [string, string, KeppoComparison][] = [
+  ['1.0', '1.0', KeppoComparison.Current],
+  ['0:1.0', '1.0', KeppoComparison.Current],
+  ['1.0-0', '1.0', KeppoComparison.Current],
+  ['1.0', '1.1', KeppoComparison.Older],
+  ['1.0', '1.0.0', KeppoComparison.Older],
+  ['1.2', '1.10', KeppoComparison.Older],
+  ['1.01', '1.1', KeppoComparison.Current],
+  ['2.30', '2.4', KeppoComparison.Newer],
+  ['1:0.1', '9.9', KeppoComparison.Newer],
+  ['1:1.0', '2:0.1', KeppoComparison.Older],
+  ['1.0-1', '1.0-2', KeppoComparison.Older],
+  ['1.0-1ubuntu1', '1.0-1', KeppoComparison.Newer],
+  ['1.0-1.1', '1.0-1', KeppoComparison.Newer],
+  ['1.0~rc1', '1.0', KeppoComparison.Older],
+  ['1.0~rc1', '1.0~rc2', KeppoComparison.Older],
+  ['1.0~~', '1.0~~a', KeppoComparison.Older],
+  ['1.0~~a', '1.0~', KeppoComparison.Older],
+  ['1.0~', '1.0', KeppoComparison.Older],
+  ['1.0', '1.0a', KeppoComparison.Older],
+  ['1.0a', '1.0b', KeppoComparison.Older],
+  ['1.0z', '1.0+', KeppoComparison.Older],
+  ['1.0+', '1.0.', KeppoComparison.Older],
+  ['1.0', '1.0+b1', KeppoComparison.Older],
+  ['1.0a', '1.0A', KeppoComparison.Newer],
+  ['1.0-1~bpo1', '1.0-1', KeppoComparison.Older],
+  ['2.6.32-5-amd64', '2.6.32-5', KeppoComparison.Newer],
+  ['1:2.30-1ubuntu2', '1:2.30-1ubuntu10', KeppoComparison.Older]
+]
+
+const invalid: string[] = [
+  '',
+  'a1.0',
+  '1.0 1',
+  ':1.0',
+  '1:',
+  'a:1.0',
+  '-1',
+  '1.0-',
+  '1.0-a_b',
+  '1.0_1',
+  '1.0:1'
+]
+
+describe('🧪 Debian tests 🧪', () => {
+  it('#1 comparison conformance table', () => {
+    for (const [a, b, expected] of comparisons) {
+      assert.equal(DebianVersion.compare(a, b), expected, `${a} vs ${b}`)
+      assert.equal(DebianVersion.compare(b, a), -expected, `${b} vs ${a}`)
+    }
+  })
+
+  it('#2 sort with compare()', () => {
+    assert.deepEqual(
+      ['1.0', '1.0a', '1.0~', '1.0~~a', '1.0~~', '1:0.1', '0.9-1']
+        .map((version: string) => DebianVersion.from(version))
+        .sort(DebianVersion.compare)
+        .map((version: DebianVersion) => version.toString()),
+      ['0.9-1', '1.0~~', '1.0~~a', '1.0~', '1.0', '1.0a', '1:0.1']
+    )
+  })
+
+  it('#3 isValid()', () => {
+    for (const version of invalid) {
+      assert.isFalse(DebianVersion.isValid(version), version)
+    }
+
+    assert.isTrue(DebianVersion.isValid('1:2.6.32-5-amd64'))
+    assert.isTrue(DebianVersion.isValid('1:1:2-3'))
+    assert.throws(() => DebianVersion.from('a1.0'), KeppoError)
+
+    try {
+      new DebianVersion(1 as unknown as string)
+      assert.fail('Expected an error')
+    } catch (error) {
+      assert.equal((error as KeppoError).code, KeppoErrorCode.InvalidType)
+    }
+  })
+
+  it('#4 getters and toString()', () => {
+    const version: DebianVersion = DebianVersion.from('1:2.6.32-5-amd64')
+
+    assert.equal(version.getEpoch(), 1)
+    assert.equal(version.getUpstream(), '2.6.32-5')
+    assert.equal(version.getRevision(), 'amd64')
+    assert.equal(version.toString(), '1:2.6.32-5-amd64')
+    assert.equal(DebianVersion.from('0:1.0').toString(), '1.0')
+  })
+
+  it('#5 toKeppo()', () => {
+    const cases: [string, string | null][] = [
+      ['1.2.3', '1.2.3'],
+      ['1.2', '1.2.0'],
+      ['1.2.0~rc.1', '1.2.0-rc.1'],
+      ['1.2.0-3ubuntu1', '1.2.0+3ubuntu1'],
+      ['1.2.0~beta2-1', '1.2.0-beta2+1'],
+      ['1:1.2.0', null],
+      ['1.2.0+dfsg', null],
+      ['1.2.0-1+b1', null],
+      ['1.2.3.4', null]
+    ]
+
+    for (const [version, expected] of cases) {
+      assert.equal(
+        DebianVersion.from(version).toKeppo()?.toString() ?? null,
+        expected,
+        version
+      )
+    }
+  })
+
+  it('#6 fromKeppo()', () => {
+    assert.equal(DebianVersion.fromKeppo('1.2.3')?.toString(), '1.2.3')
+    assert.equal(
+      DebianVersion.fromKeppo('1.2.3-rc.1+1ubuntu1')?.toString(),
+      '1.2.3~rc.1-1ubuntu1'
+    )
+    assert.isNull(DebianVersion.fromKeppo('1.2.3-pre-1'))
+    assert.equal(
+      DebianVersion.compare(
+        DebianVersion.fromKeppo('1.0.0-rc.1') as DebianVersion,
+        DebianVersion.fromKeppo('1.0.0') as DebianVersion
+      ),
+      KeppoComparison.Older
+    )
+  })
+})
@@ -0,0 +1,159 @@
+import { execFileSync } from 'node:child_process'
+import { mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterAll, assert, beforeAll, describe, it } from 'vitest'
+import {
+  createTag,
+  type KeppoTag,
+  latestTag,
+  listTags,
+  tagsSince
+} from '../src/git.js'
+import { Keppo, KeppoError } from '../src/index.js'
+
+const cwd: string = mkdtempSync(join(tmpdir(), 'keppo-git-'))
+
+function git(...args: string[]): string {
+  return execFileSync('git', args, { cwd, encoding: 'utf8' }).trim()
+}
+
+function names(tags: KeppoTag[]): string[] {
+  return tags.map((tag: KeppoTag) => tag.name)
+}
+
+beforeAll(() => {
+  git('init', '--quiet')
+  git('config', 'user.name', 'Keppo')
+  git('config', 'user.email', 'keppo@example.com')
+  git('config', 'tag.gpgSign', 'false')
+  git('commit', '--quiet', '--allow-empty', '--message', 'init')
+
+  for (const tag of [
+    '1.0.0',
+    'v1.2.0',
+    '1.10.0-rc.1',
+    'v1.9.0',
+    'nightly',
+    '1.2',
+    'pkg-a@1.0.0',
+    'pkg-a@v2.0.0-beta.1',
+    'pkg-a@1.5.0'
+  ]) {
+    git('tag', tag)
+  }
+})
+
+afterAll(() => {
+  rmSync(cwd, { recursive: true, force: true })
+})
+
+describe('🧪 Git tests 🧪', () => {
+  it('#1 listTags()', async () => {
+    assert.deepEqual(names(await listTags({ cwd })), [
+      '1.0.0',
+      'v1.2.0',
+      'v1.9.0'
+    ])
+    assert.deepEqual(names(await listTags({ cwd, includePrerelease: true })), [
+      '1.0.0',
+      'v1.2.0',
+      'v1.9.0',
+      '1.10.0-rc.1'
+    ])
+  })
+
+  it('#2 latestTag()', async () => {
+    const latest: KeppoTag | null = await latestTag({ cwd })
+
+    assert.equal(latest?.name, 'v1.9.0')
+    assert.equal(latest?.version.toString(), 'v1.9.0')
+    assert.equal(
+      (await latestTag({ cwd, includePrerelease: true }))?.name,
+      '1.10.0-rc.1'
+    )
+    assert.isNull(await latestTag({ cwd, prefix: 'pkg-b@' }))
+  })
+
+  it('#3 latestTag() with a prefix', async () => {
+    const latest: KeppoTag | null = await latestTag({
+      cwd,
+      prefix: 'pkg-a@',
+      includePrerelease: true
+    })
+
+    assert.equal(latest?.name, 'pkg-a@v2.0.0-beta.1')
+    assert.equal(latest?.version.toString(), 'v2.0.0-beta.1')
+    assert.equal(
+      (await latestTag({ cwd, prefix: 'pkg-a@' }))?.name,
+      'pkg-a@1.5.0'
+    )
+  })
+
+  it('#4 tagsSince()', async () => {
+    assert.deepEqual(names(await tagsSince('1.0.0', { cwd })), [
+      'v1.2.0',
+      'v1.9.0'
+    ])
+    assert.deepEqual(
+      names(
+        await tagsSince(Keppo.from('v1.2.0'), { cwd, includePrerelease: true })
+      ),
+      ['v1.9.0', '1.10.0-rc.1']
+    )
+    assert.deepEqual(await tagsSince('1.10.0', { cwd }), [])
+  })
+
+  it('#5 createTag()', async () => {
+    const tag: KeppoTag = await createTag(Keppo.from('v1.10.0'), { cwd })
+
+    assert.equal(tag.name, 'v1.10.0')
+    assert.equal(git('cat-file', '-t', 'v1.10.0'), 'commit')
+    assert.equal((await latestTag({ cwd }))?.name, 'v1.10.0')
+  })
+
+  it('#6 createTag() annotated with a prefix', async () => {
+    const tag: KeppoTag = await createTag('1.6.0', {
+      cwd,
+      prefix: 'pkg-a@',
+      message: 'Release pkg-a 1.6.0'
+    })
+
+    assert.equal(tag.name, 'pkg-a@1.6.0')
+    assert.equal(git('cat-file', '-t', 'pkg-a@1.6.0'), 'tag')
+    assert.equal(
+      git('tag', '--list', '--format=%(contents:subject)', 'pkg-a@1.6.0'),
+      'Release pkg-a 1.6.0'
+    )
+
+    await createTag('1.7.0', { cwd, prefix: 'pkg-a@', annotated: true })
+
+    assert.equal(
+      git('tag', '--list', '--format=%(contents:subject)', 'pkg-a@1.7.0'),
+      'pkg-a@1.7.0'
+    )
+  })
+
+  it('#7 errors', async () => {
+    try {
+      await createTag('1.0.0', { cwd })
+      assert.fail('Expected an error')
+    } catch (error) {
+      assert.include((error as Error).message, 'already exists')
+    }
+
+    try {
+      await createTag('1.0', { cwd })
+      assert.fail('Expected an error')
+    } catch (error) {
+      assert.instanceOf(error, KeppoError)
+    }
+
+    try {
+      await listTags({ cwd: tmpdir() })
+      assert.fail('Expected an error')
+    } catch (error) {
+      assert.instanceOf(error, Error)
+    }
+  })
+})
@@ -1,7 +1,21 @@
 import { assert, describe, it } from 'vitest'
-import { Keppo, KeppoComparison } from '../src/index.js'
+import {
+  Keppo,
+  type KeppoChange,
+  KeppoChannels,
+  KeppoComparison,
+  KeppoError,
+  KeppoErrorCode,
+  type KeppoEvent,
+  type KeppoParseResult,
+  type KeppoPolicy,
+  KeppoPolicyError,
+  KeppoRange,
+  type KeppoWritable
+} from '../src/index.js'
 
 const max: number = Number.MAX_SAFE_INTEGER
+const REGEXP_POLICY_LABEL: RegExp = /^(?:|(?:alpha|beta|rc)\.\d+)$/
 
 describe('🧪 Keppo tests 🧪', () => {
   // Construction & formatting
@@ -316,4 +330,1806 @@ describe('🧪 Keppo tests 🧪', () => {
     const instance: Keppo = Keppo.from('1.2.3-alpha')
     assert.equal(instance.toString(), '1.2.3-alpha')
   })
+
+  // Comparison: pre-release precedence
+  it('#68 compare pre-release < release', () => {
+    assert.equal(
+      new Keppo('1.0.0-alpha').compareWith('1.0.0'),
+      KeppoComparison.Older
+    )
+  })
+
+  it('#69 compare release > pre-release', () => {
+    assert.equal(
+      new Keppo('1.0.0').compareWith('1.0.0-alpha'),
+      KeppoComparison.Newer
+    )
+  })
+
+  it('#70 compare numeric identifiers numerically', () => {
+    assert.equal(
+      new Keppo('1.0.0-alpha.1').compareWith('1.0.0-alpha.10'),
+      KeppoComparison.Older
+    )
+  })
+
+  it('#71 compare equal pre-release', () => {
+    assert.equal(
+      new Keppo('1.0.0-rc.1').compareWith('1.0.0-rc.1'),
+      KeppoComparison.Current
+    )
+  })
+
+  it('#72 compare core before pre-release', () => {
+    assert.equal(
+      new Keppo('1.0.1-alpha').compareWith('1.0.0'),
+      KeppoComparison.Newer
+    )
+  })
+
+  it('#73 precedence matrix (semver.org §11)', () => {
+    const ordered: string[] = [
+      '1.0.0-alpha',
+      '1.0.0-alpha.1',
+      '1.0.0-alpha.beta',
+      '1.0.0-beta',
+      '1.0.0-beta.2',
+      '1.0.0-beta.11',
+      '1.0.0-rc.1',
+      '1.0.0'
+    ]
+
+    for (let i = 0; i < ordered.length; i++) {
+      for (let j = 0; j < ordered.length; j++) {
+        const expected: KeppoComparison = Math.sign(i - j) as KeppoComparison
+
+        assert.equal(
+          new Keppo(ordered[i]).compareWith(ordered[j]),
+          expected,
+          `${ordered[i]} vs ${ordered[j]}`
+        )
+      }
+    }
+  })
+
+  // Build metadata
+  it('#74 parse build metadata', () => {
+    assert.equal(Keppo.from('1.2.3+20250916').toString(), '1.2.3+20250916')
+  })
+
+  it('#75 parse label and build metadata', () => {
+    const instance: Keppo = Keppo.from('1.2.3-rc.1+sha.abc123')
+
+    assert.equal(instance.toString(), '1.2.3-rc.1+sha.abc123')
+    assert.equal(instance.getBuild(), 'sha.abc123')
+  })
+
+  it('#76 setBuild()', () => {
+    assert.equal(
+      new Keppo(1, 0, 0).setBuild('build.5').toString(),
+      '1.0.0+build.5'
+    )
+  })
+
+  it('#77 setBuild() with "+" prefix', () => {
+    assert.equal(new Keppo(1, 0, 0).setBuild('+build.5').getBuild(), 'build.5')
+  })
+
+  it('#78 clearBuild()', () => {
+    assert.equal(Keppo.from('1.0.0+build.5').clearBuild().toString(), '1.0.0')
+  })
+
+  it('#79 invalid build metadata throws', () => {
+    assert.throws(() => new Keppo(1, 0, 0).setBuild('build..5'), RangeError)
+  })
+
+  it('#80 isValid with build metadata', () => {
+    assert.isTrue(Keppo.isValid('1.0.0-alpha+001'))
+    assert.isFalse(Keppo.isValid('1.0.0+'))
+  })
+
+  it('#81 compare ignores build metadata', () => {
+    assert.equal(
+      new Keppo('1.0.0+build.1').compareWith('1.0.0+build.2'),
+      KeppoComparison.Current
+    )
+  })
+
+  it('#82 compare with build metadata', () => {
+    assert.equal(
+      new Keppo('1.0.0+build.1').compareWith('1.0.0+build.2', true),
+      KeppoComparison.Older
+    )
+    assert.equal(
+      new Keppo('1.0.0+build.1').compareWith('1.0.0', true),
+      KeppoComparison.Newer
+    )
+    assert.equal(
+      new Keppo('1.0.0+build.1').compareWith('1.0.0+build.1', true),
+      KeppoComparison.Current
+    )
+  })
+
+  it('#83 setVersion() clears build metadata', () => {
+    assert.equal(
+      Keppo.from('1.0.0+build.1').setVersion('2.0.0').toString(),
+      '2.0.0'
+    )
+  })
+
+  // Collections
+  it('#84 Keppo.compare() with Array.prototype.sort()', () => {
+    assert.deepEqual(
+      ['1.0.0', '1.0.0-rc.1', '0.9.0', 'v1.0.1'].sort(Keppo.compare),
+      ['0.9.0', '1.0.0-rc.1', '1.0.0', 'v1.0.1']
+    )
+  })
+
+  it('#85 Keppo.sort() ascending', () => {
+    assert.deepEqual(
+      Keppo.sort(['2.0.0', new Keppo(1, 0, 0), '1.0.0-beta']).map(String),
+      ['1.0.0-beta', '1.0.0', '2.0.0']
+    )
+  })
+
+  it('#86 Keppo.sort() descending', () => {
+    assert.deepEqual(
+      Keppo.sort(['2.0.0', '1.0.0', '1.5.0'], 'desc').map(String),
+      ['2.0.0', '1.5.0', '1.0.0']
+    )
+  })
+
+  it('#87 Keppo.sort() skips invalid entries', () => {
+    assert.deepEqual(Keppo.sort(['2.0.0', 'latest', '1.0']).map(String), [
+      '2.0.0'
+    ])
+  })
+
+  it('#88 Keppo.sort() strict throws on invalid entries', () => {
+    assert.throws(
+      () => Keppo.sort(['2.0.0', 'latest'], 'asc', true),
+      RangeError
+    )
+  })
+
+  it('#89 Keppo.max() and Keppo.min()', () => {
+    const list: string[] = ['1.2.0', 'v2.0.0-rc.1', '1.10.0', 'nightly']
+
+    assert.equal(Keppo.max(list)?.toString(), 'v2.0.0-rc.1')
+    assert.equal(Keppo.min(list)?.toString(), '1.2.0')
+    assert.isNull(Keppo.max([]))
+  })
+
+  it('#90 Keppo.unique()', () => {
+    assert.deepEqual(
+      Keppo.unique(['1.0.0', 'v1.0.0', '1.0.0+build.1', '2.0.0']).map(String),
+      ['1.0.0', '1.0.0+build.1', '2.0.0']
+    )
+  })
+
+  it('#91 Keppo.maxSatisfying() and Keppo.minSatisfying()', () => {
+    const list: string[] = ['1.2.3', '1.4.0', '1.9.9', '2.0.0', '2.0.0-rc.1']
+
+    assert.equal(Keppo.maxSatisfying(list, '^1.2.3')?.toString(), '1.9.9')
+    assert.equal(Keppo.minSatisfying(list, '^1.3.0')?.toString(), '1.4.0')
+    assert.isNull(Keppo.maxSatisfying(list, '^3.0.0'))
+  })
+
+  // Pre-release increments
+  it('#92 increasePrerelease() bumps the last numeric identifier', () => {
+    assert.equal(
+      Keppo.from('1.0.0-beta.2').increasePrerelease().toString(),
+      '1.0.0-beta.3'
+    )
+    assert.equal(
+      Keppo.from('1.0.0-alpha.1.x').increasePrerelease().toString(),
+      '1.0.0-alpha.2.x'
+    )
+  })
+
+  it('#93 increasePrerelease() appends ".0"', () => {
+    assert.equal(
+      Keppo.from('1.0.0-beta').increasePrerelease().toString(),
+      '1.0.0-beta.0'
+    )
+  })
+
+  it('#94 increasePrerelease() on a release', () => {
+    assert.equal(Keppo.from('1.0.0').increasePrerelease().toString(), '1.0.1-0')
+    assert.equal(
+      Keppo.from('1.0.0').increasePrerelease('rc').toString(),
+      '1.0.1-rc.0'
+    )
+  })
+
+  it('#95 increasePrerelease() with identifier', () => {
+    assert.equal(
+      Keppo.from('1.0.0-beta.2').increasePrerelease('beta').toString(),
+      '1.0.0-beta.3'
+    )
+    assert.equal(
+      Keppo.from('1.0.0-beta.2').increasePrerelease('rc').toString(),
+      '1.0.0-rc.0'
+    )
+  })
+
+  it('#96 premajor(), preminor() and prepatch()', () => {
+    assert.equal(Keppo.from('1.2.3').premajor().toString(), '2.0.0-0')
+    assert.equal(
+      Keppo.from('1.2.3').preminor('alpha').toString(),
+      '1.3.0-alpha.0'
+    )
+    assert.equal(
+      Keppo.from('1.2.3-rc.1').prepatch('beta').toString(),
+      '1.2.4-beta.0'
+    )
+  })
+
+  it('#97 release()', () => {
+    assert.equal(Keppo.from('1.0.0-rc.1').release().toString(), '1.0.0')
+    assert.equal(Keppo.from('1.0.1-rc.1').release().toString(), '1.0.1')
+  })
+
+  it('#98 release() on a release throws', () => {
+    assert.throws(() => Keppo.from('1.0.0').release(), RangeError)
+  })
+
+  it('#99 clearLabel()', () => {
+    assert.equal(Keppo.from('1.0.0-rc.1').clearLabel().toString(), '1.0.0')
+  })
+
+  // BigInt mode
+  it('#100 Keppo.from() with bigint parses losslessly', () => {
+    const instance: Keppo = Keppo.from('1.2.18446744073709551617', {
+      bigint: true
+    })
+
+    assert.isTrue(instance.isBigInt())
+    assert.equal(instance.toString(), '1.2.18446744073709551617')
+    assert.equal(instance.getBigPatch(), 18446744073709551617n)
+  })
+
+  it('#101 unsafe components throw without bigint', () => {
+    assert.throws(() => Keppo.from('1.2.18446744073709551617'), RangeError)
+    assert.throws(() => new Keppo(1, 0, max).increasePatch(), RangeError)
+  })
+
+  it('#102 bigint constructor', () => {
+    const instance: Keppo = new Keppo(2n ** 64n, 0, 0)
+
+    assert.isTrue(instance.isBigInt())
+    assert.equal(
+      instance.increaseMajor().toString(),
+      '18446744073709551617.0.0'
+    )
+  })
+
+  it('#103 bigint increments beyond safe integers', () => {
+    assert.equal(
+      new Keppo(1, 0, max).setBigInt().increasePatch(2n).toString(),
+      '1.0.9007199254740993'
+    )
+  })
+
+  it('#104 bigint canIncrease* and maxIncrease*', () => {
+    const instance: Keppo = Keppo.from('1.0.1', { bigint: true })
+
+    assert.isTrue(instance.canIncreaseMajor(max + 1))
+    assert.isTrue(instance.canIncreasePatch(2n ** 70n))
+    assert.equal(instance.maxIncreaseMinor(), Number.POSITIVE_INFINITY)
+  })
+
+  it('#105 bigint comparison', () => {
+    assert.equal(
+      Keppo.from('1.0.9007199254740993', { bigint: true }).compareWith(
+        Keppo.from('1.0.9007199254740992', { bigint: true })
+      ),
+      KeppoComparison.Newer
+    )
+  })
+
+  it('#106 getMajor() throws for unsafe bigint values', () => {
+    const instance: Keppo = new Keppo(2n ** 60n, 0, 0)
+
+    assert.throws(() => instance.getMajor(), RangeError)
+    assert.throws(() => instance.setBigInt(false), RangeError)
+  })
+
+  // Immutable API
+  it('#107 clone()', () => {
+    const instance: Keppo = Keppo.from('v1.2.3-rc.1+build.5')
+    const clone: Keppo = instance.clone()
+
+    clone.increaseMinor()
+
+    assert.equal(instance.toString(), 'v1.2.3-rc.1+build.5')
+    assert.equal(clone.toString(), 'v1.3.0-rc.1+build.5')
+  })
+
+  it('#108 with()', () => {
+    const instance: Keppo = Keppo.from('1.2.3')
+    const changed: Keppo = instance.with({ minor: 5, label: 'rc.1' })
+
+    assert.equal(instance.toString(), '1.2.3')
+    assert.equal(changed.toString(), '1.5.3-rc.1')
+  })
+
+  it('#109 with() invalid value throws', () => {
+    assert.throws(() => Keppo.from('1.2.3').with({ major: -1 }), RangeError)
+  })
+
+  it('#110 bumped()', () => {
+    const instance: Keppo = Keppo.from('1.2.3-rc.1')
+
+    assert.equal(instance.bumped('major').toString(), '2.0.0')
+    assert.equal(instance.bumped('minor').toString(), '1.3.0')
+    assert.equal(instance.bumped('patch').toString(), '1.2.3')
+    assert.equal(Keppo.from('1.3.0-rc.1').bumped('minor').toString(), '1.3.0')
+    assert.equal(Keppo.from('2.0.0-rc.1').bumped('major').toString(), '2.0.0')
+    assert.equal(Keppo.from('1.2.3').bumped('patch').toString(), '1.2.4')
+    assert.equal(instance.bumped('prerelease').toString(), '1.2.3-rc.2')
+    assert.equal(
+      instance.bumped('premajor', 'alpha').toString(),
+      '2.0.0-alpha.0'
+    )
+    assert.equal(instance.bumped('release').toString(), '1.2.3')
+    assert.equal(instance.toString(), '1.2.3-rc.1')
+  })
+
+  it('#111 equals()', () => {
+    assert.isTrue(Keppo.from('v1.2.3-rc.1').equals('1.2.3-rc.1'))
+    assert.isFalse(Keppo.from('1.2.3+build.1').equals('1.2.3+build.2'))
+  })
+
+  it('#112 key() and hashCode() as Map keys', () => {
+    const map: Map<string, string> = new Map()
+
+    map.set(Keppo.from('1.2.3').key(), 'stable')
+
+    assert.equal(map.get(Keppo.from('v1.2.3').key()), 'stable')
+    assert.equal(
+      Keppo.from('1.2.3-rc.1').hashCode(),
+      new Keppo(1, 2, 3, false, 'rc.1').hashCode()
+    )
+    assert.notEqual(
+      Keppo.from('1.2.3').hashCode(),
+      Keppo.from('1.2.4').hashCode()
+    )
+  })
+
+  // Structured errors
+  it('#113 safeParse() valid', () => {
+    const result: KeppoParseResult = Keppo.safeParse('v1.2.3-rc.1')
+
+    assert.isTrue(result.ok)
+    assert.equal(result.ok && result.version.toString(), 'v1.2.3-rc.1')
+  })
+
+  it('#114 safeParse() invalid label', () => {
+    const result: KeppoParseResult = Keppo.safeParse('1.2.3-rc..1')
+
+    assert.isFalse(result.ok)
+
+    if (!result.ok) {
+      assert.equal(result.error.code, KeppoErrorCode.InvalidLabel)
+      assert.equal(result.error.component, 'label')
+      assert.equal(result.error.offset, 9)
+    }
+  })
+
+  it('#115 safeParse() error codes', () => {
+    const cases: [string, KeppoErrorCode, string | null, number | null][] = [
+      ['-1.2.3', KeppoErrorCode.NegativeComponent, 'major', 0],
+      ['1.-2.3', KeppoErrorCode.NegativeComponent, 'minor', 2],
+      ['1.2', KeppoErrorCode.InvalidVersion, 'patch', 3],
+      ['1.x.3', KeppoErrorCode.InvalidComponent, 'minor', 2],
+      ['1.2.9007199254740993', KeppoErrorCode.UnsafeInteger, 'patch', 4],
+      ['1.2.3+build_5', KeppoErrorCode.InvalidBuild, 'build', 11],
+      ['1.2.3 ', KeppoErrorCode.InvalidVersion, null, 5]
+    ]
+
+    for (const [input, code, component, offset] of cases) {
+      const result: KeppoParseResult = Keppo.safeParse(input)
+
+      assert.isFalse(result.ok, input)
+
+      if (!result.ok) {
+        assert.equal(result.error.code, code, input)
+        assert.equal(result.error.component, component, input)
+        assert.equal(result.error.offset, offset, input)
+      }
+    }
+  })
+
+  it('#116 safeParse() non-string input', () => {
+    const result: KeppoParseResult = Keppo.safeParse(42 as unknown as string)
+
+    assert.isFalse(result.ok)
+    assert.equal(!result.ok && result.error.code, KeppoErrorCode.InvalidType)
+  })
+
+  it('#117 throwing paths use KeppoError', () => {
+    assert.throws(() => new Keppo(1, 0, 0).setMajor(-1), KeppoError)
+    assert.throws(() => new Keppo(1, 0, 0).decreaseMinor(), RangeError)
+
+    try {
+      new Keppo(1, 0, 0).setPatch(max + 2)
+      assert.fail('Expected an error')
+    } catch (error) {
+      assert.instanceOf(error, KeppoError)
+      assert.equal((error as KeppoError).code, KeppoErrorCode.UnsafeInteger)
+      assert.equal((error as KeppoError).component, 'patch')
+    }
+
+    const version: Keppo = new Keppo(1, 0, 0)
+    const wrongTypes: [() => unknown, string | null][] = [
+      [() => version.setLabel(1 as unknown as string), 'label'],
+      [() => version.setBuild(1 as unknown as string), 'build'],
+      [() => version.setVersion(1 as unknown as string), null],
+      [() => new Keppo(1, true as unknown as number, 0), 'minor'],
+      [() => version.compareWith(1 as unknown as string), null],
+      [() => version.compareWith(null as unknown as string), null],
+      [() => version.compareWith({} as unknown as Keppo), null]
+    ]
+
+    for (const [call, component] of wrongTypes) {
+      try {
+        call()
+        assert.fail('Expected an error')
+      } catch (error) {
+        assert.instanceOf(error, KeppoError)
+        assert.equal((error as KeppoError).code, KeppoErrorCode.InvalidType)
+        assert.equal((error as KeppoError).component, component)
+      }
+    }
+
+    assert.throws(() => version.compareWith('1.2'), 'with strict mode = true.')
+  })
+
+  // Coercion
+  it('#118 coerce() messy strings', () => {
+    const cases: [string, string][] = [
+      ['release-v2.4', '2.4.0'],
+      ['Node.js 22.18.0 (LTS)', '22.18.0'],
+      ['1.2', '1.2.0'],
+      ['v3', '3.0.0'],
+      ['1.2.3.4', '1.2.3'],
+      ['version 1.2.3-rc.1+build.5', '1.2.3']
+    ]
+
+    for (const [input, expected] of cases) {
+      assert.equal(Keppo.coerce(input)?.toString(), expected, input)
+    }
+  })
+
+  it('#119 coerce() no version', () => {
+    assert.isNull(Keppo.coerce('latest'))
+    assert.isNull(Keppo.coerce(''))
+  })
+
+  it('#120 coerce() last', () => {
+    assert.equal(
+      Keppo.coerce('upgrade 1.2.0 to 1.4.1', { last: true })?.toString(),
+      '1.4.1'
+    )
+  })
+
+  it('#121 coerce() keeps suffixes', () => {
+    assert.equal(
+      Keppo.coerce('tag: v1.2.3-rc.1+build.5', {
+        includePrerelease: true,
+        includeBuild: true
+      })?.toString(),
+      '1.2.3-rc.1+build.5'
+    )
+    assert.equal(
+      Keppo.coerce('v1.2.3-rc.1+build.5', { includeBuild: true })?.toString(),
+      '1.2.3+build.5'
+    )
+  })
+
+  it('#122 coerce() loose mode', () => {
+    assert.equal(
+      Keppo.coerce('release-2.4', { strict: false })?.toString(),
+      'v2.4.0'
+    )
+  })
+
+  it('#123 coerce() skips unsafe integers', () => {
+    assert.equal(
+      Keppo.coerce('build 99999999999999999999 of 1.2')?.toString(),
+      '1.2.0'
+    )
+    assert.equal(
+      Keppo.coerce('build 99999999999999999999', { bigint: true })?.toString(),
+      '99999999999999999999.0.0'
+    )
+  })
+
+  // Specification conformance
+  it('#124 leading zeros throw in strict mode', () => {
+    try {
+      Keppo.from('1.02.3')
+      assert.fail('Expected an error')
+    } catch (error) {
+      assert.instanceOf(error, KeppoError)
+      assert.equal((error as KeppoError).code, KeppoErrorCode.LeadingZero)
+      assert.equal((error as KeppoError).component, 'minor')
+      assert.equal((error as KeppoError).offset, 2)
+    }
+
+    assert.throws(() => Keppo.from('1.2.3-alpha.01'), KeppoError)
+    assert.throws(() => new Keppo(1, 0, 0, true, 'alpha.01'), KeppoError)
+    assert.throws(() => Keppo.from('v1.02.3'), KeppoError)
+    assert.throws(() => Keppo.from('v1.2.3-alpha.01'), KeppoError)
+    assert.equal(Keppo.from('v1.2.3').toString(), 'v1.2.3')
+  })
+
+  it('#125 leading zeros are tolerated in loose mode with warnings', () => {
+    const result: KeppoParseResult = Keppo.safeParse('v01.2.3-alpha.01', false)
+
+    assert.isTrue(result.ok)
+
+    if (result.ok) {
+      assert.equal(result.version.toString(), 'v1.2.3-alpha.1')
+      assert.deepEqual(
+        result.warnings.map((warning: KeppoError) => [
+          warning.code,
+          warning.component,
+          warning.offset
+        ]),
+        [
+          [KeppoErrorCode.LeadingZero, 'major', 1],
+          [KeppoErrorCode.LeadingZero, 'label', 14]
+        ]
+      )
+    }
+
+    assert.equal(Keppo.from('1.02.3', false).toString(), '1.2.3')
+
+    // leading zeros of numeric label identifiers are trimmed as well
+    const loose: Keppo = Keppo.from('1.2.3-alpha.01', false)
+
+    assert.equal(loose.toString(), '1.2.3-alpha.1')
+    assert.equal(Keppo.fromObject(loose.toObject()).toString(), '1.2.3-alpha.1')
+  })
+
+  it('#126 strict parse has no warnings', () => {
+    const result: KeppoParseResult = Keppo.safeParse('1.2.3')
+
+    assert.deepEqual(result.ok && result.warnings, [])
+  })
+
+  it('#127 label case is kept as written', () => {
+    assert.equal(Keppo.from('1.0.0-RC.1').toString(), '1.0.0-RC.1')
+    assert.equal(
+      Keppo.from('v1.0.0-RC.1+Build').toString(),
+      'v1.0.0-RC.1+Build'
+    )
+  })
+
+  it('#128 label identifiers compare in ASCII order', () => {
+    assert.equal(
+      Keppo.from('1.0.0-RC.1').compareWith('1.0.0-rc.1'),
+      KeppoComparison.Older
+    )
+  })
+
+  it('#129 isValid() strict rejects leading zeros, loose tolerates them', () => {
+    assert.isFalse(Keppo.isValid('01.2.3'))
+    assert.isTrue(Keppo.isValid('01.2.3', false))
+  })
+
+  it('#130 diff()', () => {
+    const version: Keppo = Keppo.from('1.2.3')
+
+    assert.equal(version.diff('2.0.0'), 'major')
+    assert.equal(version.diff('1.3.0'), 'minor')
+    assert.equal(version.diff('1.2.4'), 'patch')
+    assert.equal(version.diff('1.0.0'), 'minor')
+    assert.equal(version.diff(Keppo.from('v1.2.3', false)), null)
+    assert.isNull(version.diff('1.2.3'))
+  })
+
+  it('#131 diff() pre-releases and build', () => {
+    assert.equal(Keppo.from('1.2.3').diff('2.0.0-rc.1'), 'premajor')
+    assert.equal(Keppo.from('1.2.3-rc.1').diff('1.3.0'), 'minor')
+    assert.equal(Keppo.from('1.2.3-rc.1').diff('1.2.4-rc.1'), 'prepatch')
+    assert.equal(Keppo.from('1.2.3-rc.1').diff('1.2.3-rc.2'), 'prerelease')
+    assert.equal(Keppo.from('1.2.3-rc.1').diff('1.2.3'), 'patch')
+    assert.equal(Keppo.from('1.2.3-rc.1').diff('1.2.4'), 'patch')
+    assert.equal(Keppo.from('1.0.0-rc.1').diff('1.0.0'), 'major')
+    assert.equal(Keppo.from('1.2.0-rc.1').diff('1.2.0'), 'minor')
+    assert.equal(Keppo.from('1.3.0').diff('1.2.3-rc.1'), 'minor')
+    assert.equal(Keppo.from('1.2.3').diff('1.2.4-rc.1'), 'prepatch')
+    assert.equal(Keppo.from('1.2.3+build.1').diff('1.2.3+build.2'), 'build')
+    assert.equal(Keppo.from('1.2.3').diff('1.2.3+build.2'), 'build')
+  })
+
+  it('#132 diff() detailed', () => {
+    assert.deepEqual(Keppo.from('1.5.2').diff('2.2.0', true), {
+      kind: 'major',
+      major: 1,
+      minor: -3,
+      patch: -2
+    })
+    assert.deepEqual(Keppo.from('1.2.0').diff('1.5.0', true), {
+      kind: 'minor',
+      major: 0,
+      minor: 3,
+      patch: 0
+    })
+    assert.deepEqual(Keppo.from('1.2.0').diff('1.2.0', true), {
+      kind: null,
+      major: 0,
+      minor: 0,
+      patch: 0
+    })
+  })
+
+  it('#133 diff() detailed unsafe delta', () => {
+    const version: Keppo = Keppo.from('0.0.0')
+    const other: Keppo = Keppo.from('99999999999999999999.0.0', {
+      bigint: true
+    })
+
+    assert.equal(version.diff(other), 'major')
+    assert.throws(() => version.diff(other, true), KeppoError)
+    assert.throws(() => version.diff('1.2'), KeppoError)
+  })
+
+  it('#134 toJSON()', () => {
+    assert.equal(
+      JSON.stringify({ version: Keppo.from('1.2.3-rc.1+build.5') }),
+      '{"version":"1.2.3-rc.1+build.5"}'
+    )
+    assert.equal(JSON.stringify([Keppo.from('v2.0.0')]), '["v2.0.0"]')
+  })
+
+  it('#135 reviver()', () => {
+    const json: string = JSON.stringify({
+      name: 'keppo',
+      version: Keppo.from('v1.2.3-rc.1'),
+      range: '^1.2.3',
+      object: Keppo.from('2.0.0').toObject()
+    })
+    const parsed: Record<string, unknown> = JSON.parse(json, Keppo.reviver)
+
+    assert.equal(parsed.name, 'keppo')
+    assert.equal(parsed.range, '^1.2.3')
+    assert.instanceOf(parsed.version, Keppo)
+    assert.equal(String(parsed.version), 'v1.2.3-rc.1')
+    assert.instanceOf(parsed.object, Keppo)
+    assert.equal(String(parsed.object), '2.0.0')
+    assert.deepEqual(
+      JSON.parse(
+        '{"major":1,"minor":-1,"patch":0,"prerelease":"","build":"","strict":true}',
+        Keppo.reviver
+      ),
+      { major: 1, minor: -1, patch: 0, prerelease: '', build: '', strict: true }
+    )
+  })
+
+  it('#136 toObject() and fromObject()', () => {
+    const version: Keppo = Keppo.from('v1.2.3-rc.1+build.5')
+
+    assert.deepEqual(version.toObject(), {
+      major: 1,
+      minor: 2,
+      patch: 3,
+      prerelease: 'rc.1',
+      build: 'build.5',
+      strict: false
+    })
+    assert.isTrue(Keppo.fromObject(version.toObject()).equals(version))
+    assert.equal(
+      Keppo.fromObject(version.toObject()).toString(),
+      'v1.2.3-rc.1+build.5'
+    )
+
+    const big: Keppo = Keppo.fromObject({
+      major: 99999999999999999999n,
+      minor: 0,
+      patch: 1,
+      prerelease: '',
+      build: '',
+      strict: true
+    })
+
+    assert.isTrue(big.isBigInt())
+    assert.equal(big.toString(), '99999999999999999999.0.1')
+    assert.deepEqual(big.toObject().major, 99999999999999999999n)
+    assert.throws(
+      () =>
+        Keppo.fromObject({
+          major: 1,
+          minor: 0,
+          patch: 0,
+          prerelease: '01',
+          build: '',
+          strict: true
+        }),
+      KeppoError
+    )
+  })
+
+  it('#137 pattern()', () => {
+    const strict: RegExp = new RegExp(Keppo.pattern())
+    const loose: RegExp = new RegExp(Keppo.pattern(false))
+
+    for (const version of [
+      '1.2.3',
+      '1.2.3-rc.1+b',
+      'v1.2.3',
+      '01.2.3',
+      '1.2'
+    ]) {
+      assert.equal(strict.test(version), Keppo.isValid(version), version)
+      assert.equal(loose.test(version), Keppo.isValid(version, false), version)
+    }
+  })
+
+  it('#138 format() presets', () => {
+    const version: Keppo = Keppo.from('v1.2.3-rc.1+build.5')
+
+    assert.equal(version.format(), 'v1.2.3-rc.1+build.5')
+    assert.equal(version.format('full'), version.toString())
+    assert.equal(version.format('short'), '1.2')
+    assert.equal(version.format('docker'), '1.2.3-rc.1_build.5')
+    assert.equal(version.format('padded'), '0001.0002.0003')
+    assert.equal(version.format('fileversion'), '1,2,3,0')
+    assert.equal(Keppo.from('1.2.3').format('docker'), '1.2.3')
+  })
+
+  it('#139 format() templates', () => {
+    const version: Keppo = Keppo.from('1.2.3-beta')
+
+    assert.equal(
+      version.format('{prefix}{major}.{minor}{-prerelease}{+build}'),
+      '1.2-beta'
+    )
+    assert.equal(version.format('app-{major:2}{~prerelease}'), 'app-01~beta')
+    assert.equal(version.format('{{major}} = {major}'), '{major} = 1')
+    assert.equal(version.format('release'), 'release')
+    assert.equal(
+      Keppo.from('12345.0.0', { bigint: true }).format('{major:3}'),
+      '12345'
+    )
+  })
+
+  it('#140 format() invalid templates', () => {
+    for (const template of ['{revision}', '{major', 'major}', '{*major}']) {
+      try {
+        Keppo.from('1.2.3').format(template)
+        assert.fail(`Expected an error for "${template}"`)
+      } catch (error) {
+        assert.instanceOf(error, KeppoError)
+        assert.equal((error as KeppoError).code, KeppoErrorCode.InvalidFormat)
+      }
+    }
+  })
+
+  it('#141 output() to a stream', () => {
+    const chunks: string[] = []
+    const stream: KeppoWritable = {
+      write: (chunk: string) => chunks.push(chunk)
+    }
+
+    Keppo.from('1.2.3').output('short', stream)
+    Keppo.from('v2.0.0').output(undefined, stream)
+
+    assert.deepEqual(chunks, ['1.2\n', 'v2.0.0\n'])
+  })
+
+  it('#142 history records mutating calls', () => {
+    const version: Keppo = Keppo.from('1.2.3').setHistory()
+
+    version.increaseMinor().setLabel('rc.1').decreasePatch(0).premajor('beta')
+
+    assert.deepEqual(version.history(), [
+      {
+        operation: 'increaseMinor',
+        args: [1],
+        before: '1.2.3',
+        after: '1.3.0'
+      },
+      {
+        operation: 'setLabel',
+        args: ['rc.1'],
+        before: '1.3.0',
+        after: '1.3.0-rc.1'
+      },
+      {
+        operation: 'premajor',
+        args: ['beta'],
+        before: '1.3.0-rc.1',
+        after: '2.0.0-beta.0'
+      }
+    ])
+    // calls that leave the version as it was are not recorded
+    assert.lengthOf(version.setMajor(2).clearBuild().history(), 3)
+    assert.deepEqual(version.setMajor(10n).history().at(-1)?.args, ['10'])
+    assert.isFalse(Keppo.from('1.2.3').hasHistory())
+    assert.isTrue(version.hasHistory())
+  })
+
+  it('#143 undo() and redo()', () => {
+    const version: Keppo = Keppo.from('1.2.3').setHistory()
+
+    version.increaseMinor().setLabel('rc.1').setBuild('sha.1')
+    assert.isTrue(version.canUndo())
+    assert.isFalse(version.canRedo())
+
+    assert.equal(version.undo().undo().toString(), '1.3.0')
+    assert.isTrue(version.canRedo())
+    assert.equal(version.redo().toString(), '1.3.0-rc.1')
+
+    // a new call discards what can be redone
+    version.increasePatch()
+    assert.isFalse(version.canRedo())
+    assert.equal(version.redo().toString(), '1.3.1-rc.1')
+    assert.equal(version.undo().undo().undo().undo().toString(), '1.2.3')
+    assert.isFalse(version.canUndo())
+
+    assert.deepEqual(
+      version
+        .history()
+        .slice(3)
+        .map((entry) => `${entry.operation} ${entry.before} → ${entry.after}`),
+      [
+        'undo 1.3.0-rc.1+sha.1 → 1.3.0-rc.1',
+        'undo 1.3.0-rc.1 → 1.3.0',
+        'redo 1.3.0 → 1.3.0-rc.1',
+        'increasePatch 1.3.0-rc.1 → 1.3.1-rc.1',
+        'undo 1.3.1-rc.1 → 1.3.0-rc.1',
+        'undo 1.3.0-rc.1 → 1.3.0',
+        'undo 1.3.0 → 1.2.3'
+      ]
+    )
+  })
+
+  it('#144 undo() restores modes', () => {
+    const version: Keppo = Keppo.from('1.2.3').setHistory()
+
+    version.setVersion('v2.0.0').setBigInt()
+    assert.isTrue(version.isBigInt())
+
+    version.undo().undo()
+    assert.equal(version.toString(), '1.2.3')
+    assert.isFalse(version.isBigInt())
+    assert.throws(() => version.setLabel('alpha.01'), KeppoError)
+    assert.deepEqual(
+      version.history().map((entry) => entry.operation),
+      ['setVersion', 'setBigInt', 'undo', 'undo']
+    )
+  })
+
+  it('#145 checkpoint() and restore()', () => {
+    const version: Keppo = Keppo.from('1.2.3').setHistory()
+
+    version.checkpoint('start').increaseMajor().setLabel('rc.1')
+    version.checkpoint('rc').release()
+
+    assert.equal(version.restore('start').toString(), '1.2.3')
+    assert.equal(version.restore('rc').toString(), '2.0.0-rc.1')
+    assert.equal(version.undo().toString(), '1.2.3')
+    assert.deepEqual(version.history().at(-2), {
+      operation: 'restore',
+      args: ['rc'],
+      before: '1.2.3',
+      after: '2.0.0-rc.1'
+    })
+
+    try {
+      version.restore('missing')
+      assert.fail('Expected restore() to throw')
+    } catch (error) {
+      assert.instanceOf(error, KeppoError)
+      assert.equal((error as KeppoError).code, KeppoErrorCode.UnknownCheckpoint)
+    }
+  })
+
+  it('#146 exportHistory() and disabled history', () => {
+    const version: Keppo = Keppo.from('1.2.3').setHistory()
+
+    version.increasePrerelease().increasePrerelease('rc')
+    assert.deepEqual(JSON.parse(version.exportHistory()), version.history())
+    assert.equal(JSON.parse(version.exportHistory())[1].args[0], 'rc')
+
+    // failed calls are not recorded
+    assert.throws(() => version.setLabel('bad..label'), KeppoError)
+    assert.lengthOf(version.history(), 2)
+
+    // clones don't inherit the history
+    assert.isFalse(version.clone().hasHistory())
+    assert.isFalse(version.bumped('minor').hasHistory())
+
+    version.setHistory(false).increaseMajor()
+    assert.isFalse(version.canUndo())
+
+    for (const call of [
+      () => version.undo(),
+      () => version.redo(),
+      () => version.history(),
+      () => version.checkpoint('x'),
+      () => version.restore('x'),
+      () => version.exportHistory()
+    ]) {
+      try {
+        call()
+        assert.fail('Expected the call to throw')
+      } catch (error) {
+        assert.equal((error as KeppoError).code, KeppoErrorCode.HistoryDisabled)
+      }
+    }
+
+    assert.deepEqual(version.setHistory().history(), [])
+  })
+
+  it('#147 on() change events', () => {
+    const changes: string[] = []
+    const listener = (change: KeppoChange): void => {
+      changes.push(
+        `${change.operation}(${change.args.join(', ')}) ${change.before} → ${change.after}`
+      )
+    }
+    const version: Keppo = Keppo.from('1.2.3').on('change', listener)
+
+    version
+      .increaseMinor()
+      .setLabel('rc.1')
+      .premajor('beta')
+      .decreasePatch(0)
+      .setVersion('3.0.0')
+      .reset()
+
+    assert.deepEqual(changes, [
+      'increaseMinor(1) 1.2.3 → 1.3.0',
+      'setLabel(rc.1) 1.3.0 → 1.3.0-rc.1',
+      'premajor(beta) 1.3.0-rc.1 → 2.0.0-beta.0',
+      'setVersion(3.0.0) 2.0.0-beta.0 → 3.0.0',
+      'reset() 3.0.0 → 0.0.0'
+    ])
+
+    version.off('change', listener).increaseMajor()
+    assert.lengthOf(changes, 5)
+    assert.throws(
+      () => version.on('update' as KeppoEvent, listener),
+      KeppoError
+    )
+  })
+
+  it('#148 change events of undo(), redo() and restore()', () => {
+    const operations: string[] = []
+    const version: Keppo = Keppo.from('1.2.3')
+      .setHistory()
+      .on('change', (change: KeppoChange) => {
+        operations.push(`${change.operation} ${change.after}`)
+      })
+
+    version.checkpoint('start').increasePatch().undo().redo().restore('start')
+
+    assert.deepEqual(operations, [
+      'increasePatch 1.2.4',
+      'undo 1.2.3',
+      'redo 1.2.4',
+      'restore 1.2.3'
+    ])
+  })
+
+  it('#149 policies veto changes', () => {
+    const labels: KeppoPolicy = {
+      name: 'labels',
+      check: (change: KeppoChange) =>
+        REGEXP_POLICY_LABEL.test(change.after.getLabel())
+          ? null
+          : 'Labels must be alpha, beta or rc followed by a number.'
+    }
+    const noMajorDecrease: KeppoPolicy = {
+      name: 'no-major-decrease',
+      check: (change: KeppoChange) =>
+        change.after.getBigMajor() < change.before.getBigMajor()
+          ? 'The major version may never decrease.'
+          : null
+    }
+    const noZeroMajor: KeppoPolicy = {
+      name: 'no-zero-major',
+      check: (change: KeppoChange) =>
+        change.after.getMajor() === 0 ? 'Versions must not be 0.x.' : null
+    }
+    const changes: KeppoChange[] = []
+    const version: Keppo = Keppo.from('1.2.3')
+      .addPolicy(labels)
+      .addPolicy(noMajorDecrease)
+      .addPolicy(noZeroMajor)
+      .on('change', (change: KeppoChange) => changes.push(change))
+
+    assert.equal(version.setLabel('rc.1').toString(), '1.2.3-rc.1')
+
+    try {
+      version.setLabel('preview')
+      assert.fail('Expected setLabel() to throw')
+    } catch (error) {
+      assert.instanceOf(error, KeppoPolicyError)
+      assert.instanceOf(error, KeppoError)
+      assert.equal(
+        (error as KeppoPolicyError).code,
+        KeppoErrorCode.PolicyViolation
+      )
+      assert.equal((error as KeppoPolicyError).policy, 'labels')
+      assert.equal((error as KeppoPolicyError).change.operation, 'setLabel')
+      assert.equal(
+        (error as KeppoPolicyError).message,
+        'Policy "labels" rejected "1.2.3-preview": Labels must be alpha, beta or rc followed by a number.'
+      )
+    }
+
+    // rejected changes leave the version as it was and emit nothing
+    assert.equal(version.toString(), '1.2.3-rc.1')
+    assert.lengthOf(changes, 1)
+
+    assert.throws(() => version.decreaseMajor(), KeppoPolicyError)
+    assert.throws(() => version.reset(), KeppoPolicyError)
+    assert.throws(() => version.premajor('canary'), KeppoPolicyError)
+    assert.equal(version.toString(), '1.2.3-rc.1')
+
+    version.removePolicy(noMajorDecrease)
+    assert.throws(
+      () => version.setVersion('0.9.0'),
+      KeppoPolicyError,
+      'no-zero-major'
+    )
+    assert.throws(() => version.setMajor(0), KeppoPolicyError)
+    assert.equal(version.toString(), '1.2.3-rc.1')
+  })
+
+  it('#150 policies and the history', () => {
+    const version: Keppo = Keppo.from('1.2.3').setHistory()
+
+    version.increaseMajor().addPolicy({
+      name: 'no-major-decrease',
+      check: (change: KeppoChange) =>
+        change.after.getBigMajor() < change.before.getBigMajor()
+          ? 'The major version may never decrease.'
+          : null
+    })
+
+    assert.throws(() => version.undo(), KeppoPolicyError)
+    assert.equal(version.toString(), '2.0.0')
+    assert.isTrue(version.canUndo())
+    assert.lengthOf(version.history(), 1)
+
+    // clones don't inherit listeners and policies
+    assert.equal(version.clone().decreaseMajor().toString(), '1.0.0')
+  })
+
+  it('#151 listeners run after the history is recorded', () => {
+    const calls: string[] = []
+    const failing: Keppo = Keppo.from('1.2.3')
+      .setHistory()
+      .on('change', () => {
+        throw new Error('listener failed')
+      })
+      .on('change', (change: KeppoChange) => calls.push(change.operation))
+
+    assert.throws(() => failing.increasePatch(), 'listener failed')
+    assert.deepEqual(calls, ['increasePatch'])
+    assert.equal(failing.toString(), '1.2.4')
+    assert.isTrue(failing.canUndo())
+    assert.throws(() => failing.undo(), 'listener failed')
+    assert.equal(failing.toString(), '1.2.3')
+    assert.isTrue(failing.canRedo())
+
+    // a listener that changes the version records its step after the outer one
+    const version: Keppo = Keppo.from('1.2.3').setHistory()
+
+    version.on('change', (change: KeppoChange) => {
+      if (change.operation === 'setLabel') {
+        version.setBuild('b1')
+      }
+    })
+
+    version.setLabel('rc.1')
+    assert.equal(version.toString(), '1.2.3-rc.1+b1')
+    assert.equal(version.undo().toString(), '1.2.3-rc.1')
+    assert.equal(version.undo().toString(), '1.2.3')
+    assert.isFalse(version.canUndo())
+  })
+
+  it('#152 failed calls are rolled back', () => {
+    const version: Keppo = Keppo.from('1.2.3').setHistory()
+
+    // premajor() increases the major version before the label is checked
+    assert.throws(() => version.premajor('not valid'), KeppoError)
+    assert.equal(version.toString(), '1.2.3')
+    assert.isFalse(version.canUndo())
+  })
+
+  it('#153 invalid identifiers leave the version unchanged', () => {
+    const version: Keppo = Keppo.from('1.0.0')
+
+    assert.throws(() => version.increasePrerelease('bad!'), KeppoError)
+    assert.throws(() => version.premajor('bad!'), KeppoError)
+    assert.throws(() => version.preminor('bad!'), KeppoError)
+    assert.throws(() => version.prepatch('bad!'), KeppoError)
+    assert.equal(version.toString(), '1.0.0')
+  })
+
+  it('#154 policies check a change before it is applied', () => {
+    const seen: string[] = []
+    const changes: KeppoChange[] = []
+    const version: Keppo = Keppo.from('1.2.3')
+
+    version
+      .addPolicy({
+        name: 'spy',
+        check: () => {
+          seen.push(version.toString())
+          return null
+        }
+      })
+      .on('change', (change: KeppoChange) => changes.push(change))
+      .premajor('rc')
+      .setMajor(2)
+      .clearBuild()
+
+    // the instance still holds the old version while the policy runs
+    assert.deepEqual(seen, ['1.2.3'])
+    assert.lengthOf(changes, 1)
+    assert.equal(version.toString(), '2.0.0-rc.0')
+  })
+})
+
+describe('🧪 KeppoRange tests 🧪', () => {
+  // [range, version, options?]
+  const satisfied: [string, string, boolean?][] = [
+    ['1.0.0 - 2.0.0', '1.2.3'],
+    ['^1.2.3+build', '1.2.3'],
+    ['^1.2.3+build', '1.3.0'],
+    ['1.2.3-pre+asdf - 2.4.3-pre+asdf', '1.2.3'],
+    ['1.2.3-pre+asdf - 2.4.3-pre+asdf', '1.2.3-pre.2'],
+    ['1.2.3-pre+asdf - 2.4.3-pre+asdf', '2.4.3-alpha'],
+    ['1.2.3+asdf - 2.4.3+asdf', '1.2.3'],
+    ['1.0.0', '1.0.0'],
+    ['>=*', '0.2.4'],
+    ['', '1.0.0'],
+    ['*', '1.2.3'],
+    ['>=1.0.0', '1.0.1'],
+    ['>1.0.0', '1.1.0'],
+    ['<=2.0.0', '2.0.0'],
+    ['<2.0.0', '1.9999.9999'],
+    ['>= 1.0.0', '1.0.0'],
+    ['<=  2.0.0', '0.2.9'],
+    ['0.1.20 || 1.2.4', '1.2.4'],
+    ['>=0.2.3 || <0.0.1', '0.0.0'],
+    ['||', '1.3.4'],
+    ['2.x.x', '2.1.3'],
+    ['1.2.x', '1.2.3'],
+    ['1.2.x || 2.x', '2.1.3'],
+    ['x', '1.2.3'],
+    ['2.*.*', '2.1.3'],
+    ['2', '2.1.2'],
+    ['2.3', '2.3.1'],
+    ['~0.0.1', '0.0.1'],
+    ['~2.4', '2.4.5'],
+    ['~>3.2.1', '3.2.2'],
+    ['~1', '1.2.3'],
+    ['~> 1', '1.2.3'],
+    ['~1.0', '1.0.2'],
+    ['>=1', '1.0.0'],
+    ['<1.2', '1.1.1'],
+    ['~v0.5.4-pre', '0.5.5'],
+    ['~v0.5.4-pre', '0.5.4'],
+    ['=0.7.x', '0.7.2'],
+    ['<=0.7.x', '0.7.2'],
+    ['>=0.7.x', '0.7.2'],
+    ['<=0.7.x', '0.6.2'],
+    ['~1.2.1 >=1.2.3', '1.2.3'],
+    ['>=1.2.1 1.2.3', '1.2.3'],
+    ['^1.2.3', '1.8.1'],
+    ['^0.1.2', '0.1.2'],
+    ['^0.1', '0.1.2'],
+    ['^0.0.1', '0.0.1'],
+    ['^1.2', '1.4.2'],
+    ['^1.2.3-alpha', '1.2.3-pre'],
+    ['^1.2.0-alpha', '1.2.0-pre'],
+    ['^0.0.1-alpha', '0.0.1-beta'],
+    ['^0.1.1-alpha', '0.1.1-beta'],
+    ['^x', '1.2.3'],
+    ['<=7.x', '7.9.9'],
+    ['^1.0.0', '1.0.1-rc1', true],
+    ['1 - 2', '2.0.0-pre', true],
+    ['1.x', '1.0.0-0', true],
+    ['*', '1.0.0-rc1', true],
+    ['^1.2', '1.2.0-pre', true],
+    ['~1.2', '1.2.0-pre', true],
+    ['>=2.0.0 <3.0.0-0', '2.9.9'],
+    ['1.2.3 - 2.3.4', '2.3.4']
+  ]
+
+  const unsatisfied: [string, string, boolean?][] = [
+    ['1.0.0 - 2.0.0', '2.2.3'],
+    ['1.2.3+asdf - 2.4.3+asdf', '1.2.3-pre.2'],
+    ['1.2.3+asdf - 2.4.3+asdf', '2.4.3-alpha'],
+    ['^1.2.3+build', '2.0.0'],
+    ['^1.2.3+build', '1.2.0'],
+    ['^1.2.3', '1.2.3-pre'],
+    ['^1.2', '1.2.0-pre'],
+    ['>1.2', '1.3.0-beta'],
+    ['<=1.2.3', '1.2.3-beta'],
+    ['^1.2.3', '1.2.3-beta'],
+    ['=0.7.x', '0.7.0-asdf'],
+    ['>=0.7.x', '0.7.0-asdf'],
+    ['1', '1.0.0beta'],
+    ['<1', '1.0.0beta'],
+    ['< 1', '1.0.0beta'],
+    ['1.0.0', '1.0.1'],
+    ['>=1.0.0', '0.0.0'],
+    ['>=1.0.0', '0.0.1'],
+    ['>=1.0.0', '0.1.0'],
+    ['>1.0.0', '0.0.1'],
+    ['<=2.0.0', '3.0.0'],
+    ['<2.0.0', '2.2.9'],
+    ['0.1.20 || 1.2.4', '1.2.3'],
+    ['>=0.2.3 || <0.0.1', '0.0.3'],
+    ['2.x.x', '1.1.3'],
+    ['2.x.x', '3.1.3'],
+    ['1.2.x', '1.3.3'],
+    ['1.2.x || 2.x', '3.1.3'],
+    ['2.*.*', '5.0.1'],
+    ['2', '1.1.2'],
+    ['2.3', '2.4.1'],
+    ['~0.0.1', '0.1.0-alpha'],
+    ['~0.0.1', '0.1.0'],
+    ['~2.4', '2.5.0'],
+    ['~>3.2.1', '3.3.2'],
+    ['~1', '0.2.3'],
+    ['~1.0', '1.1.0'],
+    ['<1', '1.0.0'],
+    ['>=1.2', '1.1.1'],
+    ['~v0.5.4-beta', '0.5.4-alpha'],
+    ['=0.7.x', '0.8.2'],
+    ['>=0.7.x', '0.6.2'],
+    ['<0.7.x', '0.7.2'],
+    ['<1.2.3', '1.2.3-beta'],
+    ['=1.2.3', '1.2.3-beta'],
+    ['>1.2', '1.2.8'],
+    ['^0.0.1', '0.0.2'],
+    ['^1.2.3', '2.0.0-alpha'],
+    ['^1.2.3', '1.2.2'],
+    ['^1.2', '1.1.9'],
+    ['*', '1.2.3-foo'],
+    ['blerg', '1.2.3'],
+    ['^1.2.3', '2.0.0-pre', true],
+    ['0.x', '1.0.0-0', true],
+    ['2.x', '3.0.0-pre.0', true],
+    ['^1.2.3-rc2', '2.0.0', true],
+    ['^1.0.0', '2.0.0-rc1', true],
+    ['^1.2.3', '1.2.3-alpha', true],
+    ['~1.2.3', '1.2.3-alpha', true],
+    ['>=2.0.0 <3.0.0-0', '3.0.0-0'],
+    ['1.2.3 - 2.3.4', '2.3.5'],
+    ['^1.2.3', 'not-a-version']
+  ]
+
+  it('#1 satisfied ranges (node-semver fixtures)', () => {
+    for (const [range, version, includePrerelease] of satisfied) {
+      assert.isTrue(
+        new Keppo(version).satisfies(range, { includePrerelease }),
+        `${version} satisfies ${range}`
+      )
+    }
+  })
+
+  it('#2 unsatisfied ranges (node-semver fixtures)', () => {
+    for (const [range, version, includePrerelease] of unsatisfied) {
+      const isRangeValid: boolean = KeppoRange.isValid(range)
+
+      assert.isFalse(
+        isRangeValid &&
+          new KeppoRange(range, { includePrerelease }).test(version),
+        `${version} does not satisfy ${range}`
+      )
+    }
+  })
+
+  it('#3 range toString()', () => {
+    assert.equal(new KeppoRange('^1.2.3').toString(), '>=1.2.3 <2.0.0-0')
+    assert.equal(new KeppoRange('~1.4').toString(), '>=1.4.0 <1.5.0-0')
+    assert.equal(
+      new KeppoRange('1.2.3 - 2.3.4 || 3.x').toString(),
+      '>=1.2.3 <=2.3.4 || >=3.0.0 <4.0.0-0'
+    )
+  })
+
+  it('#4 invalid range throws', () => {
+    assert.throws(() => new KeppoRange('>=1.x.y'), RangeError)
+    assert.isFalse(KeppoRange.isValid('blerg'))
+  })
+
+  it('#5 comparators()', () => {
+    const [[lower, upper]] = new KeppoRange('^0.2.3').comparators()
+
+    assert.equal(lower.operator, '>=')
+    assert.equal(lower.version.toString(), '0.2.3')
+    assert.equal(upper.operator, '<')
+    assert.equal(upper.version.toString(), '0.3.0-0')
+  })
+
+  it('#6 satisfies() with a KeppoRange instance', () => {
+    assert.isTrue(Keppo.from('1.4.7').satisfies(new KeppoRange('~1.4')))
+  })
+
+  it('#7 intersects()', () => {
+    const cases: [string, string, boolean][] = [
+      ['^1.2.0', '>=1.4.0 <1.9.0', true],
+      ['^1.2.0', '^2.0.0', false],
+      ['~1.4.2', '>=1.4.9', true],
+      ['1.x || 3.x', '>=2.0.0 <3.0.1', true],
+      ['>1.0.0', '<1.0.1', false],
+      ['>=1.0.0-rc.1 <1.0.0', '<2.0.0', false],
+      ['>=1.0.0-rc.1 <1.0.0', '>=1.0.0-rc.2 <1.0.0', true],
+      ['=1.2.3', '^1.2.0', true],
+      ['*', '<0.0.1', true]
+    ]
+
+    for (const [a, b, expected] of cases) {
+      assert.equal(KeppoRange.intersects(a, b), expected, `${a} & ${b}`)
+      assert.equal(KeppoRange.intersects(b, a), expected, `${b} & ${a}`)
+    }
+
+    assert.isTrue(
+      KeppoRange.intersects(
+        new KeppoRange('>=1.0.0-rc.1 <1.0.0', { includePrerelease: true }),
+        new KeppoRange('<2.0.0', { includePrerelease: true })
+      )
+    )
+  })
+
+  it('#8 intersect()', () => {
+    assert.equal(
+      KeppoRange.intersect('^1.2.0', '>=1.4.0 <1.9.0')?.toString(),
+      '>=1.4.0 <1.9.0'
+    )
+    assert.equal(
+      KeppoRange.intersect('1.x || 3.x', '>=1.5.0 <3.2.0')?.toString(),
+      '>=1.5.0 <2.0.0-0 || >=3.0.0 <3.2.0'
+    )
+    assert.equal(KeppoRange.intersect('^1.2.3', '1.2.3')?.toString(), '1.2.3')
+    assert.isNull(KeppoRange.intersect('^1.2.0', '^2.0.0'))
+
+    // pre-release versions must be accepted by both ranges
+    const range: KeppoRange | null = KeppoRange.intersect(
+      '>=1.2.3-rc.1',
+      '<2.0.0'
+    )
+
+    assert.equal(range?.toString(), '>=1.2.3 <2.0.0')
+    assert.isFalse(range?.test('1.2.3-rc.2'))
+    assert.equal(
+      KeppoRange.intersect('>=1.2.3-rc.1', '>=1.2.3-rc.2 <2.0.0')?.toString(),
+      '>=1.2.3-rc.2 <2.0.0'
+    )
+  })
+
+  it('#9 union()', () => {
+    assert.equal(
+      KeppoRange.union('^1.0.0', '~1.2.0', '^3.0.0').toString(),
+      '>=1.0.0 <2.0.0-0 || >=3.0.0 <4.0.0-0'
+    )
+    assert.equal(
+      KeppoRange.union('^1.0.0', '^3.0.0', '^2.0.0').toString(),
+      '>=1.0.0 <4.0.0-0'
+    )
+    assert.equal(
+      KeppoRange.union('>=1.0.0 <1.5.0', '>=1.4.0 <2.0.0').toString(),
+      '>=1.0.0 <2.0.0'
+    )
+    assert.equal(
+      KeppoRange.union('>=1.0.0 <1.5.0', '>1.5.0 <2.0.0').toString(),
+      '>=1.0.0 <1.5.0 || >1.5.0 <2.0.0'
+    )
+    assert.equal(
+      KeppoRange.union('<1.0.0-rc.1', '>=1.0.0').toString(),
+      '<1.0.0-rc.1 || >=1.0.0'
+    )
+    assert.equal(KeppoRange.union('1.2.3', '=1.2.3').toString(), '1.2.3')
+    assert.isTrue(KeppoRange.union('1.x', '3.x').test('3.4.0'))
+    assert.throws(() => KeppoRange.union(), KeppoError)
+  })
+
+  it('#10 isSubset()', () => {
+    const cases: [string, string, boolean][] = [
+      ['~1.4.2', '^1.2.0', true],
+      ['^1.2.0', '~1.4.2', false],
+      ['1.x', '>=1.0.0 <1.5.0 || >=1.5.0 <2.0.0', true],
+      ['1.x', '>=1.0.0 <1.5.0 || >1.5.0 <2.0.0', false],
+      ['1.2.3', '^1.0.0', true],
+      ['>=1.0.0-rc.1 <1.0.1', '>=1.0.0 <1.0.1', false],
+      ['1.0.0-rc.2', '>=1.0.0-rc.1 <1.0.0', true],
+      ['>=1.0.0-rc.2 <1.0.0', '>=1.0.0-rc.1', true],
+      ['>1.0.0 <1.0.1', '2.x', true],
+      ['*', '>=0.0.0', true]
+    ]
+
+    for (const [sub, sup, expected] of cases) {
+      assert.equal(KeppoRange.isSubset(sub, sup), expected, `${sub} in ${sup}`)
+    }
+
+    assert.isFalse(
+      KeppoRange.isSubset(
+        new KeppoRange('^1.0.0', { includePrerelease: true }),
+        '^1.0.0'
+      )
+    )
+    assert.isTrue(
+      KeppoRange.isSubset(
+        new KeppoRange('1.0.0', { includePrerelease: true }),
+        '^1.0.0'
+      )
+    )
+  })
+
+  it('#11 minVersion()', () => {
+    const cases: [string, string | null][] = [
+      ['>1.0.0', '1.0.1'],
+      ['^1.2.3-beta', '1.2.3-beta'],
+      ['>1.0.0-rc.1 <1.0.0', '1.0.0-rc.1.0'],
+      ['>=1.0.0-rc.1 <1.0.0 || >=2.0.0', '1.0.0-rc.1'],
+      ['~2.3 || 1.x', '1.0.0'],
+      ['<1.0.0', '0.0.0'],
+      ['>2.0.0 <2.0.1', null]
+    ]
+
+    for (const [range, expected] of cases) {
+      assert.equal(
+        KeppoRange.minVersion(range)?.toString() ?? null,
+        expected,
+        range
+      )
+    }
+
+    assert.equal(
+      KeppoRange.minVersion(
+        new KeppoRange('>2.0.0 <2.0.1', { includePrerelease: true })
+      )?.toString(),
+      '2.0.1-0'
+    )
+  })
+
+  it('#12 simplify()', () => {
+    const versions: string[] = [
+      '1.0.0',
+      '1.1.0',
+      '1.2.0',
+      '1.2.1',
+      '1.3.0',
+      '2.0.0',
+      '2.1.0-rc.1'
+    ]
+
+    assert.equal(
+      KeppoRange.simplify(
+        '1.0.0 || 1.1.0 || 1.2.0 || 1.2.1',
+        versions
+      ).toString(),
+      '<=1.2.1'
+    )
+    assert.equal(
+      KeppoRange.simplify('~1.1.0 || ~1.2.0 || ^2.0.0-0', versions).toString(),
+      '>=1.1.0 <=1.2.1 || 2.0.0'
+    )
+    assert.equal(
+      KeppoRange.simplify('~1.1.0 || ~1.2.0 || ^2.0.0-0', versions).getRaw(),
+      '1.1.0 - 1.2.1 || 2.0.0'
+    )
+    assert.equal(KeppoRange.simplify('>=1.1.0', versions).toString(), '>=1.1.0')
+    assert.equal(
+      KeppoRange.simplify('^1.0.0 || ^2.0.0', ['1.0.0']).toString(),
+      '>=0.0.0'
+    )
+    assert.equal(
+      KeppoRange.simplify('^1||^2||^3', ['1.0.0', '2.0.0', '3.1.0']).getRaw(),
+      '*'
+    )
+    assert.equal(
+      KeppoRange.simplify('1.2.0 || 1.3.0', [
+        '1.1.0',
+        '1.2.0',
+        '1.3.0',
+        '2.0.0'
+      ]).getRaw(),
+      '1.2.0 - 1.3.0'
+    )
+    assert.equal(KeppoRange.simplify('^1.0.0', versions).getRaw(), '^1.0.0')
+    assert.equal(
+      KeppoRange.simplify(new KeppoRange('  ^1.0.0 '), [
+        '1.0.0',
+        '1.1.0',
+        '2.0.0'
+      ]).getRaw(),
+      '^1.0.0'
+    )
+  })
+
+  it('#13 union() keeps the pre-release versions of every range', () => {
+    const pairs: [string, string][] = [
+      ['^1.2.3', '^1.5.0-0'],
+      ['^1.2.3', '>=2.0.0-0'],
+      ['>=1.0.0 <1.5.0-rc.1', '>=1.5.0-rc.1'],
+      ['^1.0.0-rc.1', '^1.0.0'],
+      ['~1.2.3-beta.2', '>=1.2.0 <1.3.0'],
+      ['>=1.0.0 <1.5.0', '>=1.4.0 <2.0.0']
+    ]
+    const versions: string[] = [
+      '1.0.0-rc.1',
+      '1.0.0',
+      '1.2.3-beta.1',
+      '1.2.3-beta.3',
+      '1.2.3',
+      '1.2.4-rc.1',
+      '1.5.0-0',
+      '1.5.0-rc.0',
+      '1.5.0-rc.1',
+      '1.5.0',
+      '1.9.9',
+      '2.0.0-rc.1',
+      '2.0.0',
+      '3.0.0-rc.1'
+    ]
+
+    for (const [a, b] of pairs) {
+      const union: KeppoRange = KeppoRange.union(a, b)
+
+      for (const version of versions) {
+        assert.equal(
+          union.test(version),
+          new KeppoRange(a).test(version) || new KeppoRange(b).test(version),
+          `${union} and ${version}`
+        )
+      }
+    }
+
+    assert.equal(
+      KeppoRange.union('^1.2.3', '>=2.0.0-0').toString(),
+      '>=1.2.3 <2.0.0-0 || >=2.0.0-0'
+    )
+  })
+
+  it('#14 test() parses strings in loose mode', () => {
+    const range: KeppoRange = new KeppoRange('^1.0.0')
+
+    assert.isTrue(range.test('01.2.3'))
+    assert.isTrue(range.test('v01.2.3'))
+    assert.isFalse(range.test('1.2.3-01'))
+    assert.isFalse(range.test('1.2.3-'))
+    assert.isFalse(range.test('not a version'))
+  })
+})
+
+describe('🧪 KeppoChannels tests 🧪', () => {
+  const channels: KeppoChannels = new KeppoChannels([
+    'dev',
+    'alpha',
+    'beta',
+    { name: 'rc', start: 1 },
+    { name: 'canary', numbered: false }
+  ])
+
+  it('#1 compare() and sort()', () => {
+    assert.equal(
+      Keppo.compare('1.0.0-dev.1', '1.0.0-beta.1'),
+      KeppoComparison.Newer
+    )
+    assert.equal(
+      channels.compare('1.0.0-dev.1', '1.0.0-beta.1'),
+      KeppoComparison.Older
+    )
+    assert.equal(
+      channels.compare('1.0.0-beta.10', '1.0.0-beta.2'),
+      KeppoComparison.Newer
+    )
+    assert.equal(
+      channels.compare('1.0.1-dev.0', '1.0.0'),
+      KeppoComparison.Newer
+    )
+
+    // labels of unknown channels sort before all channels and keep the SemVer order among themselves
+    assert.equal(
+      channels.compare('1.0.0-rc.1', '1.0.0-nightly.1'),
+      KeppoComparison.Newer
+    )
+    assert.equal(
+      channels.compare('1.0.0-dev.1', '1.0.0-custom.1'),
+      KeppoComparison.Newer
+    )
+    assert.equal(
+      channels.compare('1.0.0-nightly.1', '1.0.0-custom.1'),
+      KeppoComparison.Newer
+    )
+
+    assert.deepEqual(
+      channels
+        .sort([
+          '1.0.0',
+          '1.0.0-rc.1',
+          '1.0.0-dev.2',
+          '1.0.0-canary',
+          '1.0.0-alpha.1',
+          '1.0.0-beta.3',
+          '1.0.0-dev.10'
+        ])
+        .map((version: Keppo) => version.toString()),
+      [
+        '1.0.0-dev.2',
+        '1.0.0-dev.10',
+        '1.0.0-alpha.1',
+        '1.0.0-beta.3',
+        '1.0.0-rc.1',
+        '1.0.0-canary',
+        '1.0.0'
+      ]
+    )
+  })
+
+  it('#2 compareWith() and Keppo.sort() with setChannels()', () => {
+    const dev: Keppo = Keppo.from('2.0.0-dev.4').setChannels(channels)
+
+    assert.equal(dev.compareWith('2.0.0-beta.1'), KeppoComparison.Older)
+    assert.equal(
+      Keppo.from('2.0.0-beta.1').compareWith(dev),
+      KeppoComparison.Newer
+    )
+    assert.deepEqual(
+      Keppo.sort([
+        Keppo.from('2.0.0-rc.1').setChannels(channels),
+        dev,
+        Keppo.from('2.0.0-alpha.3').setChannels(channels)
+      ]).map((version: Keppo) => version.toString()),
+      ['2.0.0-dev.4', '2.0.0-alpha.3', '2.0.0-rc.1']
+    )
+    assert.equal(dev.clone().getChannels(), channels)
+    assert.isNull(dev.setChannels(null).getChannels())
+  })
+
+  it('#3 labels must belong to a channel', () => {
+    const version: Keppo = Keppo.from('1.4.0').setChannels(channels)
+
+    assert.equal(version.setLabel('beta.3').toString(), '1.4.0-beta.3')
+    assert.equal(version.setLabel('canary').toString(), '1.4.0-canary')
+    assert.equal(version.setVersion('1.5.0-rc.2').toString(), '1.5.0-rc.2')
+
+    for (const label of ['preview.1', 'beta', 'beta.1.2', 'rc.0', 'canary.1']) {
+      try {
+        version.setLabel(label)
+        assert.fail(`Expected "${label}" to be rejected`)
+      } catch (error) {
+        assert.equal(
+          (error as KeppoError).code,
+          KeppoErrorCode.UnknownChannel,
+          label
+        )
+      }
+    }
+
+    assert.throws(() => version.setVersion('2.0.0-preview.1'), KeppoError)
+    assert.equal(version.toString(), '1.5.0-rc.2')
+    assert.throws(
+      () => Keppo.from('1.0.0-preview').setChannels(channels),
+      KeppoError
+    )
+    assert.isTrue(channels.isValidLabel('dev.0'))
+    assert.isFalse(channels.isValidLabel('rc.0'))
+  })
+
+  it('#4 promote()', () => {
+    const pipeline: KeppoChannels = new KeppoChannels([
+      'dev',
+      'alpha',
+      'beta',
+      'rc'
+    ])
+    const version: Keppo = Keppo.from('1.4.0-beta.3').setChannels(pipeline)
+
+    assert.equal(version.promote().toString(), '1.4.0-rc.0')
+    assert.equal(version.promote().toString(), '1.4.0')
+    assert.throws(() => version.promote(), KeppoError)
+    assert.equal(
+      Keppo.from('1.0.0-beta.1').setChannels(channels).promote().toString(),
+      '1.0.0-rc.1'
+    )
+    assert.equal(
+      Keppo.from('1.0.0-rc.4').setChannels(channels).promote().toString(),
+      '1.0.0-canary'
+    )
+
+    try {
+      Keppo.from('1.0.0-beta.1').promote()
+      assert.fail('Expected promote() to throw')
+    } catch (error) {
+      assert.equal((error as KeppoError).code, KeppoErrorCode.UnknownChannel)
+    }
+  })
+
+  it('#5 channel() and channelIndex()', () => {
+    const cases: [string, string | null, number][] = [
+      ['1.0.0-dev.1', 'dev', 0],
+      ['1.0.0-beta.2', 'beta', 2],
+      ['1.0.0-canary', 'canary', 4],
+      ['1.0.0', 'stable', 5],
+      ['1.0.0-nightly.1', null, -1]
+    ]
+
+    for (const [version, channel, index] of cases) {
+      assert.equal(channels.channel(version), channel, version)
+      assert.equal(channels.channelIndex(version), index, version)
+    }
+
+    const version: Keppo = Keppo.from('1.0.0-rc.1').setChannels(channels)
+
+    assert.equal(version.channel(), 'rc')
+    assert.equal(version.channelIndex(), 3)
+    assert.isNull(Keppo.from('1.0.0-rc.1').channel())
+    assert.equal(Keppo.from('1.0.0-rc.1').channelIndex(), -1)
+  })
+
+  it('#6 range checks', () => {
+    const plain: KeppoRange = new KeppoRange('>=2.0.0-beta.0 <2.0.0')
+    const ordered: KeppoRange = new KeppoRange('>=2.0.0-beta.0 <2.0.0', {
+      channels
+    })
+
+    assert.isTrue(plain.test('2.0.0-dev.5'))
+    assert.isFalse(ordered.test('2.0.0-dev.5'))
+    assert.isTrue(ordered.test('2.0.0-rc.2'))
+    assert.isFalse(
+      Keppo.from('2.0.0-alpha.1').satisfies('>=2.0.0-beta.0', { channels })
+    )
+    assert.equal(
+      Keppo.maxSatisfying(
+        ['2.0.0-dev.9', '2.0.0-beta.1', '2.0.0-alpha.4'],
+        new KeppoRange('<2.0.0-beta.0 >=2.0.0-0', { channels })
+      )?.toString(),
+      '2.0.0-dev.9'
+    )
+  })
+
+  it('#7 invalid channels', () => {
+    for (const definition of [
+      ['dev', 'dev'],
+      ['1'],
+      ['be.ta'],
+      ['stable'],
+      [{ name: 'rc', start: -1 }]
+    ]) {
+      assert.throws(() => new KeppoChannels(definition), KeppoError)
+    }
+
+    assert.throws(
+      () => new KeppoChannels('dev' as unknown as string[]),
+      KeppoError
+    )
+    assert.deepEqual(new KeppoChannels(['rc']).list(), [
+      { name: 'rc', numbered: true, start: 0 }
+    ])
+  })
+
+  it('#8 sort() ignores the input order', () => {
+    const labels: string[] = ['1.0.0-dev.1', '1.0.0-beta.1', '1.0.0-custom.1']
+    const orders: string[][] = [
+      [labels[0], labels[1], labels[2]],
+      [labels[0], labels[2], labels[1]],
+      [labels[1], labels[0], labels[2]],
+      [labels[1], labels[2], labels[0]],
+      [labels[2], labels[0], labels[1]],
+      [labels[2], labels[1], labels[0]]
+    ]
+
+    for (const order of orders) {
+      assert.deepEqual(
+        channels.sort(order).map((version: Keppo) => version.toString()),
+        ['1.0.0-custom.1', '1.0.0-dev.1', '1.0.0-beta.1']
+      )
+    }
+  })
 })
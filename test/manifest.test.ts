@@ -0,0 +1,312 @@
+import {
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync
+} from 'node:fs'
+import { tmpdir } from 'node:os'
+import { dirname, join } from 'node:path'
+import { afterEach, assert, beforeEach, describe, it } from 'vitest'
+import { KeppoError, KeppoErrorCode } from '../src/index.js'
+import {
+  bumpManifest,
+  type KeppoManifestChange,
+  type KeppoManifestResult
+} from '../src/manifest.js'
+
+let root: string
+
+function fixture(files: Record<string, string>): void {
+  for (const [path, text] of Object.entries(files)) {
+    const file: string = join(root, path)
+
+    mkdirSync(dirname(file), { recursive: true })
+    writeFileSync(file, text)
+  }
+}
+
+function read(path: string): string {
+  return readFileSync(join(root, path), 'utf8')
+}
+
+beforeEach(() => {
+  root = mkdtempSync(join(tmpdir(), 'keppo-manifest-'))
+})
+
+afterEach(() => {
+  rmSync(root, { recursive: true, force: true })
+})
+
+describe('🧪 Manifest tests 🧪', () => {
+  it('#1 bumpManifest() keeps formatting', async () => {
+    const manifest: string =
+      '{\n\t"name": "app",\n\t"version": "1.2.3",\n\t"dependencies": { "a": "^1.0.0" },\n\t"config": { "version": "9.9.9" }\n}'
+
+    fixture({ 'package.json': manifest })
+
+    const result: KeppoManifestResult = await bumpManifest(
+      join(root, 'package.json'),
+      'minor'
+    )
+
+    assert.equal(read('package.json'), manifest.replace('1.2.3', '1.3.0'))
+    assert.deepEqual(result.packages, [
+      {
+        name: 'app',
+        path: join(root, 'package.json'),
+        previous: '1.2.3',
+        version: '1.3.0'
+      }
+    ])
+    assert.deepEqual(result.files, [join(root, 'package.json')])
+  })
+
+  it('#2 bumpManifest() directory, CRLF and trailing newline', async () => {
+    const manifest: string =
+      '{\r\n    "version" : "2.0.0-rc.1",\r\n    "name": "app"\r\n}\r\n'
+
+    fixture({ 'package.json': manifest })
+
+    await bumpManifest(root, 'release')
+
+    assert.equal(read('package.json'), manifest.replace('2.0.0-rc.1', '2.0.0'))
+  })
+
+  it('#3 bumpManifest() pre-release identifier', async () => {
+    fixture({ 'package.json': '{"version":"1.0.0"}' })
+
+    await bumpManifest(root, 'premajor', { identifier: 'beta' })
+
+    assert.equal(read('package.json'), '{"version":"2.0.0-beta.0"}')
+  })
+
+  it('#4 bumpManifest() lockfile and sibling manifests', async () => {
+    fixture({
+      'package.json': '{\n  "name": "app",\n  "version": "1.2.3"\n}\n',
+      'jsr.json': '{\n  "name": "@scope/app",\n  "version": "1.2.3"\n}\n',
+      'package-lock.json':
+        '{\n  "name": "app",\n  "version": "1.2.3",\n  "lockfileVersion": 3,\n  "packages": {\n    "": {\n      "name": "app",\n      "version": "1.2.3"\n    },\n    "node_modules/dep": {\n      "version": "1.2.3"\n    }\n  }\n}\n'
+    })
+
+    const result: KeppoManifestResult = await bumpManifest(root, 'patch')
+
+    assert.equal(
+      read('jsr.json'),
+      '{\n  "name": "@scope/app",\n  "version": "1.2.4"\n}\n'
+    )
+    assert.equal(
+      read('package-lock.json'),
+      '{\n  "name": "app",\n  "version": "1.2.4",\n  "lockfileVersion": 3,\n  "packages": {\n    "": {\n      "name": "app",\n      "version": "1.2.4"\n    },\n    "node_modules/dep": {\n      "version": "1.2.3"\n    }\n  }\n}\n'
+    )
+    assert.sameMembers(result.files, [
+      join(root, 'package.json'),
+      join(root, 'jsr.json'),
+      join(root, 'package-lock.json')
+    ])
+  })
+
+  it('#5 bumpManifest() jsr.json only', async () => {
+    fixture({ 'jsr.json': '{ "version": "0.1.0", "exports": "./mod.ts" }' })
+
+    await bumpManifest(join(root, 'jsr.json'), 'minor')
+
+    assert.equal(
+      read('jsr.json'),
+      '{ "version": "0.2.0", "exports": "./mod.ts" }'
+    )
+  })
+
+  it('#6 bumpManifest() npm workspace', async () => {
+    fixture({
+      'package.json':
+        '{\n  "name": "root",\n  "version": "1.0.0",\n  "workspaces": ["packages/*", "!packages/ignored"]\n}\n',
+      'packages/b/package.json': '{\n  "name": "b",\n  "version": "0.3.1"\n}\n',
+      'packages/a/package.json': '{\n  "name": "a",\n  "version": "2.1.0"\n}\n',
+      'packages/ignored/package.json':
+        '{ "name": "ignored", "version": "1.0.0" }',
+      'packages/docs/README.md': '# docs\n',
+      'package-lock.json': JSON.stringify(
+        {
+          name: 'root',
+          version: '1.0.0',
+          lockfileVersion: 3,
+          packages: {
+            '': { name: 'root', version: '1.0.0' },
+            'node_modules/a': { resolved: 'packages/a', link: true },
+            'packages/a': { name: 'a', version: '2.1.0' },
+            'packages/b': { name: 'b', version: '0.3.1' }
+          }
+        },
+        null,
+        2
+      )
+    })
+
+    const result: KeppoManifestResult = await bumpManifest(root, 'minor', {
+      workspaces: true
+    })
+
+    assert.deepEqual(
+      result.packages.map((change: KeppoManifestChange) => [
+        change.name,
+        change.version
+      ]),
+      [
+        ['root', '1.1.0'],
+        ['a', '2.2.0'],
+        ['b', '0.4.0']
+      ]
+    )
+    assert.equal(
+      read('packages/ignored/package.json'),
+      '{ "name": "ignored", "version": "1.0.0" }'
+    )
+
+    const lockfile: {
+      version: string
+      packages: Record<string, { version?: string }>
+    } = JSON.parse(read('package-lock.json'))
+
+    assert.equal(lockfile.version, '1.1.0')
+    assert.equal(lockfile.packages[''].version, '1.1.0')
+    assert.equal(lockfile.packages['packages/a'].version, '2.2.0')
+    assert.equal(lockfile.packages['packages/b'].version, '0.4.0')
+  })
+
+  it('#7 bumpManifest() pnpm workspace with an unversioned root', async () => {
+    fixture({
+      'package.json': '{\n  "name": "root",\n  "private": true\n}\n',
+      'pnpm-workspace.yaml':
+        'packages:\n  - \'packages/*\'\n  - "tools/**"\n\nonlyBuiltDependencies:\n  - esbuild\n',
+      'packages/core/package.json': '{ "name": "core", "version": "1.0.0" }',
+      'tools/nested/cli/package.json': '{ "name": "cli", "version": "1.4.0" }',
+      'tools/node_modules/dep/package.json':
+        '{ "name": "dep", "version": "1.0.0" }'
+    })
+
+    const result: KeppoManifestResult = await bumpManifest(root, 'patch', {
+      workspaces: true
+    })
+
+    assert.deepEqual(
+      result.packages.map((change: KeppoManifestChange) => [
+        change.name,
+        change.version
+      ]),
+      [
+        ['core', '1.0.1'],
+        ['cli', '1.4.1']
+      ]
+    )
+    assert.equal(
+      read('package.json'),
+      '{\n  "name": "root",\n  "private": true\n}\n'
+    )
+    assert.equal(
+      read('tools/node_modules/dep/package.json'),
+      '{ "name": "dep", "version": "1.0.0" }'
+    )
+  })
+
+  it('#8 bumpManifest() invalid manifests write nothing', async () => {
+    fixture({
+      'package.json':
+        '{ "name": "root", "version": "1.0.0", "workspaces": ["packages/*"] }',
+      'packages/a/package.json': '{ "name": "a", "version": "latest" }'
+    })
+
+    try {
+      await bumpManifest(root, 'major', { workspaces: true })
+      assert.fail('Expected an error')
+    } catch (error) {
+      assert.instanceOf(error, KeppoError)
+    }
+
+    assert.equal(
+      read('package.json'),
+      '{ "name": "root", "version": "1.0.0", "workspaces": ["packages/*"] }'
+    )
+  })
+
+  it('#9 bumpManifest() missing version', async () => {
+    fixture({ 'package.json': '{ "name": "app" }' })
+
+    try {
+      await bumpManifest(root, 'major')
+      assert.fail('Expected an error')
+    } catch (error) {
+      assert.instanceOf(error, KeppoError)
+    }
+
+    try {
+      await bumpManifest(1 as unknown as string, 'major')
+      assert.fail('Expected an error')
+    } catch (error) {
+      assert.equal((error as KeppoError).code, KeppoErrorCode.InvalidType)
+    }
+  })
+  it('#10 bumpManifest() JSONC manifests', async () => {
+    const deno: string =
+      '{\n  // the version is bumped by keppo\n  "name": "@scope/app", /* "version": "0.0.0" */\n  "version": "1.2.3",\n  "tasks": { "dev": "deno run mod.ts", },\n}\n'
+
+    fixture({
+      'package.json': '{ "name": "app", "version": "1.2.3" }',
+      'deno.json': deno
+    })
+
+    await bumpManifest(root, 'minor')
+
+    assert.equal(read('deno.json'), deno.replace('"1.2.3"', '"1.3.0"'))
+
+    await bumpManifest(join(root, 'deno.json'), 'patch')
+
+    assert.equal(read('deno.json'), deno.replace('"1.2.3"', '"1.3.1"'))
+  })
+
+  it('#11 bumpManifest() workspace dependents', async () => {
+    fixture({
+      'package.json':
+        '{\n  "name": "root",\n  "private": true,\n  "workspaces": ["packages/*"],\n  "devDependencies": { "cli": "^1.4.0" }\n}\n',
+      'packages/core/package.json': '{ "name": "core", "version": "1.0.0" }',
+      'packages/cli/package.json':
+        '{\n  "name": "cli",\n  "version": "1.4.0",\n  "dependencies": {\n    "core": "workspace:^1.0.0",\n    "left-pad": "^1.0.0"\n  },\n  "peerDependencies": { "core": "workspace:*" }\n}\n',
+      'package-lock.json': JSON.stringify(
+        {
+          lockfileVersion: 3,
+          packages: {
+            '': { devDependencies: { cli: '^1.4.0' } },
+            'packages/cli': {
+              version: '1.4.0',
+              dependencies: { core: 'workspace:^1.0.0', 'left-pad': '^1.0.0' }
+            },
+            'packages/core': { version: '1.0.0' }
+          }
+        },
+        null,
+        2
+      )
+    })
+
+    await bumpManifest(root, 'major', { workspaces: true })
+
+    assert.equal(
+      read('package.json'),
+      '{\n  "name": "root",\n  "private": true,\n  "workspaces": ["packages/*"],\n  "devDependencies": { "cli": "^2.0.0" }\n}\n'
+    )
+    assert.equal(
+      read('packages/cli/package.json'),
+      '{\n  "name": "cli",\n  "version": "2.0.0",\n  "dependencies": {\n    "core": "workspace:^2.0.0",\n    "left-pad": "^1.0.0"\n  },\n  "peerDependencies": { "core": "workspace:*" }\n}\n'
+    )
+
+    const lockfile: {
+      packages: Record<string, Record<string, Record<string, string>>>
+    } = JSON.parse(read('package-lock.json'))
+
+    assert.equal(lockfile.packages[''].devDependencies.cli, '^2.0.0')
+    assert.deepEqual(lockfile.packages['packages/cli'].dependencies, {
+      core: 'workspace:^2.0.0',
+      'left-pad': '^1.0.0'
+    })
+  })
+})
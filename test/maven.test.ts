@@ -0,0 +1,165 @@
+import { assert, describe, it } from 'vitest'
+import { KeppoComparison, KeppoError, KeppoErrorCode } from '../src/index.js'
+import { MavenVersion } from '../src/maven.js'
+
+// ascending, taken from the version order specification and Maven's ComparableVersionTest
+const qualifiers: string[] = [
+  '1-alpha2snapshot',
+  '1-alpha2',
+  '1-alpha-123',
+  '1-beta-2',
+  '1-beta123',
+  '1-m2',
+  '1-m11',
+  '1-rc',
+  '1-cr2',
+  '1-rc123',
+  '1-SNAPSHOT',
+  '1',
+  '1-sp',
+  '1-sp2',
+  '1-sp123',
+  '1-abc',
+  '1-def',
+  '1-pom-1',
+  '1-1-snapshot',
+  '1-1',
+  '1-2',
+  '1-123'
+]
+
+const numbers: string[] = [
+  '2.0',
+  '2-1',
+  '2.0.a',
+  '2.0.0.a',
+  '2.0.2',
+  '2.0.123',
+  '2.1.0',
+  '2.1-a',
+  '2.1b',
+  '2.1-c',
+  '2.1-1',
+  '2.1.0.1',
+  '2.2',
+  '2.123',
+  '11.a2',
+  '11.a11',
+  '11.b2',
+  '11.b11',
+  '11.m2',
+  '11.m11',
+  '11',
+  '11.a',
+  '11b',
+  '11c',
+  '11m'
+]
+
+const equal: string[][] = [
+  ['1', '1.0', '1.0.0', '1-0', '1.0-0', '1-ga', '1-final', '1-release', '1GA'],
+  ['1a', '1-a', '1.0-a', '1.0.0-a', '1.0a', '1A'],
+  ['1a1', '1-a1', '1-alpha-1', '1alpha1', '1A1'],
+  ['1b2', '1-b2', '1-beta-2', '1beta2'],
+  ['1m3', '1-m3', '1-milestone-3', '1milestone3'],
+  ['1rc4', '1-cr4', '1-rc-4', '1cr4', '1RC4'],
+  ['1x', '1-x', '1X']
+]
+
+function assertAscending(list: string[]): void {
+  for (let i: number = 0; i < list.length; i++) {
+    for (let j: number = 0; j < list.length; j++) {
+      assert.equal(
+        MavenVersion.compare(list[i], list[j]),
+        Math.sign(i - j),
+        `${list[i]} vs ${list[j]}`
+      )
+    }
+  }
+}
+
+describe('🧪 Maven tests 🧪', () => {
+  it('#1 qualifier ordering conformance table', () => {
+    assertAscending(qualifiers)
+  })
+
+  it('#2 numeric ordering conformance table', () => {
+    assertAscending(numbers)
+  })
+
+  it('#3 equality conformance table', () => {
+    for (const group of equal) {
+      for (const version of group) {
+        assert.isTrue(MavenVersion.from(group[0]).equals(version), version)
+      }
+    }
+  })
+
+  it('#4 isValid()', () => {
+    assert.isTrue(MavenVersion.isValid('1.2.0-SNAPSHOT'))
+    assert.isTrue(MavenVersion.isValid('2.0_3+jdk11'))
+
+    for (const version of ['', '-1', '.1', '1.0 final', '1.0/1']) {
+      assert.isFalse(MavenVersion.isValid(version), version)
+    }
+
+    assert.throws(() => MavenVersion.from(' 1'), KeppoError)
+
+    try {
+      new MavenVersion(1 as unknown as string)
+      assert.fail('Expected an error')
+    } catch (error) {
+      assert.equal((error as KeppoError).code, KeppoErrorCode.InvalidType)
+    }
+    assert.equal(
+      MavenVersion.compare('1-constructor', '1-sp'),
+      KeppoComparison.Newer
+    )
+  })
+
+  it('#5 getCanonical() and isSnapshot()', () => {
+    assert.equal(MavenVersion.from('1.0-GA').getCanonical(), '1')
+    assert.equal(MavenVersion.from('1.0.0-rc-1').getCanonical(), '1-rc-1')
+    assert.equal(MavenVersion.from('1a1').getCanonical(), '1-alpha-1')
+    assert.equal(
+      MavenVersion.from('1.2.0-SNAPSHOT').toString(),
+      '1.2.0-SNAPSHOT'
+    )
+    assert.isTrue(MavenVersion.from('1.2.0-SNAPSHOT').isSnapshot())
+    assert.isFalse(MavenVersion.from('1.2.0').isSnapshot())
+  })
+
+  it('#6 toKeppo()', () => {
+    const cases: [string, string | null][] = [
+      ['1.2.3', '1.2.3'],
+      ['1.2', '1.2.0'],
+      ['01.2', '1.2.0'],
+      ['1.2.0-SNAPSHOT', '1.2.0-SNAPSHOT'],
+      ['1.2.0-beta-2', '1.2.0-beta-2'],
+      ['1.2.0-Final', '1.2.0'],
+      ['1.2.0.1', null],
+      ['1.2.0rc1', null],
+      ['1.2.0_01', null]
+    ]
+
+    for (const [version, expected] of cases) {
+      assert.equal(
+        MavenVersion.from(version).toKeppo()?.toString() ?? null,
+        expected,
+        version
+      )
+    }
+  })
+
+  it('#7 fromKeppo()', () => {
+    assert.equal(MavenVersion.fromKeppo('1.2.3').toString(), '1.2.3')
+    assert.equal(
+      MavenVersion.fromKeppo('1.2.3-SNAPSHOT+build.5').toString(),
+      '1.2.3-SNAPSHOT'
+    )
+    assert.equal(
+      MavenVersion.fromKeppo('1.0.0-rc.1').compareWith('1.0.0'),
+      KeppoComparison.Older
+    )
+  })
+})
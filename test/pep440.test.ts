@@ -0,0 +1,192 @@
+import { assert, describe, it } from 'vitest'
+import {
+  Keppo,
+  KeppoComparison,
+  KeppoError,
+  KeppoErrorCode
+} from '../src/index.js'
+import { Pep440Version } from '../src/pep440.js'
+
+// ascending, taken from the PEP 440 examples and the reference implementation's test suite
+const ordered: string[] = [
+  '1.0.dev456',
+  '1.0a1',
+  '1.0a2.dev456',
+  '1.0a12.dev456',
+  '1.0a12',
+  '1.0b1.dev456',
+  '1.0b2',
+  '1.0b2.post345.dev456',
+  '1.0b2.post345',
+  '1.0b2-346',
+  '1.0c1.dev456',
+  '1.0c1',
+  '1.0rc2',
+  '1.0c3',
+  '1.0',
+  '1.0.post456.dev34',
+  '1.0.post456',
+  '1.1.dev1',
+  '1.2+123abc',
+  '1.2+123abc456',
+  '1.2+abc',
+  '1.2+abc123',
+  '1.2+abc123def',
+  '1.2+1234.abc',
+  '1.2+123456',
+  '1.2.r32+123456',
+  '1.2.rev33+123456',
+  '1!1.0.dev456',
+  '1!1.0a1',
+  '1!1.0b2.post345',
+  '1!1.0',
+  '1!1.0.post456'
+]
+
+const normalized: [string, string][] = [
+  ['1.0', '1.0'],
+  ['v1.0', '1.0'],
+  [' 1.0\n', '1.0'],
+  ['01.02', '1.2'],
+  ['0!1.0', '1.0'],
+  ['1.1RC1', '1.1rc1'],
+  ['1.0-ALPHA.1', '1.0a1'],
+  ['1.0beta2', '1.0b2'],
+  ['1.0c1', '1.0rc1'],
+  ['1.0pre1', '1.0rc1'],
+  ['1.0-preview_3', '1.0rc3'],
+  ['1.0a', '1.0a0'],
+  ['1.0-1', '1.0.post1'],
+  ['1.0.r4', '1.0.post4'],
+  ['1.0-rev4', '1.0.post4'],
+  ['1.0.post', '1.0.post0'],
+  ['1.0_dev5', '1.0.dev5'],
+  ['1.0dev', '1.0.dev0'],
+  ['1.0+Ubuntu-1', '1.0+ubuntu.1'],
+  ['1.0+ubuntu_1.2', '1.0+ubuntu.1.2']
+]
+
+const invalid: string[] = [
+  '',
+  'french toast',
+  '1.0+',
+  '+1.0',
+  '1.0-',
+  '1.0.dev.dev',
+  '1.0a1b1',
+  '1.0+_foo',
+  '1.0+foo..bar',
+  '1!',
+  'vv1.0',
+  '1..0'
+]
+
+describe('🧪 PEP 440 tests 🧪', () => {
+  it('#1 ordering conformance table', () => {
+    for (let i: number = 0; i < ordered.length; i++) {
+      for (let j: number = 0; j < ordered.length; j++) {
+        assert.equal(
+          Pep440Version.compare(ordered[i], ordered[j]),
+          Math.sign(i - j),
+          `${ordered[i]} vs ${ordered[j]}`
+        )
+      }
+    }
+  })
+
+  it('#2 normalization conformance table', () => {
+    for (const [version, expected] of normalized) {
+      assert.equal(Pep440Version.from(version).toString(), expected, version)
+    }
+  })
+
+  it('#3 isValid()', () => {
+    for (const version of invalid) {
+      assert.isFalse(Pep440Version.isValid(version), version)
+    }
+
+    assert.isTrue(Pep440Version.isValid('2012.4'))
+    assert.throws(() => Pep440Version.from('1.0+'), KeppoError)
+
+    try {
+      new Pep440Version(1 as unknown as string)
+      assert.fail('Expected an error')
+    } catch (error) {
+      assert.equal((error as KeppoError).code, KeppoErrorCode.InvalidType)
+    }
+  })
+
+  it('#4 trailing zeros are insignificant', () => {
+    assert.isTrue(Pep440Version.from('1.0').equals('1.0.0.0'))
+    assert.isTrue(Pep440Version.from('1.0rc1').equals('1.0.0c1'))
+    assert.equal(
+      Pep440Version.from('1.0').compareWith('1.0.0.1'),
+      KeppoComparison.Older
+    )
+  })
+
+  it('#5 getters', () => {
+    const version: Pep440Version = Pep440Version.from(
+      '2!1.2.3rc4.post5.dev6+x.7'
+    )
+
+    assert.equal(version.getEpoch(), 2)
+    assert.deepEqual(version.getRelease(), [1, 2, 3])
+    assert.deepEqual(version.getPre(), ['rc', 4])
+    assert.equal(version.getPost(), 5)
+    assert.equal(version.getDev(), 6)
+    assert.equal(version.getLocal(), 'x.7')
+    assert.isTrue(version.isPrerelease())
+    assert.isFalse(Pep440Version.from('1.0.post1').isPrerelease())
+  })
+
+  it('#6 toKeppo()', () => {
+    const cases: [string, string | null][] = [
+      ['1.2.3', '1.2.3'],
+      ['1.2', '1.2.0'],
+      ['1.2.0a1', '1.2.0-alpha.1'],
+      ['1.2.0b2', '1.2.0-beta.2'],
+      ['1.2.0rc1', '1.2.0-rc.1'],
+      ['1.2.0.dev3', '1.2.0-dev.3'],
+      ['1.2.0+ubuntu.1', '1.2.0+ubuntu.1'],
+      ['1!1.2.0', null],
+      ['1.2.0.post1', null],
+      ['1.2.0rc1.dev1', null],
+      ['1.2.3.4', null]
+    ]
+
+    for (const [version, expected] of cases) {
+      assert.equal(
+        Pep440Version.from(version).toKeppo()?.toString() ?? null,
+        expected,
+        version
+      )
+    }
+  })
+
+  it('#7 fromKeppo()', () => {
+    const cases: [string, string | null][] = [
+      ['1.2.3', '1.2.3'],
+      ['1.2.0-alpha.1', '1.2.0a1'],
+      ['1.2.0-beta', '1.2.0b0'],
+      ['1.2.0-rc.2', '1.2.0rc2'],
+      ['1.2.0-dev.3', '1.2.0.dev3'],
+      ['1.2.0+build.5', '1.2.0+build.5'],
+      ['1.2.0-canary.1', null]
+    ]
+
+    for (const [version, expected] of cases) {
+      assert.equal(
+        Pep440Version.fromKeppo(version)?.toString() ?? null,
+        expected,
+        version
+      )
+    }
+
+    assert.isTrue(
+      Pep440Version.fromKeppo(new Keppo(1, 0, 0, true, 'rc.1'))?.equals(
+        '1.0rc1'
+      )
+    )
+  })
+})
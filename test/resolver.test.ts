@@ -0,0 +1,287 @@
+import { assert, describe, it } from 'vitest'
+import { KeppoError, KeppoErrorCode } from '../src/index.js'
+import {
+  type KeppoRegistry,
+  type KeppoResolution,
+  type KeppoResolvedPackage,
+  resolveDependencies
+} from '../src/resolver.js'
+
+const registry: KeppoRegistry = {
+  a: {
+    '1.0.0': { dependencies: { b: '^1.0.0' } },
+    '1.1.0': { dependencies: { b: '^1.1.0' } },
+    '1.2.0': { dependencies: { b: '^2.0.0' } },
+    '2.0.0-rc.1': {}
+  },
+  b: {
+    '1.0.0': {},
+    '1.1.0': { dependencies: { c: '~1.0.0' } },
+    '2.0.0': {}
+  },
+  c: {
+    '1.0.0': {},
+    '1.0.4': {},
+    '1.1.0': {}
+  },
+  host: {
+    '1.0.0': {},
+    '1.5.0': {},
+    '2.0.0': {}
+  },
+  plugin: {
+    '1.0.0': { peerDependencies: { host: '^1.0.0' } },
+    '2.0.0': { peerDependencies: { host: '^2.0.0' } }
+  }
+}
+
+type KeppoResolved = Extract<KeppoResolution, { ok: true }>
+
+/**
+ * Eight unrelated packages with six versions each, every combination of them is valid.
+ */
+function unrelated(registry: KeppoRegistry): Record<string, string> {
+  const dependencies: Record<string, string> = {}
+
+  for (let i: number = 0; i < 8; i++) {
+    registry[`r${i}`] = Object.fromEntries(
+      ['1.0.0', '1.1.0', '1.2.0', '1.3.0', '1.4.0', '1.5.0'].map(
+        (version: string) => [version, {}]
+      )
+    )
+    dependencies[`r${i}`] = '^1.0.0'
+  }
+
+  return dependencies
+}
+
+function resolved(result: KeppoResolution): KeppoResolved {
+  assert.isTrue(result.ok, result.ok ? '' : result.conflict.message)
+  return result as KeppoResolved
+}
+
+describe('🧪 Resolver tests 🧪', () => {
+  it('#1 resolves the newest satisfying versions', () => {
+    assert.deepEqual(resolveDependencies(registry, { b: '^1.0.0' }), {
+      ok: true,
+      dependencies: { b: '1.1.0' },
+      packages: [
+        { name: 'b', version: '1.1.0', dependencies: { c: '1.0.4' } },
+        { name: 'c', version: '1.0.4', dependencies: {} }
+      ]
+    })
+  })
+
+  it('#2 backtracks to older versions', () => {
+    const result: KeppoResolved = resolved(
+      resolveDependencies(registry, { a: '^1.0.0', b: '^1.0.0' })
+    )
+
+    assert.deepEqual(result.dependencies, { a: '1.1.0', b: '1.1.0' })
+    assert.deepEqual(
+      result.packages.find((pkg: KeppoResolvedPackage) => pkg.name === 'a'),
+      { name: 'a', version: '1.1.0', dependencies: { b: '1.1.0' } }
+    )
+  })
+
+  it('#3 explains conflicts', () => {
+    const result: KeppoResolution = resolveDependencies(registry, {
+      a: '>=1.2.0 <2.0.0',
+      b: '^1.0.0'
+    })
+
+    assert.isFalse(result.ok)
+
+    if (!result.ok) {
+      assert.equal(result.conflict.name, 'b')
+      assert.deepEqual(result.conflict.requirements, [
+        { name: 'b', range: '^1.0.0', peer: false, path: [] },
+        { name: 'b', range: '^2.0.0', peer: false, path: ['a@1.2.0'] }
+      ])
+      assert.equal(
+        result.conflict.message,
+        [
+          'No version of "b" satisfies every requirement:',
+          '  root requires b@^1.0.0',
+          '  root > a@1.2.0 requires b@^2.0.0'
+        ].join('\n')
+      )
+    }
+
+    const missing: KeppoResolution = resolveDependencies(
+      { x: { '1.0.0': { dependencies: { y: '^1.0.0' } } } },
+      { x: '*' }
+    )
+
+    assert.equal(
+      !missing.ok && missing.conflict.message,
+      '"y" is not in the registry, required by:\n  root > x@1.0.0 requires y@^1.0.0'
+    )
+  })
+
+  it('#4 peer dependencies', () => {
+    const result: KeppoResolved = resolved(
+      resolveDependencies(registry, { host: '^1.0.0', plugin: '*' })
+    )
+
+    assert.deepEqual(result.dependencies, {
+      host: '1.5.0',
+      plugin: '1.0.0'
+    })
+    assert.deepEqual(
+      result.packages.find(
+        (pkg: KeppoResolvedPackage) => pkg.name === 'plugin'
+      ),
+      { name: 'plugin', version: '1.0.0', dependencies: { host: '1.5.0' } }
+    )
+
+    // a missing peer is resolved as well
+    assert.deepEqual(
+      resolved(resolveDependencies(registry, { plugin: '*' })).packages,
+      [
+        { name: 'host', version: '2.0.0', dependencies: {} },
+        { name: 'plugin', version: '2.0.0', dependencies: { host: '2.0.0' } }
+      ]
+    )
+
+    const conflict: KeppoResolution = resolveDependencies(registry, {
+      host: '^1.0.0',
+      plugin: '^2.0.0'
+    })
+
+    assert.equal(
+      !conflict.ok && conflict.conflict.message,
+      [
+        'No version of "host" satisfies every requirement:',
+        '  root requires host@^1.0.0',
+        '  root > plugin@2.0.0 requires peer host@^2.0.0'
+      ].join('\n')
+    )
+  })
+
+  it('#5 allows multiple versions without dedupe', () => {
+    const result: KeppoResolved = resolved(
+      resolveDependencies(
+        registry,
+        { a: '^1.0.0', b: '^1.0.0' },
+        { dedupe: false }
+      )
+    )
+
+    assert.deepEqual(
+      result.packages.map(
+        (pkg: KeppoResolvedPackage) => `${pkg.name}@${pkg.version}`
+      ),
+      ['a@1.2.0', 'b@1.1.0', 'b@2.0.0', 'c@1.0.4']
+    )
+    assert.deepEqual(result.dependencies, { a: '1.2.0', b: '1.1.0' })
+    assert.deepEqual(result.packages[0].dependencies, { b: '2.0.0' })
+
+    // peers are shared even without dedupe
+    assert.isFalse(
+      resolveDependencies(
+        registry,
+        { host: '^1.0.0', plugin: '^2.0.0' },
+        { dedupe: false }
+      ).ok
+    )
+  })
+
+  it('#6 deterministic output and pre-releases', () => {
+    const shuffled: KeppoRegistry = Object.fromEntries(
+      Object.entries(registry)
+        .reverse()
+        .map(([name, versions]) => [
+          name,
+          Object.fromEntries(Object.entries(versions).reverse())
+        ])
+    )
+
+    assert.deepEqual(
+      resolveDependencies(shuffled, { b: '^1.0.0', a: '^1.0.0' }),
+      resolveDependencies(registry, { a: '^1.0.0', b: '^1.0.0' })
+    )
+    assert.equal(
+      resolved(resolveDependencies(registry, { a: '>=1.0.0' })).dependencies.a,
+      '1.2.0'
+    )
+    assert.equal(
+      resolved(
+        resolveDependencies(
+          registry,
+          { a: '>=1.0.0' },
+          { includePrerelease: true }
+        )
+      ).dependencies.a,
+      '2.0.0-rc.1'
+    )
+  })
+
+  it('#7 jumps back over unrelated packages', () => {
+    const unsatisfiable: KeppoRegistry = {
+      zz: { '1.0.0': { dependencies: { z: '*' } } },
+      z: { '1.0.0': { dependencies: { q: '^2.0.0' } } },
+      q: { '1.0.0': {} }
+    }
+    const conflict: KeppoResolution = resolveDependencies(unsatisfiable, {
+      ...unrelated(unsatisfiable),
+      zz: '*'
+    })
+
+    assert.equal(
+      !conflict.ok && conflict.conflict.message,
+      [
+        'No version of "q" satisfies every requirement:',
+        '  root > zz@1.0.0 > z@1.0.0 requires q@^2.0.0'
+      ].join('\n')
+    )
+
+    const satisfiable: KeppoRegistry = {
+      a: {
+        '1.0.0': {},
+        '2.0.0': { dependencies: { x: '*' } }
+      },
+      x: { '1.0.0': { dependencies: { q: '^2.0.0' } } },
+      q: { '1.0.0': {} }
+    }
+    const result: KeppoResolved = resolved(
+      resolveDependencies(satisfiable, { a: '*', ...unrelated(satisfiable) })
+    )
+
+    assert.equal(result.dependencies.a, '1.0.0')
+    assert.equal(result.dependencies.r7, '1.5.0')
+  })
+
+  it('#8 deep dependency chains', () => {
+    const chain: KeppoRegistry = {}
+
+    for (let i: number = 0; i < 5000; i++) {
+      chain[`p${i}`] = {
+        '1.0.0': { dependencies: i < 4999 ? { [`p${i + 1}`]: '^1.0.0' } : {} }
+      }
+    }
+
+    assert.lengthOf(
+      resolved(resolveDependencies(chain, { p0: '^1.0.0' })).packages,
+      5000
+    )
+  })
+
+  it('#9 invalid input', () => {
+    assert.throws(
+      () => resolveDependencies(registry, { a: 'not a range' }),
+      KeppoError
+    )
+    assert.throws(
+      () => resolveDependencies({ a: { latest: {} } }, { a: '*' }),
+      KeppoError
+    )
+
+    try {
+      resolveDependencies(null as unknown as KeppoRegistry, {})
+      assert.fail('Expected an error')
+    } catch (error) {
+      assert.equal((error as KeppoError).code, KeppoErrorCode.InvalidType)
+    }
+  })
+})
@@ -0,0 +1,81 @@
+import { assert, describe, it } from 'vitest'
+import { KeppoError, KeppoErrorCode } from '../src/index.js'
+import {
+  type KeppoSchema,
+  type KeppoSchemaResult,
+  type KeppoSchemaSafeParseResult,
+  keppoJsonSchema,
+  keppoSchema
+} from '../src/schema.js'
+
+describe('🧪 Schema tests 🧪', () => {
+  it('#1 Standard Schema validate()', () => {
+    const schema: KeppoSchema = keppoSchema()
+
+    assert.equal(schema['~standard'].version, 1)
+    assert.equal(schema['~standard'].vendor, 'keppo')
+    assert.deepEqual(schema['~standard'].validate('1.2.3-rc.1'), {
+      value: '1.2.3-rc.1'
+    })
+
+    const result: KeppoSchemaResult = schema['~standard'].validate('v1.2.3')
+
+    assert.isDefined(result.issues)
+    assert.lengthOf(result.issues ?? [], 1)
+  })
+
+  it('#2 parse() and safeParse()', () => {
+    const schema: KeppoSchema = keppoSchema()
+
+    assert.equal(schema.parse('1.0.0'), '1.0.0')
+    assert.deepEqual(schema.safeParse('1.0.0'), {
+      success: true,
+      data: '1.0.0'
+    })
+    assert.throws(() => schema.parse('1.0'), KeppoError)
+
+    const invalid: KeppoSchemaSafeParseResult = schema.safeParse(42)
+
+    assert.isFalse(invalid.success)
+    assert.equal(
+      invalid.success ? null : invalid.error.code,
+      KeppoErrorCode.InvalidType
+    )
+
+    const leadingZero: KeppoSchemaSafeParseResult = schema.safeParse('01.0.0')
+
+    assert.isFalse(leadingZero.success)
+    assert.equal(
+      leadingZero.success ? null : leadingZero.error.code,
+      KeppoErrorCode.LeadingZero
+    )
+  })
+
+  it('#3 loose schema', () => {
+    const schema: KeppoSchema = keppoSchema({ strict: false })
+
+    assert.equal(schema.parse('v1.2.3'), 'v1.2.3')
+    assert.equal(schema.parse('01.2.3'), '01.2.3')
+    assert.isFalse(schema.safeParse('1.2').success)
+  })
+
+  it('#4 keppoJsonSchema()', () => {
+    const strict: RegExp = new RegExp(keppoJsonSchema().pattern)
+    const loose: RegExp = new RegExp(keppoJsonSchema({ strict: false }).pattern)
+
+    assert.equal(keppoJsonSchema().type, 'string')
+
+    for (const version of ['1.2.3', '1.2.3-0a', 'v1.2.3', '1.2.3-01', '1.2']) {
+      assert.equal(
+        strict.test(version),
+        keppoSchema().safeParse(version).success,
+        version
+      )
+      assert.equal(
+        loose.test(version),
+        keppoSchema({ strict: false }).safeParse(version).success,
+        version
+      )
+    }
+  })
+})